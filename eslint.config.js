@@ -28,6 +28,8 @@ export default [
         // Web APIs available in Node.js
         URL: 'readonly',
         URLSearchParams: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
         // Node.js namespace for types
         NodeJS: 'readonly',
       },
@@ -74,6 +76,8 @@ export default [
         clearInterval: 'readonly',
         URL: 'readonly',
         URLSearchParams: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
         // Node.js namespace for types
         NodeJS: 'readonly',
         // Vitest globals
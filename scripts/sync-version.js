@@ -4,6 +4,7 @@
  * Reads version from package.json and updates:
  * - src/cli/help.ts (DEFAULT_PACKAGE_INFO)
  * - src/ui/renderer.ts (UIRenderer default)
+ * - src/version.ts (VERSION constant)
  *
  * Usage: node scripts/sync-version.js
  */
@@ -36,6 +37,11 @@ const filesToUpdate = [
     pattern: /(this\.version\s*=\s*options\.version\s*\?\?\s*')[\d.]+(')/,
     replacement: `$1${version}$2`,
   },
+  {
+    path: 'src/version.ts',
+    pattern: /(VERSION\s*=\s*')[\d.]+(')/,
+    replacement: `$1${version}$2`,
+  },
 ];
 
 let updated = 0;
@@ -5,13 +5,15 @@
  * Follows Dependency Inversion - depends on abstractions, not concrete implementations.
  */
 
-import type { CliOutput, FileSystem, ExitHandler } from './types.js';
+import { NO_PRODUCTION_GUARD_ENV } from './types.js';
+import type { CliArgs, CliOutput, FileSystem, ExitHandler } from './types.js';
 import { ArgParser } from './arg-parser.js';
 import { EnvLoader, defaultFileSystem, defaultProcessEnv } from './env-loader.js';
 import { CliValidator } from './validators.js';
 import { HelpDisplay, defaultCliOutput } from './help.js';
 import { CliExecutor } from './executor.js';
 import { ConfigLoader } from './config-loader.js';
+import type { ConfigFileSchema } from './config-schema.js';
 import { ConfigMerger, type MergedConfig } from './config-merger.js';
 
 /**
@@ -94,7 +96,17 @@ export class CliApplication {
     const configResult = await this.configLoader.load();
 
     // Merge CLI args with config file
-    const args = this.configMerger.merge(cliArgs, configResult.config, configResult.filepath);
+    const args = this.mergeConfig(cliArgs, configResult.config, configResult.filepath);
+
+    // Only the shell environment can turn the guard off, not a .env file
+    if (['1', 'true'].includes(this.envLoader.get(NO_PRODUCTION_GUARD_ENV)?.toLowerCase() ?? '')) {
+      args.noProductionGuard = true;
+    }
+    if (args.productionGuard === false && !args.noProductionGuard) {
+      this.output.warn(
+        `Warning: productionGuard: false in the config file is ignored. Turn the guard off with --no-production-guard or ${NO_PRODUCTION_GUARD_ENV}=1.`
+      );
+    }
 
     // Validate argument combinations
     this.validateArgumentCombinations(args);
@@ -103,10 +115,36 @@ export class CliApplication {
     if (args.verbose && args.configFileUsed) {
       this.output.log(`Using config file: ${args.configFilePath}`);
     }
+    if (args.verbose && args.envProfile) {
+      this.output.log(`Using environment profile: ${args.envProfile}`);
+    }
 
     // Load environment
     this.loadEnvironment(args);
 
+    // The doctor reports a missing or broken URL instead of stopping at it
+    if (args.command === 'doctor') {
+      const result = await this.executor.doctor({ ...this.findDatabaseUrl(cliArgs, args), args });
+      if (!result.success) {
+        this.exitHandler.exit(result.exitCode);
+      }
+      return;
+    }
+
+    // Several databases: each target's URL is checked by the runner
+    if (args.targets?.length) {
+      const sqlDirectory = this.validateSqlDirectory(args);
+      const result = await this.executor.executeTargets({
+        targets: args.targets,
+        sqlDirectory,
+        args,
+      });
+      if (!result.success) {
+        this.exitHandler.exit(result.exitCode);
+      }
+      return;
+    }
+
     // Get database URL
     const databaseUrl = this.getDatabaseUrl(args);
 
@@ -116,7 +154,17 @@ export class CliApplication {
     // Execute
     const config = { databaseUrl, sqlDirectory, args };
 
-    if (args.watch) {
+    if (args.command === 'status') {
+      const result = await this.executor.status(config);
+      if (!result.success) {
+        this.exitHandler.exit(result.exitCode);
+      }
+    } else if (args.command === 'revert') {
+      const result = await this.executor.revert(config);
+      if (!result.success) {
+        this.exitHandler.exit(result.exitCode);
+      }
+    } else if (args.watch) {
       await this.executor.executeWithWatch(config);
       // Watch mode keeps running, don't exit
     } else {
@@ -127,6 +175,24 @@ export class CliApplication {
     }
   }
 
+  /**
+   * Merge CLI args with the config file and the selected environment profile
+   */
+  private mergeConfig(
+    cliArgs: CliArgs,
+    fileConfig: ConfigFileSchema,
+    configFilePath?: string
+  ): MergedConfig {
+    try {
+      return this.configMerger.merge(cliArgs, fileConfig, configFilePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.output.error(`Error: ${errorMessage}`);
+      this.exitHandler.exit(1);
+      throw error;
+    }
+  }
+
   /**
    * Load environment from file
    */
@@ -150,6 +216,23 @@ export class CliApplication {
     }
   }
 
+  /**
+   * Find the database URL and where it came from, without validating it
+   */
+  private findDatabaseUrl(
+    cliArgs: CliArgs,
+    args: MergedConfig
+  ): { databaseUrl?: string; urlSource?: string } {
+    if (cliArgs.databaseUrl) {
+      return { databaseUrl: cliArgs.databaseUrl, urlSource: '--database-url' };
+    }
+    if (args.databaseUrl) {
+      return { databaseUrl: args.databaseUrl, urlSource: args.configFilePath ?? 'config file' };
+    }
+    const envUrl = this.envLoader.get('DATABASE_URL');
+    return envUrl ? { databaseUrl: envUrl, urlSource: 'DATABASE_URL' } : {};
+  }
+
   /**
    * Get and validate database URL
    */
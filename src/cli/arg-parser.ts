@@ -5,9 +5,27 @@
  * Follows Open/Closed Principle with extensible argument definitions.
  */
 
-import type { CliArgs } from './types.js';
+import * as fs from 'node:fs';
+import type { ResultCaptureMode, TransactionMode } from '../types.js';
+import type { CliArgs, CliCommand } from './types.js';
 import { CLI_DEFAULTS } from './types.js';
 
+/**
+ * Commands recognized as the first positional argument
+ */
+const COMMANDS: readonly CliCommand[] = ['run', 'status', 'revert', 'reset', 'doctor'];
+
+/**
+ * Checks whether a path is an existing directory
+ */
+function isExistingDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Argument definition for extensibility
  */
@@ -59,6 +77,13 @@ function createArgDefinitions(): ArgDefinition[] {
         result.dryRun = true;
       },
     },
+    {
+      flags: ['--rehearse'],
+      hasValue: false,
+      handler: (result) => {
+        result.rehearse = true;
+      },
+    },
     {
       flags: ['--no-logs'],
       hasValue: false,
@@ -66,6 +91,34 @@ function createArgDefinitions(): ArgDefinition[] {
         result.noLogs = true;
       },
     },
+    {
+      flags: ['-r', '--recursive'],
+      hasValue: false,
+      handler: (result) => {
+        result.recursive = true;
+      },
+    },
+    {
+      flags: ['--data-files'],
+      hasValue: false,
+      handler: (result) => {
+        result.dataFiles = true;
+      },
+    },
+    {
+      flags: ['--templates'],
+      hasValue: false,
+      handler: (result) => {
+        result.templates = true;
+      },
+    },
+    {
+      flags: ['--batch-statements'],
+      hasValue: false,
+      handler: (result) => {
+        result.batchStatements = true;
+      },
+    },
     {
       flags: ['-w', '--watch'],
       hasValue: false,
@@ -73,6 +126,76 @@ function createArgDefinitions(): ArgDefinition[] {
         result.watch = true;
       },
     },
+    {
+      flags: ['--track-history'],
+      hasValue: false,
+      handler: (result) => {
+        result.trackHistory = true;
+      },
+    },
+    {
+      flags: ['--rerun-modified'],
+      hasValue: false,
+      handler: (result) => {
+        result.rerunModified = true;
+      },
+    },
+    {
+      flags: ['--continue-on-error'],
+      hasValue: false,
+      handler: (result) => {
+        result.continueOnError = true;
+      },
+    },
+    {
+      flags: ['--commit-on-error'],
+      hasValue: false,
+      handler: (result) => {
+        result.commitOnError = true;
+      },
+    },
+    {
+      flags: ['--advisory-lock'],
+      hasValue: false,
+      handler: (result) => {
+        result.advisoryLock = true;
+      },
+    },
+    {
+      flags: ['--parallel'],
+      hasValue: false,
+      handler: (result) => {
+        result.parallel = true;
+      },
+    },
+    {
+      flags: ['--allow-production'],
+      hasValue: false,
+      handler: (result) => {
+        result.allowProduction = true;
+      },
+    },
+    {
+      flags: ['--no-production-guard'],
+      hasValue: false,
+      handler: (result) => {
+        result.noProductionGuard = true;
+      },
+    },
+    {
+      flags: ['--drop-dependents'],
+      hasValue: false,
+      handler: (result) => {
+        result.dropDependents = true;
+      },
+    },
+    {
+      flags: ['--schema-diff'],
+      hasValue: false,
+      handler: (result) => {
+        result.schemaDiff = true;
+      },
+    },
 
     // Value arguments
     {
@@ -86,7 +209,10 @@ function createArgDefinitions(): ArgDefinition[] {
       flags: ['-u', '--url', '--database-url'],
       hasValue: true,
       handler: (result, value) => {
-        if (value) result.databaseUrl = value;
+        if (value) {
+          result.databaseUrl = value;
+          result.databaseUrls = [...(result.databaseUrls ?? []), value];
+        }
       },
     },
     {
@@ -96,6 +222,13 @@ function createArgDefinitions(): ArgDefinition[] {
         if (value) result.envFile = value;
       },
     },
+    {
+      flags: ['--env-profile'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.envProfile = value;
+      },
+    },
     {
       flags: ['--confirmation-phrase'],
       hasValue: true,
@@ -110,6 +243,128 @@ function createArgDefinitions(): ArgDefinition[] {
         if (value) result.logDirectory = value;
       },
     },
+    {
+      flags: ['--transaction-mode'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.transactionMode = value as TransactionMode;
+      },
+    },
+    {
+      flags: ['--capture-results'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.captureResults = value as ResultCaptureMode;
+      },
+    },
+    {
+      flags: ['--max-result-rows'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.maxResultRows = Number(value);
+      },
+    },
+    {
+      flags: ['--statement-timeout'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.statementTimeout = value;
+      },
+    },
+    {
+      flags: ['--lock-timeout'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.lockTimeout = value;
+      },
+    },
+    {
+      flags: ['--idle-in-transaction-timeout'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.idleInTransactionTimeout = value;
+      },
+    },
+    {
+      flags: ['--advisory-lock-key'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.advisoryLockKey = value;
+      },
+    },
+    {
+      flags: ['--advisory-lock-wait'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.advisoryLockWait = value;
+      },
+    },
+    {
+      flags: ['--connect-retries'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.connectRetries = Number(value);
+      },
+    },
+    {
+      flags: ['--connect-retry-delay'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.connectRetryDelay = value;
+      },
+    },
+    {
+      flags: ['--confirm-project-ref'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) {
+          result.confirmProjectRef = value;
+          result.confirmProjectRefs = [...(result.confirmProjectRefs ?? []), value];
+        }
+      },
+    },
+    {
+      flags: ['--history-schema'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.historySchema = value;
+      },
+    },
+    {
+      flags: ['--history-table'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.historyTable = value;
+      },
+    },
+    {
+      flags: ['--var'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.vars = [...(result.vars ?? []), value];
+      },
+    },
+    {
+      flags: ['--last'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.revertLast = Number(value);
+      },
+    },
+    {
+      flags: ['--from'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.revertFrom = value;
+      },
+    },
+    {
+      flags: ['--to'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) result.revertTo = value;
+      },
+    },
     {
       flags: ['--only'],
       hasValue: true,
@@ -128,6 +383,15 @@ function createArgDefinitions(): ArgDefinition[] {
         }
       },
     },
+    {
+      flags: ['--reset-schemas'],
+      hasValue: true,
+      handler: (result, value) => {
+        if (value) {
+          result.resetSchemas = parseCommaSeparated(value);
+        }
+      },
+    },
   ];
 }
 
@@ -145,7 +409,10 @@ export class ArgParser {
   private definitions: ArgDefinition[];
   private flagMap: Map<string, ArgDefinition>;
 
-  constructor() {
+  /**
+   * @param isDirectory - Directory check for a positional named like a command
+   */
+  constructor(private isDirectory: (dirPath: string) => boolean = isExistingDirectory) {
     this.definitions = createArgDefinitions();
     this.flagMap = this.buildFlagMap();
   }
@@ -168,12 +435,18 @@ export class ArgParser {
    */
   parse(args: string[]): CliArgs {
     const result: CliArgs = { ...CLI_DEFAULTS };
+    let sawPositional = false;
+    let sawDirectory = false;
+    let commandArg: string | undefined;
 
     for (let i = 0; i < args.length; i++) {
       const arg = args[i];
       const definition = this.flagMap.get(arg);
 
       if (definition) {
+        if (definition.flags.includes('--directory')) {
+          sawDirectory = true;
+        }
         if (definition.hasValue) {
           const nextArg = args[i + 1];
           definition.handler(result, nextArg);
@@ -184,11 +457,24 @@ export class ArgParser {
           definition.handler(result);
         }
       } else if (!arg.startsWith('-')) {
-        // Positional argument - treat as directory
-        result.sqlDirectory = arg;
+        // First positional may be a command, otherwise it's the directory
+        if (!sawPositional && (COMMANDS as readonly string[]).includes(arg)) {
+          result.command = arg as CliCommand;
+          commandArg = arg;
+        } else {
+          result.sqlDirectory = arg;
+          sawDirectory = true;
+        }
+        sawPositional = true;
       }
     }
 
+    // A lone command name is the directory when a directory of that name exists
+    if (commandArg && !sawDirectory && this.isDirectory(commandArg)) {
+      result.command = CLI_DEFAULTS.command;
+      result.sqlDirectory = commandArg;
+    }
+
     return result;
   }
 
@@ -14,6 +14,9 @@
 import { cosmiconfig } from 'cosmiconfig';
 import type { ConfigFileSchema, ConfigLoadResult } from './config-schema.js';
 import { CONFIG_MODULE_NAME } from './config-schema.js';
+import { isValidTimeout } from '../core/timeouts.js';
+import { VARIABLE_NAME_PATTERN } from '../core/template.js';
+import type { RunTarget } from '../core/targets.js';
 
 /**
  * ConfigLoader class
@@ -145,6 +148,56 @@ export class ConfigLoader {
     if (typeof raw.ignorePattern === 'string') {
       normalized.ignorePattern = raw.ignorePattern;
     }
+    if (typeof raw.recursive === 'boolean') {
+      normalized.recursive = raw.recursive;
+    }
+    if (typeof raw.dataFiles === 'boolean') {
+      normalized.dataFiles = raw.dataFiles;
+    }
+    if (typeof raw.templates === 'boolean') {
+      normalized.templates = raw.templates;
+    }
+    if (typeof raw.batchStatements === 'boolean') {
+      normalized.batchStatements = raw.batchStatements;
+    }
+    if (raw.transactionMode === 'single' || raw.transactionMode === 'per-file') {
+      normalized.transactionMode = raw.transactionMode;
+    }
+    if (raw.captureResults === 'none' || raw.captureResults === 'marked' || raw.captureResults === 'all') {
+      normalized.captureResults = raw.captureResults;
+    }
+    if (typeof raw.maxResultRows === 'number') {
+      normalized.maxResultRows = raw.maxResultRows;
+    }
+    if (typeof raw.connectRetries === 'number') {
+      normalized.connectRetries = raw.connectRetries;
+    }
+    if (typeof raw.historySchema === 'string') {
+      normalized.historySchema = raw.historySchema;
+    }
+    if (typeof raw.historyTable === 'string') {
+      normalized.historyTable = raw.historyTable;
+    }
+    if (typeof raw.advisoryLockKey === 'string') {
+      normalized.advisoryLockKey = raw.advisoryLockKey;
+    }
+
+    // Timeouts (milliseconds or duration strings)
+    if (isValidTimeout(raw.statementTimeout)) {
+      normalized.statementTimeout = raw.statementTimeout;
+    }
+    if (isValidTimeout(raw.lockTimeout)) {
+      normalized.lockTimeout = raw.lockTimeout;
+    }
+    if (isValidTimeout(raw.idleInTransactionTimeout)) {
+      normalized.idleInTransactionTimeout = raw.idleInTransactionTimeout;
+    }
+    if (isValidTimeout(raw.advisoryLockWait)) {
+      normalized.advisoryLockWait = raw.advisoryLockWait;
+    }
+    if (isValidTimeout(raw.connectRetryDelay)) {
+      normalized.connectRetryDelay = raw.connectRetryDelay;
+    }
 
     // Boolean properties
     if (typeof raw.yes === 'boolean') {
@@ -156,6 +209,9 @@ export class ConfigLoader {
     if (typeof raw.dryRun === 'boolean') {
       normalized.dryRun = raw.dryRun;
     }
+    if (typeof raw.rehearse === 'boolean') {
+      normalized.rehearse = raw.rehearse;
+    }
     if (typeof raw.noLogs === 'boolean') {
       normalized.noLogs = raw.noLogs;
     }
@@ -165,6 +221,43 @@ export class ConfigLoader {
     if (typeof raw.ssl === 'boolean') {
       normalized.ssl = raw.ssl;
     }
+    if (typeof raw.trackHistory === 'boolean') {
+      normalized.trackHistory = raw.trackHistory;
+    }
+    if (typeof raw.rerunModified === 'boolean') {
+      normalized.rerunModified = raw.rerunModified;
+    }
+    if (typeof raw.continueOnError === 'boolean') {
+      normalized.continueOnError = raw.continueOnError;
+    }
+    if (typeof raw.commitOnError === 'boolean') {
+      normalized.commitOnError = raw.commitOnError;
+    }
+    if (typeof raw.advisoryLock === 'boolean') {
+      normalized.advisoryLock = raw.advisoryLock;
+    }
+    if (typeof raw.schemaDiff === 'boolean') {
+      normalized.schemaDiff = raw.schemaDiff;
+    }
+    if (typeof raw.parallel === 'boolean') {
+      normalized.parallel = raw.parallel;
+    }
+    if (typeof raw.productionGuard === 'boolean') {
+      normalized.productionGuard = raw.productionGuard;
+    }
+
+    // Template variables (numbers and booleans are converted to strings)
+    if (typeof raw.variables === 'object' && raw.variables !== null && !Array.isArray(raw.variables)) {
+      normalized.variables = {};
+      for (const [name, value] of Object.entries(raw.variables)) {
+        if (
+          VARIABLE_NAME_PATTERN.test(name) &&
+          ['string', 'number', 'boolean'].includes(typeof value)
+        ) {
+          normalized.variables[name] = String(value);
+        }
+      }
+    }
 
     // Array properties
     if (Array.isArray(raw.only)) {
@@ -173,6 +266,53 @@ export class ConfigLoader {
     if (Array.isArray(raw.skip)) {
       normalized.skip = raw.skip.filter((item): item is string => typeof item === 'string');
     }
+    if (Array.isArray(raw.targets)) {
+      normalized.targets = raw.targets.flatMap((item): RunTarget[] => {
+        if (typeof item === 'string') {
+          return [{ databaseUrl: item }];
+        }
+        if (typeof item === 'object' && item !== null && typeof item.databaseUrl === 'string') {
+          const target: RunTarget = { databaseUrl: item.databaseUrl };
+          if (typeof item.name === 'string') {
+            target.name = item.name;
+          }
+          if (typeof item.confirmProjectRef === 'string') {
+            target.confirmProjectRef = item.confirmProjectRef;
+          }
+          return [target];
+        }
+        return [];
+      });
+    }
+    if (Array.isArray(raw.resetSchemas)) {
+      normalized.resetSchemas = raw.resetSchemas.filter(
+        (item): item is string => typeof item === 'string'
+      );
+    }
+    if (Array.isArray(raw.productionAllowList)) {
+      normalized.productionAllowList = raw.productionAllowList.filter(
+        (item): item is string => typeof item === 'string'
+      );
+    }
+    if (Array.isArray(raw.productionDenyList)) {
+      normalized.productionDenyList = raw.productionDenyList.filter(
+        (item): item is string => typeof item === 'string'
+      );
+    }
+
+    // Environment profiles, normalized like the top level (profiles don't nest)
+    if (
+      typeof raw.environments === 'object' &&
+      raw.environments !== null &&
+      !Array.isArray(raw.environments)
+    ) {
+      normalized.environments = {};
+      for (const [name, profile] of Object.entries(raw.environments)) {
+        const options = this.validateAndNormalize(profile);
+        delete options.environments;
+        normalized.environments[name] = options;
+      }
+    }
 
     return normalized;
   }
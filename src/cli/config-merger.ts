@@ -3,14 +3,16 @@
  *
  * Merges configuration from multiple sources with proper priority:
  * 1. CLI arguments (highest priority)
- * 2. Configuration file
- * 3. Environment variables
- * 4. Default values (lowest priority)
+ * 2. Environment profile selected with --env-profile
+ * 3. Configuration file
+ * 4. Environment variables
+ * 5. Default values (lowest priority)
  */
 
 import type { CliArgs } from './types.js';
 import { CLI_DEFAULTS } from './types.js';
-import type { ConfigFileSchema } from './config-schema.js';
+import type { ConfigFileSchema, ConfigProfile } from './config-schema.js';
+import { parseVariableAssignment } from '../core/template.js';
 
 /**
  * Merged configuration result
@@ -26,6 +28,12 @@ export interface MergedConfig extends CliArgs {
   filePattern?: string;
   /** Ignore pattern regex string */
   ignorePattern?: string;
+  /** Template variables: config file values overridden by --var */
+  variables?: Record<string, string>;
+  /** Production guard settings from config file (`productionGuard: false` alone does not turn it off) */
+  productionGuard?: boolean;
+  productionAllowList?: string[];
+  productionDenyList?: string[];
 }
 
 /**
@@ -38,8 +46,11 @@ export class ConfigMerger {
    *
    * Priority (highest to lowest):
    * 1. CLI arguments
-   * 2. Config file
-   * 3. Defaults
+   * 2. Environment profile (--env-profile)
+   * 3. Config file
+   * 4. Defaults
+   *
+   * @throws Error if --env-profile names a profile the config file doesn't define
    */
   merge(
     cliArgs: CliArgs,
@@ -56,53 +67,26 @@ export class ConfigMerger {
     if (Object.keys(fileConfig).length > 0) {
       result.configFileUsed = true;
       result.configFilePath = configFilePath;
+      this.applyFileConfig(result, fileConfig);
+    }
 
-      // Map config file properties to CLI args
-      if (fileConfig.directory !== undefined) {
-        result.sqlDirectory = fileConfig.directory;
-      }
-      if (fileConfig.databaseUrl !== undefined) {
-        result.databaseUrl = fileConfig.databaseUrl;
-      }
-      if (fileConfig.envFile !== undefined) {
-        result.envFile = fileConfig.envFile;
-      }
-      if (fileConfig.yes !== undefined) {
-        result.skipConfirmation = fileConfig.yes;
-      }
-      if (fileConfig.confirmationPhrase !== undefined) {
-        result.confirmationPhrase = fileConfig.confirmationPhrase;
-      }
-      if (fileConfig.verbose !== undefined) {
-        result.verbose = fileConfig.verbose;
-      }
-      if (fileConfig.dryRun !== undefined) {
-        result.dryRun = fileConfig.dryRun;
-      }
-      if (fileConfig.noLogs !== undefined) {
-        result.noLogs = fileConfig.noLogs;
-      }
-      if (fileConfig.logDirectory !== undefined) {
-        result.logDirectory = fileConfig.logDirectory;
-      }
-      if (fileConfig.only !== undefined) {
-        result.onlyFiles = fileConfig.only;
-      }
-      if (fileConfig.skip !== undefined) {
-        result.skipFiles = fileConfig.skip;
-      }
-      if (fileConfig.watch !== undefined) {
-        result.watch = fileConfig.watch;
+    // Apply the selected environment profile over the base config
+    if (cliArgs.envProfile !== undefined) {
+      const profile = fileConfig.environments?.[cliArgs.envProfile];
+      if (!profile) {
+        const available = Object.keys(fileConfig.environments ?? {});
+        throw new Error(
+          available.length > 0
+            ? `Unknown environment profile "${cliArgs.envProfile}". Available profiles: ${available.join(', ')}`
+            : `Unknown environment profile "${cliArgs.envProfile}". The config file has no environments section`
+        );
       }
-      if (fileConfig.ssl !== undefined) {
-        result.ssl = fileConfig.ssl;
-      }
-      if (fileConfig.filePattern !== undefined) {
-        result.filePattern = fileConfig.filePattern;
-      }
-      if (fileConfig.ignorePattern !== undefined) {
-        result.ignorePattern = fileConfig.ignorePattern;
+      // A profile's own database replaces the base config's targets
+      if (profile.databaseUrl !== undefined && profile.targets === undefined) {
+        result.targets = undefined;
       }
+      this.applyFileConfig(result, profile);
+      result.envProfile = cliArgs.envProfile;
     }
 
     // Apply CLI arguments (override config file)
@@ -113,6 +97,17 @@ export class ConfigMerger {
     if (cliArgs.databaseUrl !== undefined) {
       result.databaseUrl = cliArgs.databaseUrl;
     }
+    // Repeated --database-url flags are the targets; a single one replaces the config's targets
+    if (cliArgs.databaseUrls !== undefined) {
+      result.databaseUrls = cliArgs.databaseUrls;
+      result.targets =
+        cliArgs.databaseUrls.length > 1
+          ? cliArgs.databaseUrls.map((databaseUrl) => ({ databaseUrl }))
+          : undefined;
+    }
+    if (cliArgs.parallel !== CLI_DEFAULTS.parallel) {
+      result.parallel = cliArgs.parallel;
+    }
     if (cliArgs.envFile !== undefined) {
       result.envFile = cliArgs.envFile;
     }
@@ -128,6 +123,9 @@ export class ConfigMerger {
     if (cliArgs.dryRun !== CLI_DEFAULTS.dryRun) {
       result.dryRun = cliArgs.dryRun;
     }
+    if (cliArgs.rehearse !== CLI_DEFAULTS.rehearse) {
+      result.rehearse = cliArgs.rehearse;
+    }
     if (cliArgs.noLogs !== CLI_DEFAULTS.noLogs) {
       result.noLogs = cliArgs.noLogs;
     }
@@ -140,16 +138,261 @@ export class ConfigMerger {
     if (cliArgs.skipFiles !== undefined) {
       result.skipFiles = cliArgs.skipFiles;
     }
+    if (cliArgs.recursive !== CLI_DEFAULTS.recursive) {
+      result.recursive = cliArgs.recursive;
+    }
+    if (cliArgs.dataFiles !== CLI_DEFAULTS.dataFiles) {
+      result.dataFiles = cliArgs.dataFiles;
+    }
+    if (cliArgs.templates !== CLI_DEFAULTS.templates) {
+      result.templates = cliArgs.templates;
+    }
+    if (cliArgs.batchStatements !== CLI_DEFAULTS.batchStatements) {
+      result.batchStatements = cliArgs.batchStatements;
+    }
     if (cliArgs.watch !== CLI_DEFAULTS.watch) {
       result.watch = cliArgs.watch;
     }
+    if (cliArgs.transactionMode !== CLI_DEFAULTS.transactionMode) {
+      result.transactionMode = cliArgs.transactionMode;
+    }
+    if (cliArgs.captureResults !== CLI_DEFAULTS.captureResults) {
+      result.captureResults = cliArgs.captureResults;
+    }
+    if (cliArgs.maxResultRows !== undefined) {
+      result.maxResultRows = cliArgs.maxResultRows;
+    }
+    if (cliArgs.trackHistory !== CLI_DEFAULTS.trackHistory) {
+      result.trackHistory = cliArgs.trackHistory;
+    }
+    if (cliArgs.rerunModified !== CLI_DEFAULTS.rerunModified) {
+      result.rerunModified = cliArgs.rerunModified;
+    }
+    if (cliArgs.continueOnError !== CLI_DEFAULTS.continueOnError) {
+      result.continueOnError = cliArgs.continueOnError;
+    }
+    if (cliArgs.commitOnError !== CLI_DEFAULTS.commitOnError) {
+      result.commitOnError = cliArgs.commitOnError;
+    }
+    if (cliArgs.statementTimeout !== undefined) {
+      result.statementTimeout = cliArgs.statementTimeout;
+    }
+    if (cliArgs.lockTimeout !== undefined) {
+      result.lockTimeout = cliArgs.lockTimeout;
+    }
+    if (cliArgs.idleInTransactionTimeout !== undefined) {
+      result.idleInTransactionTimeout = cliArgs.idleInTransactionTimeout;
+    }
+    if (cliArgs.advisoryLock !== CLI_DEFAULTS.advisoryLock) {
+      result.advisoryLock = cliArgs.advisoryLock;
+    }
+    if (cliArgs.advisoryLockKey !== undefined) {
+      result.advisoryLockKey = cliArgs.advisoryLockKey;
+    }
+    if (cliArgs.advisoryLockWait !== undefined) {
+      result.advisoryLockWait = cliArgs.advisoryLockWait;
+    }
+    if (cliArgs.connectRetries !== undefined) {
+      result.connectRetries = cliArgs.connectRetries;
+    }
+    if (cliArgs.connectRetryDelay !== undefined) {
+      result.connectRetryDelay = cliArgs.connectRetryDelay;
+    }
+    if (cliArgs.schemaDiff !== CLI_DEFAULTS.schemaDiff) {
+      result.schemaDiff = cliArgs.schemaDiff;
+    }
+    if (cliArgs.resetSchemas !== undefined) {
+      result.resetSchemas = cliArgs.resetSchemas;
+    }
+    if (cliArgs.dropDependents !== CLI_DEFAULTS.dropDependents) {
+      result.dropDependents = cliArgs.dropDependents;
+    }
+    if (cliArgs.allowProduction !== CLI_DEFAULTS.allowProduction) {
+      result.allowProduction = cliArgs.allowProduction;
+    }
+    if (cliArgs.noProductionGuard !== CLI_DEFAULTS.noProductionGuard) {
+      result.noProductionGuard = cliArgs.noProductionGuard;
+    }
+    if (cliArgs.confirmProjectRef !== undefined) {
+      result.confirmProjectRef = cliArgs.confirmProjectRef;
+      result.confirmProjectRefs = cliArgs.confirmProjectRefs;
+    }
+    if (cliArgs.vars !== undefined) {
+      result.vars = cliArgs.vars;
+      result.variables = { ...result.variables };
+      for (const assignment of cliArgs.vars) {
+        const parsed = parseVariableAssignment(assignment);
+        if (parsed) {
+          result.variables[parsed.name] = parsed.value;
+        }
+      }
+    }
+    if (cliArgs.historySchema !== undefined) {
+      result.historySchema = cliArgs.historySchema;
+    }
+    if (cliArgs.historyTable !== undefined) {
+      result.historyTable = cliArgs.historyTable;
+    }
+    if (cliArgs.revertLast !== undefined) {
+      result.revertLast = cliArgs.revertLast;
+    }
+    if (cliArgs.revertFrom !== undefined) {
+      result.revertFrom = cliArgs.revertFrom;
+    }
+    if (cliArgs.revertTo !== undefined) {
+      result.revertTo = cliArgs.revertTo;
+    }
 
-    // Preserve help and version flags from CLI
+    // Preserve command, help and version flags from CLI
+    result.command = cliArgs.command;
     result.help = cliArgs.help;
     result.version = cliArgs.version;
 
     return result;
   }
+
+  /**
+   * Map config file (or profile) properties to CLI args
+   */
+  private applyFileConfig(result: MergedConfig, fileConfig: ConfigProfile): void {
+    if (fileConfig.directory !== undefined) {
+      result.sqlDirectory = fileConfig.directory;
+    }
+    if (fileConfig.databaseUrl !== undefined) {
+      result.databaseUrl = fileConfig.databaseUrl;
+    }
+    if (fileConfig.targets !== undefined) {
+      result.targets = fileConfig.targets.map((target) =>
+        typeof target === 'string' ? { databaseUrl: target } : target
+      );
+    }
+    if (fileConfig.parallel !== undefined) {
+      result.parallel = fileConfig.parallel;
+    }
+    if (fileConfig.envFile !== undefined) {
+      result.envFile = fileConfig.envFile;
+    }
+    if (fileConfig.yes !== undefined) {
+      result.skipConfirmation = fileConfig.yes;
+    }
+    if (fileConfig.confirmationPhrase !== undefined) {
+      result.confirmationPhrase = fileConfig.confirmationPhrase;
+    }
+    if (fileConfig.verbose !== undefined) {
+      result.verbose = fileConfig.verbose;
+    }
+    if (fileConfig.dryRun !== undefined) {
+      result.dryRun = fileConfig.dryRun;
+    }
+    if (fileConfig.rehearse !== undefined) {
+      result.rehearse = fileConfig.rehearse;
+    }
+    if (fileConfig.noLogs !== undefined) {
+      result.noLogs = fileConfig.noLogs;
+    }
+    if (fileConfig.logDirectory !== undefined) {
+      result.logDirectory = fileConfig.logDirectory;
+    }
+    if (fileConfig.only !== undefined) {
+      result.onlyFiles = fileConfig.only;
+    }
+    if (fileConfig.skip !== undefined) {
+      result.skipFiles = fileConfig.skip;
+    }
+    if (fileConfig.watch !== undefined) {
+      result.watch = fileConfig.watch;
+    }
+    if (fileConfig.ssl !== undefined) {
+      result.ssl = fileConfig.ssl;
+    }
+    if (fileConfig.connectRetries !== undefined) {
+      result.connectRetries = fileConfig.connectRetries;
+    }
+    if (fileConfig.connectRetryDelay !== undefined) {
+      result.connectRetryDelay = fileConfig.connectRetryDelay;
+    }
+    if (fileConfig.filePattern !== undefined) {
+      result.filePattern = fileConfig.filePattern;
+    }
+    if (fileConfig.ignorePattern !== undefined) {
+      result.ignorePattern = fileConfig.ignorePattern;
+    }
+    if (fileConfig.recursive !== undefined) {
+      result.recursive = fileConfig.recursive;
+    }
+    if (fileConfig.dataFiles !== undefined) {
+      result.dataFiles = fileConfig.dataFiles;
+    }
+    if (fileConfig.templates !== undefined) {
+      result.templates = fileConfig.templates;
+    }
+    if (fileConfig.batchStatements !== undefined) {
+      result.batchStatements = fileConfig.batchStatements;
+    }
+    if (fileConfig.transactionMode !== undefined) {
+      result.transactionMode = fileConfig.transactionMode;
+    }
+    if (fileConfig.captureResults !== undefined) {
+      result.captureResults = fileConfig.captureResults;
+    }
+    if (fileConfig.maxResultRows !== undefined) {
+      result.maxResultRows = fileConfig.maxResultRows;
+    }
+    if (fileConfig.trackHistory !== undefined) {
+      result.trackHistory = fileConfig.trackHistory;
+    }
+    if (fileConfig.rerunModified !== undefined) {
+      result.rerunModified = fileConfig.rerunModified;
+    }
+    if (fileConfig.continueOnError !== undefined) {
+      result.continueOnError = fileConfig.continueOnError;
+    }
+    if (fileConfig.commitOnError !== undefined) {
+      result.commitOnError = fileConfig.commitOnError;
+    }
+    if (fileConfig.statementTimeout !== undefined) {
+      result.statementTimeout = fileConfig.statementTimeout;
+    }
+    if (fileConfig.lockTimeout !== undefined) {
+      result.lockTimeout = fileConfig.lockTimeout;
+    }
+    if (fileConfig.idleInTransactionTimeout !== undefined) {
+      result.idleInTransactionTimeout = fileConfig.idleInTransactionTimeout;
+    }
+    if (fileConfig.advisoryLock !== undefined) {
+      result.advisoryLock = fileConfig.advisoryLock;
+    }
+    if (fileConfig.advisoryLockKey !== undefined) {
+      result.advisoryLockKey = fileConfig.advisoryLockKey;
+    }
+    if (fileConfig.advisoryLockWait !== undefined) {
+      result.advisoryLockWait = fileConfig.advisoryLockWait;
+    }
+    if (fileConfig.schemaDiff !== undefined) {
+      result.schemaDiff = fileConfig.schemaDiff;
+    }
+    if (fileConfig.resetSchemas !== undefined) {
+      result.resetSchemas = fileConfig.resetSchemas;
+    }
+    if (fileConfig.productionGuard !== undefined) {
+      result.productionGuard = fileConfig.productionGuard;
+    }
+    if (fileConfig.productionAllowList !== undefined) {
+      result.productionAllowList = fileConfig.productionAllowList;
+    }
+    if (fileConfig.productionDenyList !== undefined) {
+      result.productionDenyList = fileConfig.productionDenyList;
+    }
+    if (fileConfig.variables !== undefined) {
+      result.variables = { ...result.variables, ...fileConfig.variables };
+    }
+    if (fileConfig.historySchema !== undefined) {
+      result.historySchema = fileConfig.historySchema;
+    }
+    if (fileConfig.historyTable !== undefined) {
+      result.historyTable = fileConfig.historyTable;
+    }
+  }
 }
 
 /**
@@ -5,6 +5,9 @@
  * This is the user-facing configuration schema that gets merged with CLI args.
  */
 
+import type { ResultCaptureMode, TimeoutValue, TransactionMode } from '../types.js';
+import type { RunTarget } from '../core/targets.js';
+
 /**
  * Configuration file schema
  * All properties are optional - users only specify what they want to override
@@ -23,6 +26,18 @@ export interface ConfigFileSchema {
    */
   databaseUrl?: string;
 
+  /**
+   * Databases to run against instead of `databaseUrl`: URLs, or objects with a name
+   * @example [{ "name": "alice", "databaseUrl": "postgres://..." }, "postgres://..."]
+   */
+  targets?: Array<string | RunTarget>;
+
+  /**
+   * Run the targets at once instead of one after the other (requires `yes`)
+   * @default false
+   */
+  parallel?: boolean;
+
   /**
    * Path to .env file
    * @default ".env"
@@ -53,6 +68,12 @@ export interface ConfigFileSchema {
    */
   dryRun?: boolean;
 
+  /**
+   * Rehearsal mode - run every file, then roll back
+   * @default false
+   */
+  rehearse?: boolean;
+
   /**
    * Disable file logging
    * @default false
@@ -66,14 +87,14 @@ export interface ConfigFileSchema {
   logDirectory?: string;
 
   /**
-   * Only run specific files (by name)
+   * Only run specific files (by name, or relative path with `recursive`)
    * @example ["01_tables.sql", "02_functions.sql"]
    */
   only?: string[];
 
   /**
-   * Skip specific files (by name)
-   * @example ["06_seed.sql"]
+   * Skip specific files (by name, or relative path with `recursive`)
+   * @example ["06_seed.sql", "02_seed/"]
    */
   skip?: string[];
 
@@ -89,6 +110,18 @@ export interface ConfigFileSchema {
    */
   ssl?: boolean;
 
+  /**
+   * Retries after a transient connection failure (0 disables retrying)
+   * @default 3
+   */
+  connectRetries?: number;
+
+  /**
+   * Wait before the first connection retry, doubled for every retry (milliseconds or "2s")
+   * @default "1s"
+   */
+  connectRetryDelay?: TimeoutValue;
+
   /**
    * File pattern to match SQL files (regex string)
    * @default "\\.sql$"
@@ -100,8 +133,169 @@ export interface ConfigFileSchema {
    * @default "^_ignored|README"
    */
   ignorePattern?: string;
+
+  /**
+   * Scan subdirectories too (files run depth-first in sorted path order)
+   * @default false
+   */
+  recursive?: boolean;
+
+  /**
+   * Load .csv, .tsv, .json and .ndjson files in the sequence with COPY
+   * @default false
+   */
+  dataFiles?: boolean;
+
+  /**
+   * Transaction handling: one transaction for the run, or one per file
+   * @default "single"
+   */
+  transactionMode?: TransactionMode;
+
+  /**
+   * Statements whose rows are shown after each file: none, marked (`-- sql-runner: show`) or all
+   * @default "marked"
+   */
+  captureResults?: ResultCaptureMode;
+
+  /**
+   * Maximum rows shown per result set
+   * @default 20
+   */
+  maxResultRows?: number;
+
+  /**
+   * Record applied files in a history table and only run pending files
+   * @default false
+   */
+  trackHistory?: boolean;
+
+  /**
+   * Re-run files that changed since they were applied
+   * @default false
+   */
+  rerunModified?: boolean;
+
+  /**
+   * Keep running after a failed file and report every failure
+   * @default false
+   */
+  continueOnError?: boolean;
+
+  /**
+   * With continueOnError, commit successful files even if some failed
+   * @default false
+   */
+  commitOnError?: boolean;
+
+  /**
+   * PostgreSQL statement_timeout for every file (milliseconds or "30s", "5min")
+   */
+  statementTimeout?: TimeoutValue;
+
+  /**
+   * PostgreSQL lock_timeout for every file
+   */
+  lockTimeout?: TimeoutValue;
+
+  /**
+   * PostgreSQL idle_in_transaction_session_timeout for the session
+   */
+  idleInTransactionTimeout?: TimeoutValue;
+
+  /**
+   * Take an advisory lock so concurrent runs against the same database fail or wait
+   * @default false
+   */
+  advisoryLock?: boolean;
+
+  /**
+   * Advisory lock name (defaults to the SQL directory)
+   */
+  advisoryLockKey?: string;
+
+  /**
+   * How long to wait for a busy advisory lock (milliseconds or "30s", "5min")
+   */
+  advisoryLockWait?: TimeoutValue;
+
+  /**
+   * Report the tables, functions, policies and other objects a run added, dropped or altered
+   * @default false
+   */
+  schemaDiff?: boolean;
+
+  /**
+   * Schemas the reset command drops and recreates
+   * Supabase-managed schemas (auth, storage, realtime, ...) can't be reset
+   * @default ["public"]
+   */
+  resetSchemas?: string[];
+
+  /**
+   * Refuse production-like databases unless --allow-production is given with the project ref
+   * `false` is ignored with a warning: only --no-production-guard or
+   * SQL_RUNNER_NO_PRODUCTION_GUARD=1 turns the guard off
+   * @default true
+   */
+  productionGuard?: boolean;
+
+  /**
+   * Hosts, project refs or database names never treated as production by name (`*` wildcards)
+   * @example ["staging-*", "abcdefghijklmnop"]
+   */
+  productionAllowList?: string[];
+
+  /**
+   * Hosts, project refs or database names always treated as production (`*` wildcards)
+   * @example ["db.qrstuvwxyzabcdef.supabase.co", "*.internal.example.com"]
+   */
+  productionDenyList?: string[];
+
+  /**
+   * Render `{{ name }}` placeholders in every SQL file, not only those with a
+   * `-- sql-runner: template` header
+   * @default false
+   */
+  templates?: boolean;
+
+  /**
+   * Send each file's statements in batches instead of one round-trip per
+   * statement (transactional files only)
+   * @default false
+   */
+  batchStatements?: boolean;
+
+  /**
+   * Values for `{{ name }}` placeholders in SQL files (overridden by --var)
+   * @example { "schema": "app", "seed_users": "100" }
+   */
+  variables?: Record<string, string>;
+
+  /**
+   * Schema holding the history table
+   * @default "sql_runner"
+   */
+  historySchema?: string;
+
+  /**
+   * Name of the history table
+   * @default "history"
+   */
+  historyTable?: string;
+
+  /**
+   * Named profiles selected with --env-profile, each applied over the options above
+   * @example { "staging": { "envFile": ".env.staging", "directory": "./sql/staging" } }
+   */
+  environments?: Record<string, ConfigProfile>;
 }
 
+/**
+ * Options an environment profile can set: any top-level option except `environments`
+ */
+export type ConfigProfile = Omit<ConfigFileSchema, 'environments'>;
+
 /**
  * Result of loading a configuration file
  */
@@ -124,22 +318,66 @@ export const CONFIG_MODULE_NAME = 'sql-runner';
  * Default configuration values
  */
 export const CONFIG_DEFAULTS: Required<
-  Omit<ConfigFileSchema, 'databaseUrl' | 'only' | 'skip'>
+  Omit<
+    ConfigFileSchema,
+    | 'databaseUrl'
+    | 'targets'
+    | 'only'
+    | 'skip'
+    | 'statementTimeout'
+    | 'lockTimeout'
+    | 'idleInTransactionTimeout'
+    | 'advisoryLockKey'
+    | 'advisoryLockWait'
+    | 'variables'
+    | 'environments'
+  >
 > & {
   databaseUrl?: string;
+  targets?: Array<string | RunTarget>;
   only?: string[];
   skip?: string[];
+  statementTimeout?: TimeoutValue;
+  lockTimeout?: TimeoutValue;
+  idleInTransactionTimeout?: TimeoutValue;
+  advisoryLockKey?: string;
+  advisoryLockWait?: TimeoutValue;
+  variables?: Record<string, string>;
+  environments?: Record<string, ConfigProfile>;
 } = {
   directory: './sql',
   envFile: '.env',
+  parallel: false,
   yes: false,
   confirmationPhrase: 'CONFIRM',
   verbose: false,
   dryRun: false,
+  rehearse: false,
   noLogs: false,
   logDirectory: './logs',
   watch: false,
   ssl: true,
+  connectRetries: 3,
+  connectRetryDelay: '1s',
   filePattern: '\\.sql$',
   ignorePattern: '^_ignored|README',
+  recursive: false,
+  dataFiles: false,
+  templates: false,
+  batchStatements: false,
+  transactionMode: 'single',
+  captureResults: 'marked',
+  maxResultRows: 20,
+  trackHistory: false,
+  rerunModified: false,
+  continueOnError: false,
+  commitOnError: false,
+  advisoryLock: false,
+  schemaDiff: false,
+  resetSchemas: ['public'],
+  productionGuard: true,
+  productionAllowList: [],
+  productionDenyList: [],
+  historySchema: 'sql_runner',
+  historyTable: 'history',
 };
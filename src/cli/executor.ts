@@ -7,12 +7,17 @@
 
 import { SqlRunner } from '../core/runner.js';
 import { startWatcher } from '../core/watcher.js';
+import { DATA_FILE_PATTERN } from '../core/data-files.js';
+import { runDoctor } from '../core/doctor.js';
+import { assessProductionTarget } from '../core/production-guard.js';
+import { runTargets, type MultiTargetSummary, type RunTarget } from '../core/targets.js';
 import { getConnectionErrorHelp, formatConnectionErrorHelp } from '../core/connection.js';
-import type { SqlRunnerConfig, ExecutionSummary, RunOptions } from '../types.js';
+import type { SqlRunnerConfig, ExecutionSummary, RunOptions, RevertOptions } from '../types.js';
 import type { CliArgs, CliOutput } from './types.js';
 import type { MergedConfig } from './config-merger.js';
 import { defaultCliOutput } from './help.js';
-import { c, symbols } from '../ui/index.js';
+import { c, symbols, createUIRenderer } from '../ui/index.js';
+import { VERSION } from '../version.js';
 
 /**
  * Configuration for the executor
@@ -24,12 +29,34 @@ export interface ExecutorConfig {
   args: CliArgs | MergedConfig;
 }
 
+/**
+ * Configuration for a run against several databases
+ */
+export interface TargetsExecutorConfig {
+  targets: RunTarget[];
+  sqlDirectory: string;
+  args: CliArgs | MergedConfig;
+}
+
+/**
+ * Configuration for the doctor command
+ * The URL is optional: a missing URL is one of the things it reports
+ */
+export interface DoctorConfig {
+  databaseUrl?: string;
+  /** Where the URL came from ("--database-url", the config file, "DATABASE_URL") */
+  urlSource?: string;
+  args: CliArgs | MergedConfig;
+}
+
 /**
  * Execution result
  */
 export interface ExecutionResult {
   success: boolean;
   summary?: ExecutionSummary;
+  /** Per-target and aggregate results of a multi-target run */
+  targetsSummary?: MultiTargetSummary;
   error?: string;
   exitCode: number;
 }
@@ -47,8 +74,54 @@ export function buildRunnerConfig(config: ExecutorConfig): SqlRunnerConfig {
     confirmationPhrase: args.confirmationPhrase,
     verbose: args.verbose,
     logDirectory: args.noLogs ? null : args.logDirectory,
+    transactionMode: args.transactionMode,
+    captureResults: args.captureResults,
+    trackHistory: args.trackHistory,
+    rerunModified: args.rerunModified,
+    recursive: args.recursive,
+    dataFiles: args.dataFiles,
+    templates: args.templates,
+    batchStatements: args.batchStatements,
+    continueOnError: args.continueOnError,
+    commitOnError: args.commitOnError,
+    advisoryLock: args.advisoryLock,
+    schemaDiff: args.schemaDiff,
   };
 
+  if (args.historySchema !== undefined) {
+    runnerConfig.historySchema = args.historySchema;
+  }
+  if (args.historyTable !== undefined) {
+    runnerConfig.historyTable = args.historyTable;
+  }
+  if (args.maxResultRows !== undefined) {
+    runnerConfig.maxResultRows = args.maxResultRows;
+  }
+  if (args.statementTimeout !== undefined) {
+    runnerConfig.statementTimeout = args.statementTimeout;
+  }
+  if (args.lockTimeout !== undefined) {
+    runnerConfig.lockTimeout = args.lockTimeout;
+  }
+  if (args.idleInTransactionTimeout !== undefined) {
+    runnerConfig.idleInTransactionTimeout = args.idleInTransactionTimeout;
+  }
+  if (args.advisoryLockKey !== undefined) {
+    runnerConfig.advisoryLockKey = args.advisoryLockKey;
+  }
+  if (args.advisoryLockWait !== undefined) {
+    runnerConfig.advisoryLockWait = args.advisoryLockWait;
+  }
+  if (args.connectRetries !== undefined) {
+    runnerConfig.connectRetries = args.connectRetries;
+  }
+  if (args.connectRetryDelay !== undefined) {
+    runnerConfig.connectRetryDelay = args.connectRetryDelay;
+  }
+  if (args.resetSchemas !== undefined) {
+    runnerConfig.resetSchemas = args.resetSchemas;
+  }
+
   // Apply additional config file settings if available (MergedConfig)
   const mergedArgs = args as MergedConfig;
   if (mergedArgs.ssl !== undefined) {
@@ -60,6 +133,18 @@ export function buildRunnerConfig(config: ExecutorConfig): SqlRunnerConfig {
   if (mergedArgs.ignorePattern !== undefined) {
     runnerConfig.ignorePattern = new RegExp(mergedArgs.ignorePattern);
   }
+  if (mergedArgs.variables !== undefined) {
+    runnerConfig.variables = mergedArgs.variables;
+  }
+  if (mergedArgs.noProductionGuard) {
+    runnerConfig.productionGuard = false;
+  }
+  if (mergedArgs.productionAllowList !== undefined) {
+    runnerConfig.productionAllowList = mergedArgs.productionAllowList;
+  }
+  if (mergedArgs.productionDenyList !== undefined) {
+    runnerConfig.productionDenyList = mergedArgs.productionDenyList;
+  }
 
   return runnerConfig;
 }
@@ -73,6 +158,26 @@ export function buildRunOptions(args: CliArgs, skipConfirmation?: boolean): RunO
     onlyFiles: args.onlyFiles,
     skipFiles: args.skipFiles,
     dryRun: args.dryRun,
+    rehearse: args.rehearse,
+    reset: args.command === 'reset',
+    dropDependents: args.dropDependents,
+    allowProduction: args.allowProduction,
+    productionConfirmation: args.confirmProjectRef,
+  };
+}
+
+/**
+ * Build RevertOptions from CLI args
+ */
+export function buildRevertOptions(args: CliArgs): RevertOptions {
+  return {
+    last: args.revertLast,
+    from: args.revertFrom,
+    to: args.revertTo,
+    skipConfirmation: args.skipConfirmation,
+    dryRun: args.dryRun,
+    allowProduction: args.allowProduction,
+    productionConfirmation: args.confirmProjectRef,
   };
 }
 
@@ -97,6 +202,82 @@ export class CliExecutor {
       const runner = new SqlRunner(runnerConfig);
       const summary = await runner.run(runOptions);
 
+      // 130 is the shell's code for a process stopped by Ctrl+C
+      return {
+        success: summary.allSuccessful && !summary.cancelled,
+        summary,
+        exitCode: summary.cancelled ? 130 : summary.allSuccessful ? 0 : 1,
+      };
+    } catch (error) {
+      return this.handleError(error, config.databaseUrl);
+    }
+  }
+
+  /**
+   * Execute SQL scripts against several databases, one after the other or in parallel
+   */
+  async executeTargets(config: TargetsExecutorConfig): Promise<ExecutionResult> {
+    const { databaseUrl: _databaseUrl, ...runnerConfig } = buildRunnerConfig({
+      databaseUrl: '',
+      sqlDirectory: config.sqlDirectory,
+      args: config.args,
+    });
+
+    try {
+      // Each target is confirmed by the --confirm-project-ref matching its own project ref
+      const confirmProjectRefs = config.args.confirmProjectRefs ?? [];
+      const targets = config.targets.map((target) => {
+        const expected = assessProductionTarget(target.databaseUrl).confirmationText;
+        return target.confirmProjectRef === undefined && confirmProjectRefs.includes(expected)
+          ? { ...target, confirmProjectRef: expected }
+          : target;
+      });
+      const targetsSummary = await runTargets(runnerConfig, targets, {
+        ...buildRunOptions(config.args),
+        productionConfirmation: undefined,
+        parallel: config.args.parallel,
+      });
+      const cancelled = targetsSummary.targets.some((target) => target.status === 'cancelled');
+
+      return {
+        success: targetsSummary.allSuccessful,
+        targetsSummary,
+        exitCode: cancelled ? 130 : targetsSummary.allSuccessful ? 0 : 1,
+      };
+    } catch (error) {
+      return this.handleError(error, config.targets[0]?.databaseUrl ?? '');
+    }
+  }
+
+  /**
+   * Show history status (applied, pending and modified files)
+   */
+  async status(config: ExecutorConfig): Promise<ExecutionResult> {
+    const runnerConfig = buildRunnerConfig(config);
+
+    try {
+      const runner = new SqlRunner(runnerConfig);
+      await runner.status();
+
+      return {
+        success: true,
+        exitCode: 0,
+      };
+    } catch (error) {
+      return this.handleError(error, config.databaseUrl);
+    }
+  }
+
+  /**
+   * Revert files by running their down-scripts
+   */
+  async revert(config: ExecutorConfig): Promise<ExecutionResult> {
+    const runnerConfig = buildRunnerConfig(config);
+
+    try {
+      const runner = new SqlRunner(runnerConfig);
+      const summary = await runner.revert(buildRevertOptions(config.args));
+
       return {
         success: summary.allSuccessful,
         summary,
@@ -107,6 +288,27 @@ export class CliExecutor {
     }
   }
 
+  /**
+   * Check the connection and environment, printing a pass/fail checklist
+   */
+  async doctor(config: DoctorConfig): Promise<ExecutionResult> {
+    const ui = createUIRenderer({ name: 'sql-runner', version: VERSION });
+    ui.banner();
+    ui.info('Checking the connection and environment...');
+
+    const report = await runDoctor({
+      databaseUrl: config.databaseUrl,
+      urlSource: config.urlSource,
+      ssl: (config.args as MergedConfig).ssl,
+    });
+    ui.doctor(report);
+
+    return {
+      success: report.ok,
+      exitCode: report.ok ? 0 : 1,
+    };
+  }
+
   /**
    * Execute with watch mode
    */
@@ -128,7 +330,10 @@ export class CliExecutor {
 
       const cleanup = startWatcher({
         directory: config.sqlDirectory,
-        pattern: /\.sql$/,
+        pattern: config.args.dataFiles
+          ? new RegExp(`\\.sql$|${DATA_FILE_PATTERN.source}`)
+          : /\.sql$/,
+        recursive: config.args.recursive,
         countdownSeconds: 30,
         onExecute: async () => {
           const watchRunner = new SqlRunner(runnerConfig);
@@ -46,31 +46,79 @@ ${renderBanner({ name: 'sql-runner', version, subtitle: 'Supabase SQL Dev Runner
 ${c.warning(symbols.warning)} ${c.warning('Development tool')} ${c.muted('- not for production use')}
 
 ${c.title('Usage')}
-  sql-runner [options] [directory]
+  sql-runner [command] [options] [directory]
+
+${c.title('Commands')}
+  ${c.cyan('run')}                    Execute SQL files ${c.muted('(default)')}
+  ${c.cyan('status')}                 Show applied, pending and modified files
+  ${c.cyan('revert')}                 Run down-scripts for --last <n> or --from <file> [--to <file>]
+  ${c.cyan('reset')}                  Drop and recreate the reset schemas, then run every file
+  ${c.cyan('doctor')}                 Check the database URL, connection and permissions
 
 ${c.title('Arguments')}
   ${c.muted('directory')}              SQL directory ${c.muted('(default: ./sql)')}
+                         ${c.muted('A lone command name is the directory if one exists by that name;')}
+                         ${c.muted('name the command too (run reset) or use -d to be explicit')}
 
 ${c.title('Options')}
   ${c.cyan('-h, --help')}             Show this help message
   ${c.cyan('-v, --version')}          Show version number
 
   ${c.cyan('-d, --directory')} <path>  SQL files directory
-  ${c.cyan('-u, --database-url')} <url> Database URL (or use DATABASE_URL env)
+  ${c.cyan('-u, --database-url')} <url> Database URL (or use DATABASE_URL env) ${c.muted('(repeat for several)')}
+  ${c.cyan('--parallel')}             Run against every database at once ${c.muted('(needs -y)')}
   ${c.cyan('-e, --env-file')} <path>  Load environment from file ${c.muted('(default: .env)')}
+  ${c.cyan('--env-profile')} <name>   Apply a profile from the config file's environments
+  ${c.cyan('--connect-retries')} <n>  Retries for transient connection errors ${c.muted('(default: 3)')}
+  ${c.cyan('--connect-retry-delay')} <t> First retry delay, doubled each time ${c.muted('(default: 1s)')}
 
   ${c.cyan('-y, --yes')}              Skip confirmation prompt
   ${c.cyan('--confirmation-phrase')}  Custom confirmation phrase ${c.muted('(default: CONFIRM)')}
 
   ${c.cyan('--verbose')}              Enable verbose output
   ${c.cyan('--dry-run')}              Show what would be executed
+  ${c.cyan('--rehearse')}             Execute every file, then roll back
   ${c.cyan('--no-logs')}              Disable file logging
   ${c.cyan('--log-directory')} <path> Log directory ${c.muted('(default: ./logs)')}
 
   ${c.cyan('--only')} <files>         Only run specific files ${c.muted('(comma-separated)')}
   ${c.cyan('--skip')} <files>         Skip specific files ${c.muted('(comma-separated)')}
+  ${c.cyan('-r, --recursive')}        Include subdirectories ${c.muted('(depth-first, sorted by path)')}
+  ${c.cyan('--data-files')}           Load .csv, .tsv, .json and .ndjson files with COPY
 
   ${c.cyan('-w, --watch')}            Watch for file changes and re-run
+  ${c.cyan('--transaction-mode')} <m> single or per-file ${c.muted('(default: single)')}
+  ${c.cyan('--continue-on-error')}    Keep running after a failed file, report all failures
+  ${c.cyan('--commit-on-error')}      With --continue-on-error, commit the files that succeeded
+
+  ${c.cyan('--capture-results')} <m>  Show rows: none, marked or all ${c.muted('(default: marked)')}
+  ${c.cyan('--max-result-rows')} <n>  Rows shown per result ${c.muted('(default: 20)')}
+
+  ${c.cyan('--statement-timeout')} <t> Cancel statements running longer ${c.muted('(e.g. 30s, 5min)')}
+  ${c.cyan('--lock-timeout')} <t>      Stop waiting for locks after this long
+  ${c.cyan('--idle-in-transaction-timeout')} <t> Close idle transactions after this long
+
+  ${c.cyan('--advisory-lock')}        Refuse to run while another runner holds the lock
+  ${c.cyan('--advisory-lock-key')} <k> Lock name ${c.muted('(default: the SQL directory)')}
+  ${c.cyan('--advisory-lock-wait')} <t> Wait this long for a busy lock ${c.muted('(e.g. 2min)')}
+
+  ${c.cyan('--schema-diff')}          Report the objects the run added, dropped or altered
+
+  ${c.cyan('--reset-schemas')} <list> Schemas reset drops and recreates ${c.muted('(default: public)')}
+  ${c.cyan('--drop-dependents')}      Let reset drop objects in other schemas that depend on them
+
+  ${c.cyan('--allow-production')}     Run against a production-like database after typing its project ref
+  ${c.cyan('--confirm-project-ref')} <ref> The project ref, given ahead for non-interactive runs ${c.muted('(repeat per target)')}
+  ${c.cyan('--no-production-guard')}  Turn the production guard off ${c.muted('(or SQL_RUNNER_NO_PRODUCTION_GUARD=1)')}
+
+  ${c.cyan('--templates')}            Render {{ name }} placeholders in every file
+  ${c.cyan('--batch-statements')}     Send statements in batches instead of one round-trip each
+  ${c.cyan('--var')} <name=value>    Template variable for {{ name }} ${c.muted('(repeatable)')}
+
+  ${c.cyan('--track-history')}        Record applied files and only run pending ones
+  ${c.cyan('--rerun-modified')}       Re-run files changed since they were applied
+  ${c.cyan('--history-schema')} <name> History table schema ${c.muted('(default: sql_runner)')}
+  ${c.cyan('--history-table')} <name> History table name ${c.muted('(default: history)')}
 
 ${c.title('Environment')}
   ${c.muted('DATABASE_URL')}           PostgreSQL connection string
@@ -80,9 +128,19 @@ ${c.title('Examples')}
   ${c.muted('$')} sql-runner ./migrations                 ${c.muted('# Custom directory')}
   ${c.muted('$')} sql-runner -y                           ${c.muted('# Skip confirmation')}
   ${c.muted('$')} sql-runner --dry-run                    ${c.muted('# Preview mode')}
+  ${c.muted('$')} sql-runner --rehearse                   ${c.muted('# Check every file, keep nothing')}
   ${c.muted('$')} sql-runner --only "01_tables.sql"       ${c.muted('# Run specific file')}
   ${c.muted('$')} sql-runner --skip "06_seed.sql"         ${c.muted('# Skip specific file')}
   ${c.muted('$')} sql-runner --watch                      ${c.muted('# Watch mode')}
+  ${c.muted('$')} sql-runner --transaction-mode per-file ${c.muted('# Commit each file separately')}
+  ${c.muted('$')} sql-runner --track-history -y           ${c.muted('# Only run pending files')}
+  ${c.muted('$')} sql-runner reset                        ${c.muted('# Start from a clean public schema')}
+  ${c.muted('$')} sql-runner doctor                       ${c.muted('# Diagnose connection problems')}
+  ${c.muted('$')} sql-runner --env-profile staging        ${c.muted('# Use the staging profile')}
+  ${c.muted('$')} sql-runner -u $ALICE_URL -u $SHARED_URL ${c.muted('# Run against two databases')}
+  ${c.muted('$')} sql-runner --continue-on-error          ${c.muted('# Find every broken file in one pass')}
+  ${c.muted('$')} sql-runner status                       ${c.muted('# Show history status')}
+  ${c.muted('$')} sql-runner revert --last 2              ${c.muted('# Undo the last two files')}
 `;
 }
 
@@ -7,6 +7,7 @@
 // Types
 export type {
   CliArgs,
+  CliCommand,
   CliOutput,
   FileSystem,
   ProcessEnv,
@@ -15,7 +16,7 @@ export type {
   EnvLoadResult,
 } from './types.js';
 
-export { CLI_DEFAULTS } from './types.js';
+export { CLI_DEFAULTS, NO_PRODUCTION_GUARD_ENV } from './types.js';
 
 // Argument Parser
 export { ArgParser, parseArgs } from './arg-parser.js';
@@ -56,7 +57,7 @@ export {
   loadConfig,
 } from './config-loader.js';
 
-export type { ConfigFileSchema, ConfigLoadResult } from './config-schema.js';
+export type { ConfigFileSchema, ConfigProfile, ConfigLoadResult } from './config-schema.js';
 export { CONFIG_MODULE_NAME, CONFIG_DEFAULTS } from './config-schema.js';
 
 export {
@@ -72,6 +73,7 @@ export {
   CliExecutor,
   buildRunnerConfig,
   buildRunOptions,
+  buildRevertOptions,
 } from './executor.js';
 
 export type { ExecutorConfig, ExecutionResult } from './executor.js';
@@ -4,22 +4,89 @@
  * Defines the contracts for CLI components following Interface Segregation Principle.
  */
 
+import type { ResultCaptureMode, TimeoutValue, TransactionMode } from '../types.js';
+import type { RunTarget } from '../core/targets.js';
+
+/**
+ * CLI commands
+ * - run: execute SQL files (default)
+ * - status: show applied, pending and modified files from the history table
+ * - revert: run the down-scripts of the chosen files in reverse order
+ * - reset: drop and recreate the reset schemas, then run every file
+ * - doctor: check the database URL, connection and permissions
+ */
+export type CliCommand = 'run' | 'status' | 'revert' | 'reset' | 'doctor';
+
 /**
  * Parsed CLI arguments
  */
 export interface CliArgs {
+  command: CliCommand;
   sqlDirectory: string;
   databaseUrl?: string;
+  /** Every --database-url given, in order (more than one runs against each) */
+  databaseUrls?: string[];
+  /** Databases to run against, from repeated --database-url flags or the config file */
+  targets?: RunTarget[];
+  /** Run the targets at once (--parallel) */
+  parallel: boolean;
   envFile?: string;
+  /** Config file profile applied over the base config (--env-profile) */
+  envProfile?: string;
   skipConfirmation: boolean;
   confirmationPhrase: string;
   verbose: boolean;
   dryRun: boolean;
+  rehearse: boolean;
   noLogs: boolean;
   logDirectory: string;
   onlyFiles?: string[];
   skipFiles?: string[];
+  recursive: boolean;
+  dataFiles: boolean;
+  /** Render `{{ ... }}` placeholders in every file (--templates) */
+  templates: boolean;
+  /** Send statements in batches instead of one at a time (--batch-statements) */
+  batchStatements: boolean;
   watch: boolean;
+  transactionMode: TransactionMode;
+  captureResults: ResultCaptureMode;
+  maxResultRows?: number;
+  trackHistory: boolean;
+  rerunModified: boolean;
+  continueOnError: boolean;
+  commitOnError: boolean;
+  statementTimeout?: TimeoutValue;
+  lockTimeout?: TimeoutValue;
+  idleInTransactionTimeout?: TimeoutValue;
+  advisoryLock: boolean;
+  advisoryLockKey?: string;
+  advisoryLockWait?: TimeoutValue;
+  connectRetries?: number;
+  connectRetryDelay?: TimeoutValue;
+  schemaDiff: boolean;
+  /** Go ahead on a database the production guard flags (--allow-production) */
+  allowProduction: boolean;
+  /** Turn the production guard off (--no-production-guard or SQL_RUNNER_NO_PRODUCTION_GUARD) */
+  noProductionGuard: boolean;
+  /** Project ref typed ahead for --allow-production (--confirm-project-ref) */
+  confirmProjectRef?: string;
+  /** Every --confirm-project-ref given; with several targets, each takes the one matching its ref */
+  confirmProjectRefs?: string[];
+  /** reset: schemas to drop and recreate (--reset-schemas) */
+  resetSchemas?: string[];
+  /** reset: drop objects in other schemas that depend on the reset schemas (--drop-dependents) */
+  dropDependents: boolean;
+  /** Raw `name=value` assignments from repeated --var flags */
+  vars?: string[];
+  historySchema?: string;
+  historyTable?: string;
+  /** revert: number of files to revert (--last) */
+  revertLast?: number;
+  /** revert: first file of the range (--from) */
+  revertFrom?: string;
+  /** revert: last file of the range (--to) */
+  revertTo?: string;
   help: boolean;
   version: boolean;
 }
@@ -28,18 +95,41 @@ export interface CliArgs {
  * Default values for CLI arguments
  */
 export const CLI_DEFAULTS: Readonly<CliArgs> = Object.freeze({
+  command: 'run',
   sqlDirectory: './sql',
+  parallel: false,
   skipConfirmation: false,
   confirmationPhrase: 'CONFIRM',
   verbose: false,
   dryRun: false,
+  rehearse: false,
   noLogs: false,
   logDirectory: './logs',
+  recursive: false,
+  dataFiles: false,
+  templates: false,
+  batchStatements: false,
   watch: false,
+  transactionMode: 'single',
+  captureResults: 'marked',
+  trackHistory: false,
+  rerunModified: false,
+  continueOnError: false,
+  commitOnError: false,
+  advisoryLock: false,
+  schemaDiff: false,
+  allowProduction: false,
+  noProductionGuard: false,
+  dropDependents: false,
   help: false,
   version: false,
 });
 
+/**
+ * Environment variable that turns the production guard off, like --no-production-guard
+ */
+export const NO_PRODUCTION_GUARD_ENV = 'SQL_RUNNER_NO_PRODUCTION_GUARD';
+
 /**
  * CLI output interface for dependency injection
  */
@@ -7,8 +7,18 @@
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import type { ResultCaptureMode, TransactionMode } from '../types.js';
 import type { CliArgs, FileSystem, ValidationResult } from './types.js';
 import { defaultFileSystem } from './env-loader.js';
+import { isValidTimeout } from '../core/timeouts.js';
+import { parseVariableAssignment } from '../core/template.js';
+import { validateResetSchemas } from '../core/reset.js';
+
+/**
+ * Supported transaction modes
+ */
+const TRANSACTION_MODES: readonly TransactionMode[] = ['single', 'per-file'];
+const RESULT_CAPTURE_MODES: readonly ResultCaptureMode[] = ['none', 'marked', 'all'];
 
 /**
  * Validator interface for extensibility
@@ -134,6 +144,158 @@ export class ArgumentCombinationValidator implements Validator<Partial<CliArgs>>
       };
     }
 
+    // A rehearsal executes the files, a dry run doesn't
+    if (args.dryRun && args.rehearse) {
+      return {
+        valid: false,
+        error: '--dry-run and --rehearse cannot be used together. Use --rehearse to execute and roll back.',
+      };
+    }
+
+    // Check for an unknown transaction mode
+    if (args.transactionMode && !TRANSACTION_MODES.includes(args.transactionMode)) {
+      return {
+        valid: false,
+        error: `Invalid --transaction-mode "${args.transactionMode}". Expected one of: ${TRANSACTION_MODES.join(', ')}`,
+      };
+    }
+
+    // Check result capture options
+    if (args.captureResults && !RESULT_CAPTURE_MODES.includes(args.captureResults)) {
+      return {
+        valid: false,
+        error: `Invalid --capture-results "${args.captureResults}". Expected one of: ${RESULT_CAPTURE_MODES.join(', ')}`,
+      };
+    }
+    if (
+      args.maxResultRows !== undefined &&
+      (!Number.isInteger(args.maxResultRows) || args.maxResultRows < 1)
+    ) {
+      return { valid: false, error: '--max-result-rows must be a positive whole number.' };
+    }
+    if (
+      args.connectRetries !== undefined &&
+      (!Number.isInteger(args.connectRetries) || args.connectRetries < 0)
+    ) {
+      return { valid: false, error: '--connect-retries must be 0 or a positive whole number.' };
+    }
+
+    // Check timeout formats
+    const timeoutFlags = [
+      ['--statement-timeout', args.statementTimeout],
+      ['--lock-timeout', args.lockTimeout],
+      ['--idle-in-transaction-timeout', args.idleInTransactionTimeout],
+      ['--advisory-lock-wait', args.advisoryLockWait],
+      ['--connect-retry-delay', args.connectRetryDelay],
+    ] as const;
+    for (const [flag, value] of timeoutFlags) {
+      if (value !== undefined && !isValidTimeout(value)) {
+        return {
+          valid: false,
+          error: `Invalid ${flag} "${value}". Use milliseconds or a duration such as "30s", "5min" or "1h"`,
+        };
+      }
+    }
+
+    // Check --var assignments
+    const invalidVar = args.vars?.find((assignment) => !parseVariableAssignment(assignment));
+    if (invalidVar !== undefined) {
+      return {
+        valid: false,
+        error: `Invalid --var "${invalidVar}". Use --var name=value (letters, digits and underscores in the name)`,
+      };
+    }
+
+    // Check revert options
+    const hasRevertRange = args.revertFrom !== undefined || args.revertTo !== undefined;
+    if (args.command === 'revert') {
+      if (args.watch) {
+        return { valid: false, error: '--watch cannot be used with revert.' };
+      }
+      if (args.rehearse) {
+        return { valid: false, error: '--rehearse cannot be used with revert.' };
+      }
+      if (args.revertLast !== undefined && hasRevertRange) {
+        return { valid: false, error: 'Use either --last or --from/--to with revert, not both.' };
+      }
+      if (args.revertLast === undefined && args.revertFrom === undefined) {
+        return {
+          valid: false,
+          error: 'revert needs the files to revert: --last <n>, or --from <file> [--to <file>].',
+        };
+      }
+      if (
+        args.revertLast !== undefined &&
+        (!Number.isInteger(args.revertLast) || args.revertLast < 1)
+      ) {
+        return { valid: false, error: '--last must be a positive whole number.' };
+      }
+    } else if (args.revertLast !== undefined || hasRevertRange) {
+      warnings.push('--last, --from and --to only apply to the revert command.');
+    }
+
+    // Check reset options
+    if (args.command === 'reset') {
+      if (args.watch) {
+        return { valid: false, error: '--watch cannot be used with reset.' };
+      }
+      try {
+        validateResetSchemas(args.resetSchemas ?? ['public']);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { valid: false, error: `${errorMessage}.` };
+      }
+    } else if (args.dropDependents) {
+      warnings.push('--drop-dependents only applies to the reset command.');
+    }
+
+    // Check multi-target options
+    if (args.targets && args.targets.length > 0) {
+      if (args.command !== 'run' && args.command !== 'reset') {
+        return {
+          valid: false,
+          error: `Multiple targets only work with the run and reset commands, not ${args.command}.`,
+        };
+      }
+      if (args.watch) {
+        return { valid: false, error: '--watch cannot be used with multiple targets.' };
+      }
+      if (args.parallel && !args.skipConfirmation && !args.dryRun && !args.rehearse) {
+        return {
+          valid: false,
+          error: 'Targets running in --parallel cannot ask for confirmation. Add -y to skip it.',
+        };
+      }
+      // Refs can come from the command line or from each config file target
+      const everyTargetConfirmed =
+        args.confirmProjectRef !== undefined ||
+        args.targets.every((target) => target.confirmProjectRef !== undefined);
+      if (args.parallel && args.allowProduction && !everyTargetConfirmed) {
+        return {
+          valid: false,
+          error:
+            'Targets running in --parallel cannot ask for the production project ref. Add --confirm-project-ref for each target, or confirmProjectRef to each config file target.',
+        };
+      }
+    } else if (args.parallel) {
+      warnings.push('--parallel has no effect with a single database.');
+    }
+
+    // Check for --commit-on-error without --continue-on-error (no effect)
+    if (args.commitOnError && !args.continueOnError) {
+      warnings.push('--commit-on-error has no effect without --continue-on-error.');
+    }
+
+    // Check for --confirm-project-ref without --allow-production (no effect)
+    if (args.confirmProjectRef && !args.allowProduction) {
+      warnings.push('--confirm-project-ref has no effect without --allow-production.');
+    }
+
+    // Check for lock options without --advisory-lock (no effect)
+    if ((args.advisoryLockKey || args.advisoryLockWait !== undefined) && !args.advisoryLock) {
+      warnings.push('--advisory-lock-key and --advisory-lock-wait have no effect without --advisory-lock.');
+    }
+
     // Check for --only with --skip (potentially confusing)
     if (args.onlyFiles?.length && args.skipFiles?.length) {
       warnings.push(
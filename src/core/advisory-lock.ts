@@ -0,0 +1,196 @@
+import * as path from 'node:path';
+import type { AdvisoryLockHolder } from '../types.js';
+import type { SqlExecutor } from './executor.js';
+import { sleep } from './sleep.js';
+
+/**
+ * Namespace added to every lock key, so runner locks don't collide
+ * with advisory locks taken by the application itself
+ */
+export const ADVISORY_LOCK_NAMESPACE = 'sql-runner:';
+
+/**
+ * How often to retry while waiting for a busy lock
+ */
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Options for acquiring the lock
+ */
+export interface AcquireLockOptions {
+  /** How long to wait for a busy lock, in milliseconds (0 = fail immediately) */
+  waitMs: number;
+  /** Called once with the current holder when the lock is busy and the runner starts waiting */
+  onWait?: (holder: AdvisoryLockHolder | null) => void;
+  /** Stops waiting for a busy lock when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Raw holder row from pg_stat_activity
+ */
+interface HolderRow {
+  pid: number;
+  application_name: string | null;
+  client_addr: string | null;
+  usename: string | null;
+  backend_start: Date | null;
+  state: string | null;
+}
+
+/**
+ * Derives the default lock key from the SQL directory
+ * The path is relative to the working directory so checkouts in different
+ * locations still share a lock
+ *
+ * @param sqlDirectory - Configured SQL directory
+ */
+export function defaultAdvisoryLockKey(sqlDirectory: string): string {
+  const relative = path.relative(process.cwd(), path.resolve(sqlDirectory));
+  return relative === '' ? '.' : relative.split(path.sep).join('/');
+}
+
+/**
+ * Describes the session holding a lock, e.g. "pid 4242 (app: sql-runner, client: 10.0.0.5, user: postgres)"
+ */
+export function describeLockHolder(holder: AdvisoryLockHolder): string {
+  const details = [
+    `app: ${holder.applicationName || 'unknown'}`,
+    `client: ${holder.clientAddr ?? 'local socket or hidden'}`,
+  ];
+  if (holder.user) {
+    details.push(`user: ${holder.user}`);
+  }
+  if (holder.backendStart) {
+    details.push(`connected: ${holder.backendStart.toISOString()}`);
+  }
+  return `pid ${holder.pid} (${details.join(', ')})`;
+}
+
+/**
+ * Advisory lock - keeps concurrent runners off the same database
+ *
+ * Uses a session-level lock, so it survives the run's COMMIT/ROLLBACK and
+ * is released on unlock or when the connection closes. The key is hashed
+ * with `hashtextextended` into PostgreSQL's 64-bit lock space.
+ */
+export class AdvisoryLock {
+  private lockName: string;
+  private held = false;
+
+  constructor(
+    private executor: SqlExecutor,
+    readonly key: string
+  ) {
+    this.lockName = `${ADVISORY_LOCK_NAMESPACE}${key}`;
+  }
+
+  /**
+   * Whether this session currently holds the lock
+   */
+  get isHeld(): boolean {
+    return this.held;
+  }
+
+  /**
+   * Tries to take the lock once, without waiting
+   *
+   * @returns true if the lock was acquired
+   */
+  async tryAcquire(): Promise<boolean> {
+    const result = await this.executor.query<{ acquired: boolean }>(
+      'SELECT pg_try_advisory_lock(hashtextextended($1, 0)) AS acquired',
+      [this.lockName]
+    );
+    this.held = result.rows[0]?.acquired === true;
+    return this.held;
+  }
+
+  /**
+   * Takes the lock, polling until `waitMs` has passed if it's busy
+   *
+   * @throws Error naming the holding session if the lock can't be acquired,
+   * or the signal's reason when it aborts the wait
+   */
+  async acquire(options: AcquireLockOptions): Promise<void> {
+    if (await this.tryAcquire()) {
+      return;
+    }
+
+    const deadline = Date.now() + options.waitMs;
+
+    if (options.waitMs > 0) {
+      options.onWait?.(await this.getHolder());
+
+      while (Date.now() < deadline) {
+        await sleep(Math.min(POLL_INTERVAL_MS, deadline - Date.now()), options.signal);
+        options.signal?.throwIfAborted();
+        if (await this.tryAcquire()) {
+          return;
+        }
+      }
+    }
+
+    const holder = await this.getHolder();
+    const error = new Error(
+      options.waitMs > 0
+        ? `Timed out after ${options.waitMs}ms waiting for advisory lock "${this.key}"`
+        : `Advisory lock "${this.key}" is held by another session`
+    ) as Error & { detail?: string; hint?: string };
+
+    error.detail = holder
+      ? `Held by ${describeLockHolder(holder)}`
+      : 'The holding session is not visible to the current role';
+    error.hint =
+      options.waitMs > 0
+        ? 'Wait for the other run to finish, or increase the lock wait'
+        : 'Wait for the other run to finish, or set a lock wait to queue behind it';
+    throw error;
+  }
+
+  /**
+   * Looks up the session holding the lock in pg_stat_activity
+   *
+   * @returns The holder, or null if the lock is free or the session is not visible
+   */
+  async getHolder(): Promise<AdvisoryLockHolder | null> {
+    const result = await this.executor.query<HolderRow>(
+      `SELECT a.pid, a.application_name, a.client_addr::text AS client_addr,
+              a.usename, a.backend_start, a.state
+       FROM pg_locks l
+       JOIN pg_stat_activity a ON a.pid = l.pid
+       WHERE l.locktype = 'advisory'
+         AND l.granted
+         AND l.objsubid = 1
+         AND ((l.classid::bigint << 32) | l.objid::bigint) = hashtextextended($1, 0)
+         AND l.pid <> pg_backend_pid()
+       LIMIT 1`,
+      [this.lockName]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      pid: row.pid,
+      applicationName: row.application_name,
+      clientAddr: row.client_addr,
+      user: row.usename,
+      backendStart: row.backend_start,
+      state: row.state,
+    };
+  }
+
+  /**
+   * Releases the lock if this session holds it
+   */
+  async release(): Promise<void> {
+    if (!this.held) {
+      return;
+    }
+    await this.executor.query('SELECT pg_advisory_unlock(hashtextextended($1, 0))', [this.lockName]);
+    this.held = false;
+  }
+}
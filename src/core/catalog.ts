@@ -0,0 +1,199 @@
+import type {
+  CatalogObject,
+  CatalogObjectKind,
+  CatalogSnapshot,
+  SchemaChange,
+  SchemaDiff,
+} from '../types.js';
+import type { SqlExecutor } from './executor.js';
+
+/**
+ * Schemas never included in a snapshot (temporary schemas are excluded separately)
+ */
+export const SYSTEM_SCHEMAS: readonly string[] = ['pg_catalog', 'information_schema', 'pg_toast'];
+
+/**
+ * Raw snapshot row
+ */
+interface CatalogRow {
+  kind: CatalogObjectKind;
+  name: string;
+  parent: string | null;
+  definition: string | null;
+}
+
+/**
+ * Filters on the schema of `n` (pg_namespace); $1 holds the excluded schemas
+ */
+const SCHEMA_FILTER = `n.nspname <> ALL($1::text[]) AND n.nspname NOT LIKE 'pg\\_temp\\_%' AND n.nspname NOT LIKE 'pg\\_toast\\_temp\\_%'`;
+
+/**
+ * Skips objects created by extensions
+ */
+const notFromExtension = (oid: string) =>
+  `NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = ${oid} AND d.deptype = 'e')`;
+
+/**
+ * One query per object kind, each returning kind, name, parent and definition
+ * The definition is whatever identifies a change: altering an object changes it
+ */
+const SNAPSHOT_QUERIES: Record<CatalogObjectKind, string> = {
+  table: `
+    SELECT 'table' AS kind, format('%I.%I', n.nspname, c.relname) AS name, NULL AS parent,
+      CASE WHEN c.relrowsecurity THEN 'row level security' ELSE '' END AS definition
+    FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'f') AND ${SCHEMA_FILTER} AND ${notFromExtension('c.oid')}`,
+  column: `
+    SELECT 'column', format('%I.%I.%I', n.nspname, c.relname, a.attname), format('%I.%I', n.nspname, c.relname),
+      concat_ws(' ', format_type(a.atttypid, a.atttypmod),
+        CASE WHEN a.attnotnull THEN 'NOT NULL' END,
+        'DEFAULT ' || pg_get_expr(ad.adbin, ad.adrelid))
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_attrdef ad ON ad.adrelid = a.attrelid AND ad.adnum = a.attnum
+    WHERE c.relkind IN ('r', 'p', 'f') AND a.attnum > 0 AND NOT a.attisdropped
+      AND ${SCHEMA_FILTER} AND ${notFromExtension('c.oid')}`,
+  index: `
+    SELECT 'index', format('%I.%I', n.nspname, i.relname), format('%I.%I', n.nspname, c.relname),
+      pg_get_indexdef(i.oid)
+    FROM pg_index x
+    JOIN pg_class i ON i.oid = x.indexrelid
+    JOIN pg_class c ON c.oid = x.indrelid
+    JOIN pg_namespace n ON n.oid = i.relnamespace
+    WHERE ${SCHEMA_FILTER} AND ${notFromExtension('c.oid')}`,
+  constraint: `
+    SELECT 'constraint', format('%I.%I.%I', n.nspname, c.relname, con.conname), format('%I.%I', n.nspname, c.relname),
+      pg_get_constraintdef(con.oid)
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE ${SCHEMA_FILTER} AND ${notFromExtension('c.oid')}`,
+  function: `
+    SELECT 'function', format('%I.%I(%s)', n.nspname, p.proname, pg_get_function_identity_arguments(p.oid)), NULL,
+      md5(pg_get_functiondef(p.oid))
+    FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE p.prokind IN ('f', 'p') AND ${SCHEMA_FILTER} AND ${notFromExtension('p.oid')}`,
+  view: `
+    SELECT 'view', format('%I.%I', n.nspname, c.relname), NULL,
+      CASE c.relkind WHEN 'm' THEN 'materialized ' ELSE '' END || pg_get_viewdef(c.oid)
+    FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('v', 'm') AND ${SCHEMA_FILTER} AND ${notFromExtension('c.oid')}`,
+  policy: `
+    SELECT 'policy', format('%I.%I.%I', n.nspname, c.relname, pol.polname), format('%I.%I', n.nspname, c.relname),
+      concat_ws(' ', pol.polpermissive, pol.polcmd, pol.polroles::text,
+        pg_get_expr(pol.polqual, pol.polrelid), pg_get_expr(pol.polwithcheck, pol.polrelid))
+    FROM pg_policy pol
+    JOIN pg_class c ON c.oid = pol.polrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE ${SCHEMA_FILTER}`,
+  trigger: `
+    SELECT 'trigger', format('%I.%I.%I', n.nspname, c.relname, t.tgname), format('%I.%I', n.nspname, c.relname),
+      pg_get_triggerdef(t.oid) || ' ' || t.tgenabled
+    FROM pg_trigger t
+    JOIN pg_class c ON c.oid = t.tgrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE NOT t.tgisinternal AND ${SCHEMA_FILTER}`,
+  grant: `
+    SELECT 'grant', format('%I.%I to %s', n.nspname, c.relname, COALESCE(quote_ident(r.rolname), 'PUBLIC')),
+      format('%I.%I', n.nspname, c.relname),
+      string_agg(a.privilege_type, ', ' ORDER BY a.privilege_type)
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    CROSS JOIN LATERAL aclexplode(c.relacl) a
+    LEFT JOIN pg_roles r ON r.oid = a.grantee
+    WHERE c.relkind IN ('r', 'p', 'f', 'v', 'm', 'S') AND ${SCHEMA_FILTER} AND ${notFromExtension('c.oid')}
+    GROUP BY n.nspname, c.relname, r.rolname`,
+};
+
+/**
+ * Object kinds in the order changes are listed
+ */
+export const CATALOG_OBJECT_KINDS = Object.keys(SNAPSHOT_QUERIES) as CatalogObjectKind[];
+
+/**
+ * Reads the catalog objects a diff compares
+ *
+ * The snapshot runs as a single query on the executor's connection, so inside
+ * an open transaction it sees the transaction's uncommitted changes.
+ *
+ * @param executor - Connected executor
+ * @param excludeSchemas - Schemas to leave out in addition to the system schemas (such as the history schema)
+ * @returns Every table, column, index, constraint, function, view, policy, trigger and grant outside those schemas
+ */
+export async function takeCatalogSnapshot(
+  executor: SqlExecutor,
+  excludeSchemas: string[] = []
+): Promise<CatalogSnapshot> {
+  const sql = CATALOG_OBJECT_KINDS.map((kind) => `(${SNAPSHOT_QUERIES[kind]})`).join(
+    '\nUNION ALL\n'
+  );
+  const result = await executor.query<CatalogRow>(sql, [[...SYSTEM_SCHEMAS, ...excludeSchemas]]);
+
+  return result.rows.map((row) => ({
+    kind: row.kind,
+    name: row.name,
+    ...(row.parent ? { parent: row.parent } : {}),
+    definition: row.definition ?? '',
+  }));
+}
+
+/**
+ * Compares two snapshots
+ *
+ * Objects that belong to an added or dropped table or view (its columns,
+ * indexes, constraints, policies, triggers and grants) are left out, so a new
+ * table shows up as one change.
+ *
+ * @param before - Snapshot taken before the run
+ * @param after - Snapshot taken after the run
+ * @returns Added, dropped and altered objects, ordered by kind and name
+ */
+export function diffCatalogSnapshots(before: CatalogSnapshot, after: CatalogSnapshot): SchemaDiff {
+  const key = (object: CatalogObject) => `${object.kind}:${object.name}`;
+  const beforeByKey = new Map(before.map((object) => [key(object), object]));
+  const afterByKey = new Map(after.map((object) => [key(object), object]));
+
+  const change = (type: SchemaChange['type'], object: CatalogObject): SchemaChange => ({
+    type,
+    kind: object.kind,
+    name: object.name,
+    ...(object.parent ? { parent: object.parent } : {}),
+  });
+
+  const changes: SchemaChange[] = [];
+  for (const [objectKey, object] of afterByKey) {
+    const previous = beforeByKey.get(objectKey);
+    if (!previous) {
+      changes.push(change('added', object));
+    } else if (previous.definition !== object.definition) {
+      changes.push(change('altered', object));
+    }
+  }
+  for (const [objectKey, object] of beforeByKey) {
+    if (!afterByKey.has(objectKey)) {
+      changes.push(change('dropped', object));
+    }
+  }
+
+  // Children of an added or dropped relation are implied by it
+  const addedOrDropped = new Set(
+    changes
+      .filter((c) => c.type !== 'altered' && (c.kind === 'table' || c.kind === 'view'))
+      .map((c) => c.name)
+  );
+  const concise = changes.filter((c) => c.parent === undefined || !addedOrDropped.has(c.parent));
+
+  concise.sort(
+    (a, b) =>
+      CATALOG_OBJECT_KINDS.indexOf(a.kind) - CATALOG_OBJECT_KINDS.indexOf(b.kind) ||
+      a.name.localeCompare(b.name)
+  );
+
+  return {
+    changes: concise,
+    added: concise.filter((c) => c.type === 'added').length,
+    dropped: concise.filter((c) => c.type === 'dropped').length,
+    altered: concise.filter((c) => c.type === 'altered').length,
+  };
+}
@@ -0,0 +1,111 @@
+import { getConnectionErrorHelp } from './errors/index.js';
+import { sleep } from './sleep.js';
+
+/**
+ * Retries after a transient connection failure, unless configured otherwise
+ */
+export const DEFAULT_CONNECT_RETRIES = 3;
+
+/**
+ * Wait before the first retry, doubled for every retry after it
+ */
+export const DEFAULT_CONNECT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Longest wait between two attempts, whatever the backoff reached
+ */
+export const MAX_CONNECT_RETRY_DELAY_MS = 30_000;
+
+/**
+ * A failed attempt that is about to be retried
+ */
+export interface ConnectRetryAttempt {
+  /** The attempt that failed (1 for the first) */
+  attempt: number;
+  /** Attempts allowed in total (retries + 1) */
+  maxAttempts: number;
+  /** How long the runner waits before the next attempt */
+  delayMs: number;
+  /** The error the attempt failed with */
+  error: unknown;
+  /** What went wrong, from the error detector ("Connection Refused") */
+  reason: string;
+}
+
+/**
+ * Options for retrying a connection
+ */
+export interface ConnectRetryOptions {
+  /** Retries after the first attempt (0 = fail on the first error) */
+  retries: number;
+  /** Wait before the first retry, in milliseconds */
+  initialDelayMs: number;
+  /** Database URL, so the detectors can tell a direct connection from a pooler */
+  databaseUrl?: string;
+  /** Called before waiting for each retry */
+  onRetry?: (retry: ConnectRetryAttempt) => void;
+  /** Stops waiting between attempts when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Computes the wait before a retry: exponential backoff with jitter
+ *
+ * The delay doubles with every retry up to MAX_CONNECT_RETRY_DELAY_MS, and the
+ * second half of it is random, so runners that failed together don't all
+ * come back at the same moment.
+ *
+ * @param retry - Retry number (1 for the first)
+ * @param initialDelayMs - Wait before the first retry
+ * @param random - Random source in [0, 1)
+ */
+export function connectRetryDelay(
+  retry: number,
+  initialDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(initialDelayMs * 2 ** (retry - 1), MAX_CONNECT_RETRY_DELAY_MS);
+  return Math.round(backoff / 2 + (random() * backoff) / 2);
+}
+
+/**
+ * Runs a connection attempt, retrying errors the detectors mark as transient
+ *
+ * Refused connections, exhausted connection slots and DNS failures are
+ * retried; authentication failures, invalid URLs and unrecognized errors
+ * fail at once.
+ *
+ * @param connect - Makes one connection attempt
+ * @param options - Retry count, delay and progress callback
+ * @throws The last attempt's error, or the signal's reason when it aborts a wait
+ */
+export async function connectWithRetry(
+  connect: () => Promise<void>,
+  options: ConnectRetryOptions
+): Promise<void> {
+  const maxAttempts = options.retries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await connect();
+      return;
+    } catch (error) {
+      const help = getConnectionErrorHelp(error, options.databaseUrl);
+      if (attempt >= maxAttempts || !help.transient) {
+        throw error;
+      }
+      options.signal?.throwIfAborted();
+
+      const delayMs = connectRetryDelay(attempt, options.initialDelayMs);
+      options.onRetry?.({
+        attempt,
+        maxAttempts,
+        delayMs,
+        error,
+        reason: help.title,
+      });
+      await sleep(delayMs, options.signal);
+      options.signal?.throwIfAborted();
+    }
+  }
+}
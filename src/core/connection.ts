@@ -5,7 +5,7 @@
  * database connection strings and errors.
  */
 
-import type { ConnectionConfig } from '../types.js';
+import type { ConnectionConfig, SqlRunnerError } from '../types.js';
 
 // Re-export from the new error handling system for backwards compatibility
 export {
@@ -39,6 +39,25 @@ export function getErrorMessage(error: unknown): string {
   return String(error);
 }
 
+/**
+ * Converts a thrown error, with PostgreSQL details if available, to a runner error
+ */
+export function toRunnerError(error: unknown): SqlRunnerError {
+  const pgError = error as Error & {
+    code?: string;
+    detail?: string;
+    hint?: string;
+  };
+
+  return {
+    message: getErrorMessage(error),
+    code: pgError.code,
+    detail: pgError.detail,
+    hint: pgError.hint,
+    stack: error instanceof Error ? error.stack : undefined,
+  };
+}
+
 /**
  * Parses a PostgreSQL/Supabase database URL into connection config
  *
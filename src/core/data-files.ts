@@ -0,0 +1,535 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { Client } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import type { DataFileMetadata } from '../types.js';
+import { quoteSqlIdentifier } from './executor.js';
+
+/**
+ * Data files loaded with COPY instead of executed as SQL
+ */
+export const DATA_FILE_PATTERN = /\.(csv|tsv|json|ndjson)$/;
+
+/**
+ * Suffix of a data file's sidecar metadata (`03_users.csv.meta.json`)
+ */
+export const DATA_FILE_METADATA_SUFFIX = '.meta.json';
+
+/**
+ * Ordering prefix left out of default table names (`03_`, `010-`)
+ */
+const ORDER_PREFIX = /^\d+[_-]?/;
+
+/**
+ * Checks whether a file is loaded as data (`.csv`, `.tsv`, `.json`, `.ndjson`)
+ * Sidecar metadata files are not data files
+ */
+export function isDataFile(fileName: string): boolean {
+  return DATA_FILE_PATTERN.test(fileName) && !isDataFileMetadata(fileName);
+}
+
+/**
+ * Checks whether a file is a data file's sidecar metadata (`03_users.csv.meta.json`)
+ */
+export function isDataFileMetadata(fileName: string): boolean {
+  return fileName.endsWith(DATA_FILE_METADATA_SUFFIX);
+}
+
+/**
+ * A row ready to be copied, with where it came from
+ */
+export interface DataRow {
+  /** Values in target column order (null for NULL) */
+  values: Array<string | null>;
+  /** 1-based line where the row starts in the data file */
+  line: number;
+  /** Row as written in the file, for error messages */
+  text: string;
+}
+
+/**
+ * Rows parsed from a data file, mapped to the target table's columns
+ */
+export interface ParsedDataFile {
+  /** Target columns, in the order of each row's values */
+  columns: string[];
+  rows: DataRow[];
+}
+
+/**
+ * Location of the row a load failed on
+ */
+export interface DataRowLocation {
+  /** 1-based row number (not counting a header) */
+  row: number;
+  /** 1-based line where the row starts */
+  line: number;
+  text: string;
+}
+
+/**
+ * Error raised while loading a data file, pointing at the failing row when known
+ */
+export type DataFileError = Error & {
+  code?: string;
+  detail?: string;
+  hint?: string;
+  where?: string;
+  row?: DataRowLocation;
+};
+
+/**
+ * Reads a data file's sidecar metadata (`<file>.meta.json`), if it has one
+ *
+ * @param filePath - Full path to the data file
+ * @returns The metadata, or an empty object without a sidecar
+ * @throws Error if the sidecar is not valid JSON or has invalid options
+ */
+export function readDataFileMetadata(filePath: string): DataFileMetadata {
+  const metadataPath = `${filePath}${DATA_FILE_METADATA_SUFFIX}`;
+  if (!fs.existsSync(metadataPath)) {
+    return {};
+  }
+
+  const name = path.basename(metadataPath);
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`${name}: Invalid JSON: ${message}`);
+  }
+
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    throw new Error(`${name}: Expected an object`);
+  }
+
+  const {
+    table,
+    columns,
+    header,
+    null: nullText,
+    delimiter,
+    transaction,
+  } = metadata as DataFileMetadata;
+  if (table !== undefined && (typeof table !== 'string' || table.trim() === '')) {
+    throw new Error(`${name}: "table" must be a table name`);
+  }
+  if (
+    columns !== undefined &&
+    !(Array.isArray(columns) && columns.every((c) => typeof c === 'string')) &&
+    !(
+      typeof columns === 'object' &&
+      columns !== null &&
+      !Array.isArray(columns) &&
+      Object.values(columns).every((c) => c === null || typeof c === 'string')
+    )
+  ) {
+    throw new Error(
+      `${name}: "columns" must be a list of column names or a map from source to target columns`
+    );
+  }
+  if (header !== undefined && typeof header !== 'boolean' && header !== 'auto') {
+    throw new Error(`${name}: "header" must be true, false or "auto"`);
+  }
+  if (nullText !== undefined && typeof nullText !== 'string') {
+    throw new Error(`${name}: "null" must be a string`);
+  }
+  if (delimiter !== undefined && (typeof delimiter !== 'string' || delimiter.length !== 1)) {
+    throw new Error(`${name}: "delimiter" must be a single character`);
+  }
+  if (transaction !== undefined && typeof transaction !== 'boolean') {
+    throw new Error(`${name}: "transaction" must be true or false`);
+  }
+
+  return metadata as DataFileMetadata;
+}
+
+/**
+ * Resolves the quoted table a data file loads into
+ * Without a `table` in the metadata, the file name minus its ordering prefix
+ * and extension is used: `03_users.csv` loads `users`, `03_auth.users.csv` loads `auth.users`.
+ *
+ * @param fileName - Data file name
+ * @param metadata - Sidecar metadata
+ * @returns Quoted, optionally schema-qualified table name
+ */
+export function resolveDataFileTable(fileName: string, metadata: DataFileMetadata = {}): string {
+  const base = path.basename(fileName).replace(DATA_FILE_PATTERN, '');
+  const table = metadata.table ?? base.replace(ORDER_PREFIX, '');
+  return table
+    .split('.')
+    .map((part) => quoteSqlIdentifier(part.trim()))
+    .join('.');
+}
+
+/**
+ * A field parsed from a delimited file
+ */
+interface DelimitedField {
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * A record parsed from a delimited file
+ */
+interface DelimitedRecord {
+  fields: DelimitedField[];
+  line: number;
+  text: string;
+}
+
+/**
+ * Splits CSV/TSV text into records
+ * Quoted fields may contain delimiters, doubled quotes and line breaks; blank lines are skipped.
+ *
+ * @param text - File content
+ * @param delimiter - Field delimiter
+ * @returns Records with the line each starts on
+ * @throws Error on an unterminated quoted field
+ */
+export function parseDelimited(text: string, delimiter: string): DelimitedRecord[] {
+  const records: DelimitedRecord[] = [];
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  let fields: DelimitedField[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let recordStart = 0;
+
+  const endField = () => {
+    fields.push({ value: field, quoted });
+    field = '';
+    quoted = false;
+  };
+  const endRecord = (end: number) => {
+    endField();
+    const blank = fields.length === 1 && fields[0].value === '' && !fields[0].quoted;
+    if (!blank) {
+      records.push({ fields, line: recordLine, text: content.slice(recordStart, end) });
+    }
+    fields = [];
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+
+    if (inQuotes) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+      quoted = true;
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === '\n' || ch === '\r') {
+      endRecord(i);
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      line++;
+      recordLine = line;
+      recordStart = i + 1;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (recordStart < content.length) {
+    endRecord(content.length);
+  }
+
+  return records;
+}
+
+/**
+ * A JSON object parsed from a data file
+ */
+interface JsonRecord {
+  object: Record<string, unknown>;
+  line: number;
+}
+
+/**
+ * Reads the objects of a `.json` array or an `.ndjson` file (one object per line)
+ *
+ * @param text - File content
+ * @param ndjson - One object per line instead of an array
+ * @returns Objects with the line each starts on
+ * @throws Error if the JSON is invalid or an entry is not an object
+ */
+export function parseJsonRecords(text: string, ndjson: boolean): JsonRecord[] {
+  const toRecord = (value: unknown, line: number): JsonRecord => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Expected an object on line ${line}`);
+    }
+    return { object: value as Record<string, unknown>, line };
+  };
+
+  if (ndjson) {
+    return text.split(/\r?\n/).flatMap((content, i) => {
+      if (content.trim() === '') return [];
+      try {
+        return [toRecord(JSON.parse(content), i + 1)];
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(
+          message.includes(' on line ') ? message : `Invalid JSON on line ${i + 1}: ${message}`
+        );
+      }
+    });
+  }
+
+  let values: unknown;
+  try {
+    values = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid JSON: ${message}`);
+  }
+  if (!Array.isArray(values)) {
+    throw new Error('Expected an array of objects');
+  }
+
+  const lines = arrayElementLines(text);
+  return values.map((value, i) => toRecord(value, lines[i] ?? 1));
+}
+
+/**
+ * Finds the line each element of a top-level JSON array starts on
+ */
+function arrayElementLines(text: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let expectingElement = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') line++;
+
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (/\s/.test(ch)) continue;
+
+    if (depth === 1 && expectingElement && ch !== ']') {
+      lines.push(line);
+      expectingElement = false;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '[' || ch === '{') {
+      depth++;
+      if (depth === 1) expectingElement = true;
+    } else if (ch === ']' || ch === '}') depth--;
+    else if (ch === ',' && depth === 1) expectingElement = true;
+  }
+
+  return lines;
+}
+
+/**
+ * Turns a JSON value into COPY text
+ * Objects and arrays are kept as JSON, for json/jsonb and array columns
+ */
+function jsonValueToText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Maps source column names to target columns
+ *
+ * @returns Target column for each source column, null to skip it
+ */
+function mapColumns(source: string[], metadata: DataFileMetadata): Array<string | null> {
+  const { columns } = metadata;
+  if (Array.isArray(columns)) {
+    return columns;
+  }
+  return source.map((name) =>
+    columns && Object.prototype.hasOwnProperty.call(columns, name) ? columns[name] : name
+  );
+}
+
+/**
+ * Parses a data file and maps its rows to the target table's columns
+ *
+ * CSV/TSV files have a header row when `header` is true; with `"auto"` (the
+ * default) the first row is a header if every value in it names a table column
+ * or a mapped source column. Without a header, values are taken in the order of
+ * `columns`, or of the table's columns. Unquoted fields equal to `null` (empty
+ * by default) are loaded as NULL; a quoted empty field is an empty string.
+ *
+ * JSON objects are matched to columns by key: the keys of `columns` (or its
+ * entries when it's a list), or every key found in the file. Missing keys and
+ * JSON null load as NULL.
+ *
+ * @param fileName - Data file name, used for the format
+ * @param content - File content
+ * @param tableColumns - Columns of the target table, in order
+ * @param metadata - Sidecar metadata
+ * @throws Error naming the row for rows with the wrong number of values
+ */
+export function parseDataFile(
+  fileName: string,
+  content: string,
+  tableColumns: string[],
+  metadata: DataFileMetadata = {}
+): ParsedDataFile {
+  const extension = path.extname(fileName);
+
+  if (extension === '.json' || extension === '.ndjson') {
+    const records = parseJsonRecords(content, extension === '.ndjson');
+    const keys = Array.isArray(metadata.columns)
+      ? metadata.columns
+      : metadata.columns
+        ? Object.keys(metadata.columns)
+        : [...new Set(records.flatMap((record) => Object.keys(record.object)))];
+    const targets = Array.isArray(metadata.columns) ? keys : mapColumns(keys, metadata);
+    const kept = targets.flatMap((target, i) => (target === null ? [] : [i]));
+
+    return {
+      columns: kept.map((i) => targets[i]!),
+      rows: records.map((record) => ({
+        values: kept.map((i) => jsonValueToText(record.object[keys[i]])),
+        line: record.line,
+        text: JSON.stringify(record.object),
+      })),
+    };
+  }
+
+  const delimiter = metadata.delimiter ?? (extension === '.tsv' ? '\t' : ',');
+  const nullText = metadata.null ?? '';
+  const records = parseDelimited(content, delimiter);
+
+  const first = records[0]?.fields.map((field) => field.value.trim()) ?? [];
+  const knownNames = new Set([
+    ...tableColumns,
+    ...(metadata.columns && !Array.isArray(metadata.columns) ? Object.keys(metadata.columns) : []),
+  ]);
+  const hasHeader =
+    metadata.header === undefined || metadata.header === 'auto'
+      ? first.length > 0 && first.every((name) => knownNames.has(name))
+      : metadata.header;
+
+  const dataRecords = hasHeader ? records.slice(1) : records;
+  const source = hasHeader
+    ? first
+    : Array.isArray(metadata.columns)
+      ? metadata.columns
+      : tableColumns.slice(0, first.length);
+  const targets = mapColumns(source, metadata);
+  const kept = targets.flatMap((target, i) => (target === null ? [] : [i]));
+
+  const rows = dataRecords.map((record, i) => {
+    if (record.fields.length !== targets.length) {
+      throw Object.assign(
+        new Error(`Row ${i + 1} has ${record.fields.length} values, expected ${targets.length}`),
+        { row: { row: i + 1, line: record.line, text: record.text } }
+      );
+    }
+    return {
+      values: kept.map((index) => {
+        const field = record.fields[index];
+        return !field.quoted && field.value === nullText ? null : field.value;
+      }),
+      line: record.line,
+      text: record.text,
+    };
+  });
+
+  return { columns: kept.map((i) => targets[i]!), rows };
+}
+
+/**
+ * Formats rows as COPY CSV input: NULL is an empty unquoted field, every value is quoted
+ */
+function* toCopyCsv(rows: DataRow[]): Generator<string> {
+  for (const row of rows) {
+    yield `${row.values
+      .map((value) => (value === null ? '' : `"${value.replace(/"/g, '""')}"`))
+      .join(',')}\n`;
+  }
+}
+
+/**
+ * Reads the row number from a COPY error context ("COPY users, line 3, column email: ...")
+ */
+function copyErrorLine(where: string | undefined): number | undefined {
+  const match = where?.match(/^COPY [^,]+, line (\d+)/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Loads a data file into its table with `COPY ... FROM STDIN`
+ *
+ * Runs on the given client, so inside an open transaction the rows roll back
+ * with it. Errors PostgreSQL reports for a row are traced back to the row
+ * and line in the file.
+ *
+ * @param client - Connected client
+ * @param filePath - Full path to the data file
+ * @returns The quoted table name, the number of rows copied and the line of the last row
+ * @throws DataFileError with `row` set when the failing row is known
+ */
+export async function loadDataFile(
+  client: Client,
+  filePath: string
+): Promise<{ table: string; rowCount: number; lastLine: number }> {
+  const fileName = path.basename(filePath);
+  const metadata = readDataFileMetadata(filePath);
+  const table = resolveDataFileTable(fileName, metadata);
+
+  const columnsResult = await client.query<{ name: string }>(
+    `SELECT attname AS name FROM pg_attribute
+     WHERE attrelid = $1::regclass AND attnum > 0 AND NOT attisdropped
+     ORDER BY attnum`,
+    [table]
+  );
+  const parsed = parseDataFile(
+    fileName,
+    fs.readFileSync(filePath, 'utf8'),
+    columnsResult.rows.map((row) => row.name),
+    metadata
+  );
+
+  if (parsed.rows.length === 0) {
+    return { table, rowCount: 0, lastLine: 1 };
+  }
+
+  const columns = parsed.columns.map(quoteSqlIdentifier).join(', ');
+  const stream = client.query(copyFrom(`COPY ${table} (${columns}) FROM STDIN WITH (FORMAT csv)`));
+
+  try {
+    await pipeline(Readable.from(toCopyCsv(parsed.rows)), stream);
+  } catch (error) {
+    const copyError = error as DataFileError;
+    const line = copyErrorLine(copyError.where);
+    const row = line !== undefined ? parsed.rows[line - 1] : undefined;
+    if (row) {
+      copyError.row = { row: line!, line: row.line, text: row.text };
+      copyError.message = `Row ${line}: ${copyError.message}`;
+    }
+    throw copyError;
+  }
+
+  return { table, rowCount: stream.rowCount, lastLine: parsed.rows[parsed.rows.length - 1].line };
+}
@@ -0,0 +1,150 @@
+/**
+ * Marker for a dependency declaration in a file header
+ *
+ * @example
+ * ```sql
+ * -- @depends: 03_functions.sql, 01_schema/01_tables.sql
+ * CREATE VIEW active_users AS SELECT * FROM users WHERE is_active(users);
+ * ```
+ */
+export const DEPENDS_MARKER = '@depends:';
+
+/**
+ * A dependency declared in a file header
+ */
+export interface DeclaredDependency {
+  /** Name of the required file, as scanned (relative to the SQL directory) */
+  file: string;
+  /** 1-based line number of the declaration */
+  line: number;
+}
+
+/**
+ * Parses `-- @depends:` declarations from the header of a SQL file
+ *
+ * Like runner directives, only the leading block of comments and blank
+ * lines is inspected. A declaration lists one or more files separated by
+ * commas or spaces, and may be repeated.
+ *
+ * @param sql - SQL file content
+ * @returns Declared dependencies in the order they appear
+ */
+export function parseDependencies(sql: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  const lines = sql.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+
+    if (trimmed === '') continue;
+    if (!trimmed.startsWith('--')) break;
+
+    const comment = trimmed.slice(2).trim();
+    if (!comment.toLowerCase().startsWith(DEPENDS_MARKER)) continue;
+
+    for (const name of comment.slice(DEPENDS_MARKER.length).split(/[\s,]+/)) {
+      if (name !== '') {
+        dependencies.push({ file: normalizeFileName(name), line: i + 1 });
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Orders files so each one runs after the files it depends on
+ *
+ * Files keep their scan order unless a dependency forces otherwise: a file's
+ * dependencies are moved up to run just before it.
+ *
+ * @param files - File names in scan order
+ * @param declared - Declared dependencies per file name
+ * @param ignoredFiles - Files excluded by the ignore pattern, for clearer errors
+ * @returns File names in execution order
+ * @throws Error for a dependency on an unknown or ignored file, or a dependency cycle
+ */
+export function orderByDependencies(
+  files: string[],
+  declared: ReadonlyMap<string, DeclaredDependency[]>,
+  ignoredFiles: string[] = []
+): string[] {
+  const position = new Map(files.map((file, i) => [file, i]));
+  const ignored = new Set(ignoredFiles);
+
+  for (const file of files) {
+    for (const dependency of declared.get(file) ?? []) {
+      if (!position.has(dependency.file)) {
+        const reason = ignored.has(dependency.file) ? 'is ignored' : 'does not match any SQL file';
+        throw new Error(
+          `${file}: Dependency "${dependency.file}" on line ${dependency.line} ${reason}`
+        );
+      }
+    }
+  }
+
+  const ordered: string[] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (file: string): void => {
+    if (done.has(file)) return;
+
+    const cycleStart = path.indexOf(file);
+    if (cycleStart !== -1) {
+      throw new Error(`Dependency cycle: ${[...path.slice(cycleStart), file].join(' -> ')}`);
+    }
+
+    path.push(file);
+    const dependencies = [...new Set((declared.get(file) ?? []).map((d) => d.file))].sort(
+      (a, b) => position.get(a)! - position.get(b)!
+    );
+    for (const dependency of dependencies) {
+      visit(dependency);
+    }
+    path.pop();
+
+    done.add(file);
+    ordered.push(file);
+  };
+
+  for (const file of files) {
+    visit(file);
+  }
+
+  return ordered;
+}
+
+/**
+ * Collects the files that the given files depend on, directly or indirectly
+ *
+ * @param files - Selected file names
+ * @param dependencies - Direct dependencies per file name
+ * @returns Dependencies that are not already among the selected files
+ */
+export function collectDependencies(
+  files: string[],
+  dependencies: Readonly<Record<string, string[]>>
+): string[] {
+  const selected = new Set(files);
+  const found = new Set<string>();
+  const pending = [...files];
+
+  for (let file = pending.pop(); file !== undefined; file = pending.pop()) {
+    for (const dependency of dependencies[file] ?? []) {
+      if (!selected.has(dependency) && !found.has(dependency)) {
+        found.add(dependency);
+        pending.push(dependency);
+      }
+    }
+  }
+
+  return [...found];
+}
+
+/**
+ * Normalizes a declared file name to the scanner's `/`-separated relative form
+ */
+function normalizeFileName(name: string): string {
+  return name.replace(/\\/g, '/').replace(/^\.\//, '');
+}
@@ -0,0 +1,178 @@
+import * as path from 'node:path';
+import type { SessionTimeouts } from '../types.js';
+import { getErrorMessage } from './connection.js';
+import { isDataFile, readDataFileMetadata } from './data-files.js';
+import { readSqlFile } from './file-scanner.js';
+import { isValidTimeout } from './timeouts.js';
+
+/**
+ * Prefix that marks a runner directive inside a SQL comment
+ *
+ * @example
+ * ```sql
+ * -- sql-runner: no-transaction
+ * CREATE INDEX CONCURRENTLY idx_users_email ON users (email);
+ * ```
+ */
+export const DIRECTIVE_PREFIX = 'sql-runner:';
+
+/**
+ * Statement directive that marks the next statement's rows for display
+ *
+ * @example
+ * ```sql
+ * -- sql-runner: show
+ * SELECT count(*) FROM profiles;
+ * ```
+ */
+export const SHOW_RESULT_DIRECTIVE = 'show';
+
+/**
+ * A single directive found in a file header
+ */
+export interface HeaderDirective {
+  /** Directive name, lower-cased (e.g. "no-transaction") */
+  name: string;
+  /** Text after the name, trimmed (empty if none) */
+  value: string;
+  /** 1-based line number in the file */
+  line: number;
+}
+
+/**
+ * Per-file options resolved from header directives
+ */
+export interface FileDirectives {
+  /** Run the file in autocommit mode, outside any transaction */
+  noTransaction: boolean;
+  /** Render `{{ ... }}` placeholders in this file (`-- sql-runner: template`) */
+  template: boolean;
+  /** Timeouts for this file only (`statement-timeout`, `lock-timeout`, `idle-in-transaction-timeout`) */
+  timeouts: SessionTimeouts;
+}
+
+/**
+ * Directive names that override a session timeout
+ */
+const TIMEOUT_DIRECTIVES: Readonly<Record<string, keyof SessionTimeouts>> = {
+  'statement-timeout': 'statementTimeout',
+  'lock-timeout': 'lockTimeout',
+  'idle-in-transaction-timeout': 'idleInTransactionTimeout',
+};
+
+/**
+ * Parses runner directives from the header of a SQL file
+ *
+ * Only the leading block of comments and blank lines is inspected,
+ * so directives can't be hidden in the middle of a script.
+ *
+ * @param sql - SQL file content
+ * @returns Directives in the order they appear
+ */
+export function parseHeaderDirectives(sql: string): HeaderDirective[] {
+  const directives: HeaderDirective[] = [];
+  const lines = sql.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+
+    if (trimmed === '') continue;
+    if (!trimmed.startsWith('--')) break;
+
+    const comment = trimmed.slice(2).trim();
+    if (!comment.toLowerCase().startsWith(DIRECTIVE_PREFIX)) continue;
+
+    const body = comment.slice(DIRECTIVE_PREFIX.length).trim();
+    const match = body.match(/^([a-zA-Z][\w-]*)\s*(.*)$/);
+    if (match) {
+      directives.push({
+        name: match[1].toLowerCase(),
+        value: match[2].trim(),
+        line: i + 1,
+      });
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Checks whether the comments before a statement include `-- sql-runner: show`
+ *
+ * @param leadingText - Text between the previous statement (or the start of the file) and the statement
+ */
+export function marksResultSet(leadingText: string): boolean {
+  return leadingText.split(/\r?\n/).some((line) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('--')) return false;
+
+    const comment = trimmed.slice(2).trim().toLowerCase();
+    return (
+      comment.startsWith(DIRECTIVE_PREFIX) &&
+      comment.slice(DIRECTIVE_PREFIX.length).trim() === SHOW_RESULT_DIRECTIVE
+    );
+  });
+}
+
+/**
+ * Resolves header directives into per-file options
+ *
+ * @param sql - SQL file content
+ * @returns Resolved file directives
+ * @throws Error if a directive has an invalid value
+ */
+export function resolveFileDirectives(sql: string): FileDirectives {
+  const directives: FileDirectives = {
+    noTransaction: false,
+    template: false,
+    timeouts: {},
+  };
+
+  for (const directive of parseHeaderDirectives(sql)) {
+    const timeoutKey = TIMEOUT_DIRECTIVES[directive.name];
+
+    if (timeoutKey) {
+      if (!isValidTimeout(directive.value)) {
+        throw new Error(
+          `Invalid ${directive.name} "${directive.value}" on line ${directive.line}. Use milliseconds or a duration such as "30s" or "5min"`
+        );
+      }
+      directives.timeouts[timeoutKey] = directive.value;
+      continue;
+    }
+
+    switch (directive.name) {
+      case 'no-transaction':
+        directives.noTransaction = true;
+        break;
+      case 'template':
+        directives.template = true;
+        break;
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Reads a SQL file and resolves its header directives
+ * Data files have no header, so their `transaction` sidecar option stands in for `no-transaction`.
+ *
+ * @param filePath - Full path to the SQL or data file
+ * @returns Resolved file directives
+ * @throws Error naming the file if a directive has an invalid value
+ */
+export function readFileDirectives(filePath: string): FileDirectives {
+  if (isDataFile(filePath)) {
+    const { transaction } = readDataFileMetadata(filePath);
+    return { noTransaction: transaction === false, template: false, timeouts: {} };
+  }
+
+  const sql = readSqlFile(filePath);
+
+  try {
+    return resolveFileDirectives(sql);
+  } catch (error) {
+    throw new Error(`${path.basename(filePath)}: ${getErrorMessage(error)}`);
+  }
+}
@@ -4,6 +4,13 @@
  */
 
 import type { ErrorDetector, ErrorHelp, ConnectionContext } from '../types.js';
+import {
+  isDirectConnection,
+  isPoolerConnection,
+  isTransactionPooler,
+  isSessionPooler,
+  extractProjectRef,
+} from '../supabase-url.js';
 
 /**
  * Abstract base class for error detectors
@@ -11,6 +18,7 @@ import type { ErrorDetector, ErrorHelp, ConnectionContext } from '../types.js';
  */
 export abstract class BaseErrorDetector implements ErrorDetector {
   abstract readonly name: string;
+  readonly transient: boolean = false;
   abstract canHandle(error: unknown, context: ConnectionContext): boolean;
   abstract getHelp(error: unknown, context: ConnectionContext): ErrorHelp;
 
@@ -38,32 +46,28 @@ export abstract class BaseErrorDetector implements ErrorDetector {
    * Check if URL is a Supabase Direct Connection
    */
   protected isDirectConnection(databaseUrl?: string): boolean {
-    if (!databaseUrl) return false;
-    return databaseUrl.includes('db.') && databaseUrl.includes('.supabase.co');
+    return isDirectConnection(databaseUrl);
   }
 
   /**
    * Check if URL is using Supabase Pooler
    */
   protected isPoolerConnection(databaseUrl?: string): boolean {
-    if (!databaseUrl) return false;
-    return databaseUrl.includes('pooler.supabase.com');
+    return isPoolerConnection(databaseUrl);
   }
 
   /**
    * Check if URL is using Transaction Pooler (port 6543)
    */
   protected isTransactionPooler(databaseUrl?: string): boolean {
-    if (!databaseUrl) return false;
-    return this.isPoolerConnection(databaseUrl) && databaseUrl.includes(':6543');
+    return isTransactionPooler(databaseUrl);
   }
 
   /**
    * Check if URL is using Session Pooler (port 5432 on pooler)
    */
   protected isSessionPooler(databaseUrl?: string): boolean {
-    if (!databaseUrl) return false;
-    return this.isPoolerConnection(databaseUrl) && databaseUrl.includes(':5432');
+    return isSessionPooler(databaseUrl);
   }
 
   /**
@@ -78,17 +82,7 @@ export abstract class BaseErrorDetector implements ErrorDetector {
    * Extract project reference from Supabase URL
    */
   protected extractProjectRef(databaseUrl?: string): string | undefined {
-    if (!databaseUrl) return undefined;
-
-    // Direct connection: db.PROJECT_REF.supabase.co
-    const directMatch = databaseUrl.match(/db\.([^.]+)\.supabase\.co/);
-    if (directMatch) return directMatch[1];
-
-    // Pooler connection: postgres.PROJECT_REF:password@
-    const poolerMatch = databaseUrl.match(/postgres\.([^:@]+)[:|@]/);
-    if (poolerMatch) return poolerMatch[1];
-
-    return undefined;
+    return extractProjectRef(databaseUrl);
   }
 
   /**
@@ -99,6 +93,7 @@ export abstract class BaseErrorDetector implements ErrorDetector {
   ): ErrorHelp {
     return {
       isKnownError: true,
+      transient: this.transient,
       ...partial,
     };
   }
@@ -10,6 +10,7 @@ import { BaseErrorDetector } from './base-detector.js';
 
 export class ConnectionRefusedDetector extends BaseErrorDetector {
   readonly name = 'connection-refused';
+  readonly transient = true;
 
   canHandle(error: unknown, _context: ConnectionContext): boolean {
     const errorMessage = this.getErrorMessage(error);
@@ -9,6 +9,7 @@ import { BaseErrorDetector } from './base-detector.js';
 
 export class DnsGenericDetector extends BaseErrorDetector {
   readonly name = 'dns-generic';
+  readonly transient = true;
 
   canHandle(error: unknown, _context: ConnectionContext): boolean {
     const errorMessage = this.getErrorMessage(error);
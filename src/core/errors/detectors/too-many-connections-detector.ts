@@ -9,6 +9,7 @@ import { BaseErrorDetector } from './base-detector.js';
 
 export class TooManyConnectionsDetector extends BaseErrorDetector {
   readonly name = 'too-many-connections';
+  readonly transient = true;
 
   canHandle(error: unknown, _context: ConnectionContext): boolean {
     const errorMessage = this.getErrorMessage(error).toLowerCase();
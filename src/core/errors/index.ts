@@ -49,6 +49,15 @@ export type { ErrorHandlerOptions } from './error-handler.js';
 // Registry
 export { DefaultErrorDetectorRegistry, createDefaultRegistry } from './registry.js';
 
+// Supabase connection string helpers
+export {
+  isDirectConnection,
+  isPoolerConnection,
+  isTransactionPooler,
+  isSessionPooler,
+  extractProjectRef,
+} from './supabase-url.js';
+
 // Formatters
 export {
   ConsoleErrorFormatter,
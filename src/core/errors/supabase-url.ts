@@ -0,0 +1,56 @@
+/**
+ * Supabase connection string helpers
+ *
+ * Tell the connection types apart (direct, session pooler, transaction pooler)
+ * and extract the project reference. Used by the error detectors and the
+ * doctor command.
+ */
+
+/**
+ * Check if URL is a Supabase Direct Connection
+ */
+export function isDirectConnection(databaseUrl?: string): boolean {
+  if (!databaseUrl) return false;
+  return databaseUrl.includes('db.') && databaseUrl.includes('.supabase.co');
+}
+
+/**
+ * Check if URL is using Supabase Pooler
+ */
+export function isPoolerConnection(databaseUrl?: string): boolean {
+  if (!databaseUrl) return false;
+  return databaseUrl.includes('pooler.supabase.com');
+}
+
+/**
+ * Check if URL is using Transaction Pooler (port 6543)
+ */
+export function isTransactionPooler(databaseUrl?: string): boolean {
+  if (!databaseUrl) return false;
+  return isPoolerConnection(databaseUrl) && databaseUrl.includes(':6543');
+}
+
+/**
+ * Check if URL is using Session Pooler (port 5432 on pooler)
+ */
+export function isSessionPooler(databaseUrl?: string): boolean {
+  if (!databaseUrl) return false;
+  return isPoolerConnection(databaseUrl) && databaseUrl.includes(':5432');
+}
+
+/**
+ * Extract project reference from Supabase URL
+ */
+export function extractProjectRef(databaseUrl?: string): string | undefined {
+  if (!databaseUrl) return undefined;
+
+  // Direct connection: db.PROJECT_REF.supabase.co
+  const directMatch = databaseUrl.match(/db\.([^.]+)\.supabase\.co/);
+  if (directMatch) return directMatch[1];
+
+  // Pooler connection: postgres.PROJECT_REF:password@
+  const poolerMatch = databaseUrl.match(/postgres\.([^:@]+)[:|@]/);
+  if (poolerMatch) return poolerMatch[1];
+
+  return undefined;
+}
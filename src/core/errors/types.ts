@@ -31,6 +31,8 @@ export interface ErrorHelp {
   docsUrl?: string;
   /** Original error message for reference */
   originalMessage?: string;
+  /** The error can clear up on its own, so the connection is worth retrying */
+  transient?: boolean;
 }
 
 /**
@@ -41,6 +43,9 @@ export interface ErrorDetector {
   /** Unique identifier for this detector */
   readonly name: string;
 
+  /** Whether the errors this detector handles are transient (retried on connect) */
+  readonly transient?: boolean;
+
   /**
    * Check if this detector can handle the given error
    * @param error - The error to check
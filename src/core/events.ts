@@ -0,0 +1,99 @@
+import type {
+  SqlRunnerEvent,
+  SqlRunnerEventPayload,
+  SqlRunnerEventType,
+  SqlRunnerEventHandler,
+} from '../types.js';
+
+/**
+ * Delivers runner events to handlers and async iterators
+ *
+ * Handlers run synchronously, in the order they subscribed, before the runner
+ * moves on. Iterators buffer events, so a slow consumer never holds up a run.
+ */
+export class RunnerEventEmitter {
+  private listeners = new Set<(event: SqlRunnerEvent) => void>();
+
+  /**
+   * Subscribes to one type of event
+   *
+   * @returns Unsubscribes the handler
+   */
+  on<T extends SqlRunnerEventType>(type: T, handler: SqlRunnerEventHandler<T>): () => void {
+    return this.subscribe((event) => {
+      if (event.type === type) {
+        handler(event as Extract<SqlRunnerEvent, { type: T }>);
+      }
+    });
+  }
+
+  /**
+   * Stamps an event with the current time and delivers it
+   */
+  emit(payload: SqlRunnerEventPayload): void {
+    const event = { ...payload, timestamp: new Date() } as SqlRunnerEvent;
+    for (const listener of [...this.listeners]) {
+      listener(event);
+    }
+  }
+
+  /**
+   * Iterates over the events from now until the next `complete` or `error`
+   *
+   * Breaking out of the loop unsubscribes the iterator.
+   */
+  events(): AsyncIterableIterator<SqlRunnerEvent> {
+    const queue: SqlRunnerEvent[] = [];
+    let waiting: ((result: IteratorResult<SqlRunnerEvent>) => void) | null = null;
+    let finished = false;
+
+    const finish = () => {
+      finished = true;
+      unsubscribe();
+      waiting?.({ value: undefined, done: true });
+      waiting = null;
+    };
+
+    const unsubscribe = this.subscribe((event) => {
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: event, done: false });
+      } else {
+        queue.push(event);
+      }
+      if (event.type === 'complete' || event.type === 'error') {
+        finish();
+      }
+    });
+
+    return {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift()!, done: false });
+        }
+        if (finished) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: () => {
+        queue.length = 0;
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  private subscribe(listener: (event: SqlRunnerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
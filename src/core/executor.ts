@@ -1,11 +1,23 @@
-import { Client } from 'pg';
+import { Client, type QueryResult, type QueryResultRow } from 'pg';
 import type {
+  CapturedResultSet,
   ConnectionConfig,
   FileExecutionResult,
   Logger,
+  ResultCaptureMode,
+  RowCounts,
+  SessionTimeouts,
   SqlRunnerError,
+  StatementExecutionResult,
+  StatementLocation,
 } from '../types.js';
-import { readSqlFile, createSavepointName } from './file-scanner.js';
+import { createSavepointName } from './file-scanner.js';
+import { isDataFile, loadDataFile, type DataFileError } from './data-files.js';
+import { marksResultSet } from './directives.js';
+import { readPsqlFile, resolveSourceLine, type PreprocessedSql } from './psql.js';
+import { splitSqlStatements, type SqlStatement } from './sql-splitter.js';
+import { TIMEOUT_SETTINGS, describeTimeout, detectTimeout, formatTimeout } from './timeouts.js';
+import { connectWithRetry, type ConnectRetryOptions } from './connect-retry.js';
 import * as path from 'node:path';
 
 /**
@@ -15,41 +27,256 @@ import * as path from 'node:path';
  * @param identifier - The identifier to quote
  * @returns Safely quoted identifier
  */
-function quoteSqlIdentifier(identifier: string): string {
+export function quoteSqlIdentifier(identifier: string): string {
   // Escape any double quotes by doubling them, then wrap in double quotes
   return `"${identifier.replace(/"/g, '""')}"`;
 }
 
+/**
+ * Where a statement came from in the original files
+ */
+type SourceRange = Pick<StatementLocation, 'startLine' | 'endLine' | 'sourceFile'>;
+
+/**
+ * Formats a statement's line range for messages ("line 3", "lines 3-7" or "lines 3-7 in common/grants.sql")
+ */
+function formatLineRange(range: SourceRange): string {
+  const lines =
+    range.startLine === range.endLine ? `line ${range.startLine}` : `lines ${range.startLine}-${range.endLine}`;
+  return range.sourceFile ? `${lines} in ${range.sourceFile}` : lines;
+}
+
+/**
+ * Maps a preprocessed statement back to the file and lines it came from
+ * Statements from `\i`/`\ir` includes name the included file
+ */
+function locateStatement(
+  statement: SqlStatement,
+  source: PreprocessedSql,
+  filePath: string
+): SourceRange {
+  const start = resolveSourceLine(source, statement.startLine);
+  const end = resolveSourceLine(source, statement.endLine);
+
+  return {
+    startLine: start.line,
+    endLine: end.file === start.file ? end.line : start.line,
+    ...(start.file !== filePath
+      ? { sourceFile: path.relative(path.dirname(filePath), start.file).split(path.sep).join('/') }
+      : {}),
+  };
+}
+
+/**
+ * Builds the command tag PostgreSQL sent for a statement ("INSERT 0 1200", "UPDATE 3", "CREATE")
+ * node-postgres splits the tag into command, oid and row count, so it is put back together here
+ */
+function formatCommandTag(result: QueryResult): string {
+  if (result.rowCount === null || result.rowCount === undefined) {
+    return result.command;
+  }
+  return result.command === 'INSERT'
+    ? `INSERT ${result.oid ?? 0} ${result.rowCount}`
+    : `${result.command} ${result.rowCount}`;
+}
+
+/**
+ * Creates the result entry for an executed statement
+ */
+function createStatementResult(
+  range: SourceRange,
+  index: number,
+  success: boolean,
+  durationMs: number,
+  result?: QueryResult
+): StatementExecutionResult {
+  return {
+    index,
+    ...range,
+    success,
+    durationMs,
+    ...(result?.command ? { commandTag: formatCommandTag(result) } : {}),
+    ...(typeof result?.rowCount === 'number' ? { rowCount: result.rowCount } : {}),
+  };
+}
+
+/**
+ * Row count keys for the commands that change rows
+ */
+const ROW_COUNT_COMMANDS: Record<string, keyof RowCounts> = {
+  INSERT: 'inserted',
+  UPDATE: 'updated',
+  DELETE: 'deleted',
+  MERGE: 'merged',
+  COPY: 'copied',
+};
+
+/**
+ * Adds up the rows changed by a file's statements, per kind of command
+ *
+ * @param statements - Statement results with their command tags
+ * @returns Totals for the commands that ran (zero when a command changed nothing)
+ */
+export function summarizeRowCounts(statements: StatementExecutionResult[]): RowCounts {
+  const counts: RowCounts = {};
+  for (const statement of statements) {
+    const key = statement.commandTag
+      ? ROW_COUNT_COMMANDS[statement.commandTag.split(' ')[0]]
+      : undefined;
+    if (key && statement.rowCount !== undefined) {
+      counts[key] = (counts[key] ?? 0) + statement.rowCount;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Rows kept per result set unless configured otherwise
+ */
+export const DEFAULT_MAX_RESULT_ROWS = 20;
+
+/**
+ * Valid values for `captureResults`
+ */
+export const RESULT_CAPTURE_MODES: readonly ResultCaptureMode[] = ['none', 'marked', 'all'];
+
+/**
+ * Keeps the rows of a statement that returned a row description (SELECT, RETURNING, SHOW...)
+ * Returns null for statements without one, such as a plain INSERT
+ */
+function captureResultSet(
+  result: QueryResult | undefined,
+  range: SourceRange,
+  index: number,
+  maxRows: number
+): CapturedResultSet | null {
+  if (!result?.fields?.length) {
+    return null;
+  }
+
+  const rows = result.rows ?? [];
+  return {
+    statementIndex: index,
+    startLine: range.startLine,
+    ...(range.sourceFile ? { sourceFile: range.sourceFile } : {}),
+    columns: result.fields.map((field) => field.name),
+    rows: rows.slice(0, maxRows),
+    rowCount: rows.length,
+    truncated: rows.length > maxRows,
+  };
+}
+
+/**
+ * Drops unset entries so only configured timeouts are applied
+ */
+function definedTimeouts(timeouts: SessionTimeouts = {}): SessionTimeouts {
+  return Object.fromEntries(
+    Object.entries(timeouts).filter(([, value]) => value !== undefined && value !== null)
+  ) as SessionTimeouts;
+}
+
+/**
+ * Options for executing a single file
+ */
+export interface ExecuteFileOptions {
+  /**
+   * Protect the file with a savepoint inside the open transaction
+   * Set to false to run the file in autocommit mode (no savepoint, no rollback)
+   * @default true
+   */
+  transaction?: boolean;
+
+  /**
+   * Timeouts for this file only, restored to the session values afterwards
+   */
+  timeouts?: SessionTimeouts;
+
+  /**
+   * Variables for `{{ name }}` placeholders, also defined as psql variables (`:name`)
+   */
+  variables?: Record<string, string>;
+
+  /**
+   * Render `{{ ... }}` placeholders with `variables` before running the file
+   * @default false
+   */
+  template?: boolean;
+
+  /**
+   * Name used in results and logs, such as the relative path from a recursive scan
+   * @default the file's base name
+   */
+  fileName?: string;
+
+  /**
+   * Which statements' rows to keep in `resultSets`
+   * @default "marked" (statements preceded by `-- sql-runner: show`)
+   */
+  captureResults?: ResultCaptureMode;
+
+  /**
+   * Maximum rows kept per result set
+   * @default 20
+   */
+  maxResultRows?: number;
+
+  /**
+   * Stops the file before its next statement once aborted, failing it with
+   * a `57014` (query_canceled) error
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Send consecutive statements as one multi-statement query, instead of one
+   * round-trip per statement. Only transactional files are batched. A failed
+   * batch is rolled back and run again statement by statement, so the error
+   * still names its statement; statements in a batch report the batch's duration.
+   * @default false
+   */
+  batchStatements?: boolean;
+}
+
+/**
+ * Transaction changes reported to the executor's owner
+ */
+export type TransactionChange = 'started' | 'committed' | 'rolled_back';
+
 /**
  * SQL Executor - handles database operations
  */
 export class SqlExecutor {
   private client: Client | null = null;
+  private transactionOpen = false;
+  private sessionTimeouts: SessionTimeouts = {};
   private logger: Logger;
   private onNotice?: (message: string) => void;
+  private onTransaction?: (change: TransactionChange) => void;
   private noticeHandler: ((msg: { message?: string }) => void) | null = null;
+  /** Server process of the connection, for cancelling its statement */
+  private backendPid: number | null = null;
 
   constructor(
     private config: ConnectionConfig,
     logger: Logger,
-    onNotice?: (message: string) => void
+    onNotice?: (message: string) => void,
+    onTransaction?: (change: TransactionChange) => void
   ) {
     this.logger = logger;
     this.onNotice = onNotice;
+    this.onTransaction = onTransaction;
   }
 
   /**
    * Connects to the database
+   * With retry options, transient failures are retried with backoff
    */
-  async connect(): Promise<void> {
-    this.client = new Client({
-      host: this.config.host,
-      port: this.config.port,
-      database: this.config.database,
-      user: this.config.user,
-      password: this.config.password,
-      ssl: this.config.ssl,
-    });
+  async connect(retry?: ConnectRetryOptions): Promise<void> {
+    if (retry) {
+      await connectWithRetry(() => this.connect(), retry);
+      return;
+    }
+
+    this.client = this.createClient();
 
     // Set up notice handler for RAISE NOTICE messages
     this.noticeHandler = (msg) => {
@@ -66,7 +293,19 @@ export class SqlExecutor {
       this.logger.debug(`Database connection error: ${err.message}`);
     });
 
-    await this.client.connect();
+    try {
+      await this.client.connect();
+      const backend = await this.client.query<{ pid: number }>('SELECT pg_backend_pid() AS pid');
+      this.backendPid = backend.rows[0]?.pid ?? null;
+    } catch (error) {
+      // A pg client can't be reused after a failed connect, and one that did
+      // connect is closed here, or the next attempt would leak it
+      await this.client.end().catch(() => undefined);
+      this.client = null;
+      this.noticeHandler = null;
+      this.backendPid = null;
+      throw error;
+    }
     this.logger.success(`Connected to database at ${this.config.host}:${this.config.port}`);
   }
 
@@ -82,17 +321,55 @@ export class SqlExecutor {
       }
       await this.client.end();
       this.client = null;
+      this.backendPid = null;
       this.logger.info('Database connection closed');
     }
   }
 
+  /**
+   * Cancels the statement running on this connection, through a second connection
+   *
+   * The server stops the statement with "canceling statement due to user request"
+   * (SQLSTATE 57014); the transaction stays open until it is rolled back.
+   *
+   * @returns Whether the server accepted the cancel request
+   */
+  async cancelRunningQuery(): Promise<boolean> {
+    const processId = this.client ? this.backendPid : null;
+    if (!processId) {
+      return false;
+    }
+
+    const side = this.createClient();
+    side.on('error', (err) => this.logger.debug(`Cancel connection error: ${err.message}`));
+    try {
+      await side.connect();
+      const result = await side.query<{ cancelled: boolean }>(
+        'SELECT pg_cancel_backend($1) AS cancelled',
+        [processId]
+      );
+      return result.rows[0]?.cancelled === true;
+    } finally {
+      await side.end().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Whether a transaction started by this executor is open
+   */
+  get inTransaction(): boolean {
+    return this.transactionOpen;
+  }
+
   /**
    * Starts a transaction
    */
   async beginTransaction(): Promise<void> {
     this.ensureConnected();
     await this.client!.query('BEGIN');
+    this.transactionOpen = true;
     this.logger.info('Transaction started');
+    this.onTransaction?.('started');
   }
 
   /**
@@ -100,8 +377,13 @@ export class SqlExecutor {
    */
   async commit(): Promise<void> {
     this.ensureConnected();
-    await this.client!.query('COMMIT');
+    try {
+      await this.client!.query('COMMIT');
+    } finally {
+      this.transactionOpen = false;
+    }
     this.logger.success('Transaction committed - all changes saved');
+    this.onTransaction?.('committed');
   }
 
   /**
@@ -115,7 +397,10 @@ export class SqlExecutor {
     } catch (error) {
       this.logger.error('Failed to rollback transaction');
       throw error;
+    } finally {
+      this.transactionOpen = false;
     }
+    this.onTransaction?.('rolled_back');
   }
 
   /**
@@ -154,35 +439,179 @@ export class SqlExecutor {
     this.logger.debug(`Savepoint released: ${name}`);
   }
 
+  /**
+   * Sets the session timeouts used for every file
+   * Unset values keep the server default
+   */
+  async setSessionTimeouts(timeouts: SessionTimeouts): Promise<void> {
+    this.ensureConnected();
+    this.sessionTimeouts = definedTimeouts(timeouts);
+    await this.applyTimeouts(timeouts);
+  }
+
+  /**
+   * Runs a query on the current connection
+   * Used by runner features that need to read or write bookkeeping tables
+   */
+  async query<R extends QueryResultRow = QueryResultRow>(
+    sql: string,
+    params?: unknown[]
+  ): Promise<QueryResult<R>> {
+    this.ensureConnected();
+    return this.client!.query<R>(sql, params);
+  }
+
   /**
    * Executes a single SQL file with savepoint protection
+   * The file is split into statements and run one at a time, so failures point at the exact statement.
+   * With `transaction: false` the file runs in autocommit mode and cannot be rolled back
    */
   async executeFile(
     filePath: string,
-    index: number
+    index: number,
+    options: ExecuteFileOptions = {}
   ): Promise<FileExecutionResult> {
     this.ensureConnected();
 
-    const fileName = path.basename(filePath);
-    const savepointName = createSavepointName(fileName, index);
+    const fileName = options.fileName ?? path.basename(filePath);
+    if (isDataFile(fileName)) {
+      return this.executeDataFile(filePath, index, fileName, options);
+    }
+
+    const transactional = options.transaction ?? true;
+    const savepointName = transactional ? createSavepointName(fileName, index) : '';
     const startTime = Date.now();
 
-    this.logger.info(`Executing: ${fileName}`);
+    this.logger.info(`Executing: ${fileName}${transactional ? '' : ' (outside transaction)'}`);
 
     // Read SQL content first so we can use it for error reporting
-    const sql = readSqlFile(filePath);
+    // Templates and psql meta-commands (\i, \set, \if, ...) are resolved before splitting
+    const variables = options.variables ?? {};
+    const source = readPsqlFile(filePath, {
+      variables,
+      template: options.template ? { variables } : undefined,
+    });
+    const sql = source.sql;
+    const statements = splitSqlStatements(sql);
+    const ranges = statements.map((statement) => locateStatement(statement, source, filePath));
+    let echoIndex = 0;
+    const flushEchoes = (beforeLine: number) => {
+      while (echoIndex < source.echoes.length && source.echoes[echoIndex].afterLine < beforeLine) {
+        this.echo(source.echoes[echoIndex++].message);
+      }
+    };
+    const statementResults: StatementExecutionResult[] = [];
+    const resultSets: CapturedResultSet[] = [];
+    const captureMode = options.captureResults ?? 'marked';
+    const maxResultRows = options.maxResultRows ?? DEFAULT_MAX_RESULT_ROWS;
+    const isCaptured = (i: number) => {
+      if (captureMode !== 'marked') return captureMode === 'all';
+      const previous = statements[i - 1];
+      const leadingStart = previous ? previous.startOffset + previous.text.length : 0;
+      return marksResultSet(sql.slice(leadingStart, statements[i].startOffset));
+    };
+    let failedIndex = -1;
+    const timeoutOverrides = definedTimeouts(options.timeouts);
 
     try {
+      // Per-file timeouts are set outside the savepoint so they survive a rollback to it
+      await this.applyTimeouts(timeoutOverrides);
+
       // Create savepoint before execution
-      await this.createSavepoint(savepointName);
+      if (transactional) {
+        await this.createSavepoint(savepointName);
+      }
 
-      // Execute SQL
-      await this.client!.query(sql);
+      // Execute statements one by one, or in batches up to the next \echo
+      const batching = transactional && (options.batchStatements ?? false);
+      let unbatchedUntil = -1;
+      for (let i = 0; i < statements.length; i++) {
+        const statement = statements[i];
+        const statementStart = Date.now();
+        if (options.signal?.aborted) {
+          throw Object.assign(new Error('canceling statement due to user request'), {
+            code: '57014',
+          });
+        }
+        flushEchoes(statement.startLine);
+
+        if (batching && i >= unbatchedUntil) {
+          let end = i + 1;
+          while (
+            end < statements.length &&
+            !(
+              echoIndex < source.echoes.length &&
+              source.echoes[echoIndex].afterLine < statements[end].startLine
+            )
+          ) {
+            end++;
+          }
+
+          if (end - i > 1) {
+            this.logger.debug(
+              `Statements ${i + 1}-${end}/${statements.length} (batch of ${end - i})`
+            );
+            const batchResults = await this.executeBatch(
+              statements.slice(i, end).map((s) => s.text),
+              `${savepointName}_batch`
+            );
+            if (batchResults) {
+              const durationMs = Date.now() - statementStart;
+              batchResults.forEach((result, k) => {
+                const resultSet = isCaptured(i + k)
+                  ? captureResultSet(result, ranges[i + k], i + k, maxResultRows)
+                  : null;
+                if (resultSet) {
+                  resultSets.push(resultSet);
+                }
+                statementResults.push(
+                  createStatementResult(ranges[i + k], i + k, true, durationMs, result)
+                );
+              });
+              i = end - 1;
+              continue;
+            }
+            // The batch was rolled back: run it again one statement at a time to find the failure
+            unbatchedUntil = end;
+          }
+        }
+
+        this.logger.debug(
+          `Statement ${i + 1}/${statements.length} (${formatLineRange(ranges[i])})`
+        );
+
+        let result: QueryResult;
+        try {
+          result = await this.client!.query(statement.text);
+          const resultSet = isCaptured(i)
+            ? captureResultSet(result, ranges[i], i, maxResultRows)
+            : null;
+          if (resultSet) {
+            resultSets.push(resultSet);
+          }
+        } catch (error) {
+          failedIndex = i;
+          statementResults.push(
+            createStatementResult(ranges[i], i, false, Date.now() - statementStart)
+          );
+          throw error;
+        }
+
+        statementResults.push(
+          createStatementResult(ranges[i], i, true, Date.now() - statementStart, result)
+        );
+      }
+      flushEchoes(Infinity);
 
       // Release savepoint on success
-      await this.releaseSavepoint(savepointName);
+      if (transactional) {
+        await this.releaseSavepoint(savepointName);
+      }
+
+      await this.restoreTimeouts(timeoutOverrides);
 
       const durationMs = Date.now() - startTime;
+      const rowCounts = summarizeRowCounts(statementResults);
       this.logger.success(`Completed: ${fileName} (${durationMs}ms)`);
 
       return {
@@ -191,21 +620,60 @@ export class SqlExecutor {
         success: true,
         durationMs,
         savepointName,
+        statements: statementResults,
+        ...(resultSets.length > 0 ? { resultSets } : {}),
+        ...(Object.keys(rowCounts).length > 0 ? { rowCounts } : {}),
+        ...(transactional ? {} : { nonTransactional: true }),
       };
     } catch (error) {
       const durationMs = Date.now() - startTime;
       const sqlError = this.formatError(error, fileName);
+      const failedStatement = failedIndex >= 0 ? statements[failedIndex] : undefined;
+      const timeoutKind = detectTimeout(sqlError);
+
+      if (timeoutKind) {
+        sqlError.timeout = describeTimeout(timeoutKind, {
+          ...this.sessionTimeouts,
+          ...timeoutOverrides,
+        });
+      }
+
+      if (failedStatement) {
+        sqlError.statement = {
+          index: failedIndex,
+          total: statements.length,
+          text: failedStatement.text,
+          ...ranges[failedIndex],
+        };
+        // PostgreSQL positions are relative to the statement - make them relative to the file
+        if (sqlError.position) {
+          sqlError.position = String(
+            failedStatement.startOffset + parseInt(sqlError.position, 10)
+          );
+        }
+      }
 
       this.logger.error(`Failed: ${fileName} (${durationMs}ms)`);
       this.logger.error(`Error: ${sqlError.message}`);
 
+      if (failedStatement) {
+        this.logger.error(
+          `Statement: ${failedIndex + 1} of ${statements.length} (${formatLineRange(ranges[failedIndex])})`
+        );
+      }
+
       if (sqlError.code) {
         this.logger.error(`PostgreSQL Error Code: ${sqlError.code}`);
       }
       if (sqlError.position) {
         // Convert character position to line number for better debugging
         const lineInfo = this.getLineFromPosition(sql, parseInt(sqlError.position, 10));
-        this.logger.error(`Location: line ${lineInfo.line}, column ${lineInfo.column}`);
+        const location = resolveSourceLine(source, lineInfo.line);
+        const locationFile =
+          location.file === filePath ? '' : `${path.relative(path.dirname(filePath), location.file)}, `;
+        this.logger.error(
+          `Location: ${locationFile}line ${location.line}, column ${lineInfo.column}`
+        );
         if (lineInfo.lineContent) {
           this.logger.error(`Line content: ${lineInfo.lineContent}`);
           // Show pointer to the error position
@@ -223,12 +691,210 @@ export class SqlExecutor {
         this.logger.info(`Hint: ${sqlError.hint}`);
       }
 
+      if (sqlError.timeout) {
+        const { setting, value } = sqlError.timeout;
+        this.logger.error(`Timeout: ${setting}${value ? ` (${value})` : ''} exceeded`);
+      }
+
+      if (!transactional) {
+        this.logger.error(
+          `Cannot rollback: ${fileName} ran outside a transaction - statements before the error were kept`
+        );
+        await this.restoreTimeoutsAfterFailure(timeoutOverrides);
+
+        return {
+          fileName,
+          filePath,
+          success: false,
+          durationMs,
+          savepointName,
+          error: sqlError,
+          rollbackSuccess: false,
+          statements: statementResults,
+          ...(resultSets.length > 0 ? { resultSets } : {}),
+          nonTransactional: true,
+        };
+      }
+
       // Attempt rollback to savepoint
       this.logger.warning(`Attempting rollback for: ${fileName}`);
       const rollbackSuccess = await this.rollbackToSavepoint(savepointName);
 
       if (rollbackSuccess) {
         this.logger.success(`Successfully rolled back: ${fileName}`);
+        await this.restoreTimeoutsAfterFailure(timeoutOverrides);
+      } else {
+        this.logger.error(
+          `Failed to rollback: ${fileName} - database may be in inconsistent state`
+        );
+      }
+
+      return {
+        fileName,
+        filePath,
+        success: false,
+        durationMs,
+        savepointName,
+        error: sqlError,
+        rollbackSuccess,
+        statements: statementResults,
+        ...(resultSets.length > 0 ? { resultSets } : {}),
+      };
+    }
+  }
+
+  /**
+   * Runs statements as one multi-statement query, inside a savepoint of their own
+   *
+   * @returns One result per statement, or null if a statement failed and the
+   *   batch was rolled back
+   * @throws The error itself if it cancelled the batch (user request or
+   *   statement timeout), or if the rollback failed
+   */
+  private async executeBatch(
+    texts: string[],
+    savepointName: string
+  ): Promise<Array<QueryResult | undefined> | null> {
+    const quotedName = quoteSqlIdentifier(savepointName);
+    // A statement without a semicolon can end in a line comment, so its terminator goes on a new line
+    const body = texts.map((text) => (text.endsWith(';') ? text : `${text}\n;`)).join('\n');
+
+    try {
+      const result: QueryResult | QueryResult[] = await this.client!.query(
+        `SAVEPOINT ${quotedName};\n${body}\nRELEASE SAVEPOINT ${quotedName};`
+      );
+      // One result per statement, between the SAVEPOINT and RELEASE results
+      const results = Array.isArray(result) ? result.slice(1, -1) : [];
+      return texts.map((_, i) => results[i]);
+    } catch (error) {
+      // Running a cancelled batch again would only wait for the same cancel
+      if ((error as { code?: string }).code === '57014') {
+        throw error;
+      }
+      if (!(await this.rollbackToSavepoint(savepointName))) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Loads a data file (`.csv`, `.tsv`, `.json`, `.ndjson`) with COPY, protected by a savepoint
+   * unless `transaction` is false, as for SQL files
+   * The load is reported as a single statement; a failing row is reported with its line
+   */
+  private async executeDataFile(
+    filePath: string,
+    index: number,
+    fileName: string,
+    options: ExecuteFileOptions
+  ): Promise<FileExecutionResult> {
+    const transactional = options.transaction ?? true;
+    const savepointName = transactional ? createSavepointName(fileName, index) : '';
+    const startTime = Date.now();
+    const timeoutOverrides = definedTimeouts(options.timeouts);
+
+    this.logger.info(`Loading: ${fileName}${transactional ? '' : ' (outside transaction)'}`);
+
+    try {
+      await this.applyTimeouts(timeoutOverrides);
+      if (transactional) {
+        await this.createSavepoint(savepointName);
+      }
+
+      const { table, rowCount, lastLine } = await loadDataFile(this.client!, filePath);
+
+      if (transactional) {
+        await this.releaseSavepoint(savepointName);
+      }
+      await this.restoreTimeouts(timeoutOverrides);
+
+      const durationMs = Date.now() - startTime;
+      this.logger.success(`Completed: ${fileName} (${rowCount} rows into ${table}, ${durationMs}ms)`);
+
+      const statements: StatementExecutionResult[] = [
+        {
+          index: 0,
+          startLine: 1,
+          endLine: lastLine,
+          success: true,
+          durationMs,
+          commandTag: `COPY ${rowCount}`,
+          rowCount,
+        },
+      ];
+      return {
+        fileName,
+        filePath,
+        success: true,
+        durationMs,
+        savepointName,
+        statements,
+        rowCounts: summarizeRowCounts(statements),
+        ...(transactional ? {} : { nonTransactional: true }),
+      };
+    } catch (error) {
+      const durationMs = Date.now() - startTime;
+      const sqlError = this.formatError(error, fileName);
+      const row = (error as DataFileError).row;
+      const timeoutKind = detectTimeout(sqlError);
+
+      if (timeoutKind) {
+        sqlError.timeout = describeTimeout(timeoutKind, {
+          ...this.sessionTimeouts,
+          ...timeoutOverrides,
+        });
+      }
+      if (row) {
+        sqlError.statement = {
+          index: 0,
+          total: 1,
+          text: row.text,
+          startLine: row.line,
+          endLine: row.line,
+        };
+      }
+
+      this.logger.error(`Failed: ${fileName} (${durationMs}ms)`);
+      this.logger.error(`Error: ${sqlError.message}`);
+      if (row) {
+        this.logger.error(`Row: ${row.row} (line ${row.line}): ${row.text}`);
+      }
+      if (sqlError.code) {
+        this.logger.error(`PostgreSQL Error Code: ${sqlError.code}`);
+      }
+      if (sqlError.detail) {
+        this.logger.error(`Detail: ${sqlError.detail}`);
+      }
+
+      const failedStatements: StatementExecutionResult[] = [
+        { index: 0, startLine: row?.line ?? 1, endLine: row?.line ?? 1, success: false, durationMs },
+      ];
+
+      if (!transactional) {
+        // COPY is a single statement, so in autocommit mode the failed load left no rows behind
+        this.logger.error(`Cannot rollback: ${fileName} ran outside a transaction`);
+        await this.restoreTimeoutsAfterFailure(timeoutOverrides);
+
+        return {
+          fileName,
+          filePath,
+          success: false,
+          durationMs,
+          savepointName,
+          error: sqlError,
+          rollbackSuccess: false,
+          statements: failedStatements,
+          nonTransactional: true,
+        };
+      }
+
+      this.logger.warning(`Attempting rollback for: ${fileName}`);
+      const rollbackSuccess = await this.rollbackToSavepoint(savepointName);
+
+      if (rollbackSuccess) {
+        this.logger.success(`Successfully rolled back: ${fileName}`);
+        await this.restoreTimeoutsAfterFailure(timeoutOverrides);
       } else {
         this.logger.error(
           `Failed to rollback: ${fileName} - database may be in inconsistent state`
@@ -243,10 +909,48 @@ export class SqlExecutor {
         savepointName,
         error: sqlError,
         rollbackSuccess,
+        statements: failedStatements,
       };
     }
   }
 
+  /**
+   * Sets the given timeouts on the session
+   */
+  private async applyTimeouts(timeouts: SessionTimeouts): Promise<void> {
+    for (const [key, value] of Object.entries(definedTimeouts(timeouts))) {
+      const setting = TIMEOUT_SETTINGS[key as keyof SessionTimeouts];
+      await this.client!.query(`SET ${setting} = '${formatTimeout(value)}'`);
+      this.logger.debug(`${setting} set to ${formatTimeout(value)}`);
+    }
+  }
+
+  /**
+   * Restores overridden timeouts to the session values (or the server default)
+   */
+  private async restoreTimeouts(overrides: SessionTimeouts): Promise<void> {
+    for (const key of Object.keys(overrides) as Array<keyof SessionTimeouts>) {
+      const sessionValue = this.sessionTimeouts[key];
+      const setting = TIMEOUT_SETTINGS[key];
+      await this.client!.query(
+        sessionValue === undefined
+          ? `RESET ${setting}`
+          : `SET ${setting} = '${formatTimeout(sessionValue)}'`
+      );
+    }
+  }
+
+  /**
+   * Restores timeouts after a failed file, without masking the original error
+   */
+  private async restoreTimeoutsAfterFailure(overrides: SessionTimeouts): Promise<void> {
+    try {
+      await this.restoreTimeouts(overrides);
+    } catch (error) {
+      this.logger.debug(`Failed to restore timeouts: ${this.formatError(error).message}`);
+    }
+  }
+
   /**
    * Formats an error into SqlRunnerError
    */
@@ -309,6 +1013,28 @@ export class SqlExecutor {
     };
   }
 
+  /**
+   * Prints `\echo` output the same way as server notices
+   */
+  private echo(message: string): void {
+    this.logger.info(message);
+    this.onNotice?.(message);
+  }
+
+  /**
+   * Creates an unconnected client for the configured database
+   */
+  private createClient(): Client {
+    return new Client({
+      host: this.config.host,
+      port: this.config.port,
+      database: this.config.database,
+      user: this.config.user,
+      password: this.config.password,
+      ssl: this.config.ssl,
+    });
+  }
+
   /**
    * Ensures database is connected
    */
@@ -1,5 +1,12 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { parseDependencies, orderByDependencies } from './dependencies.js';
+import {
+  isDataFile,
+  isDataFileMetadata,
+  DATA_FILE_PATTERN,
+  DATA_FILE_METADATA_SUFFIX,
+} from './data-files.js';
 
 /**
  * Options for scanning SQL files
@@ -9,18 +16,26 @@ export interface FileScannerOptions {
   filePattern: RegExp;
   /** Pattern for files to ignore */
   ignorePattern: RegExp;
+  /** Scan subdirectories too (default: false) */
+  recursive?: boolean;
+  /** Also include data files (`.csv`, `.tsv`, `.json`, `.ndjson`) to load with COPY (default: false) */
+  dataFiles?: boolean;
 }
 
 /**
  * Result of scanning a directory for SQL files
  */
 export interface FileScanResult {
-  /** Files to be executed (sorted) */
+  /** Files to be executed, in order, as paths relative to the directory with `/` separators */
   files: string[];
-  /** Files that were ignored */
+  /** Files that were ignored (relative paths) */
   ignoredFiles: string[];
   /** Full paths to files */
   filePaths: string[];
+  /** Files each file depends on (`-- @depends:`), by file name */
+  dependencies: Record<string, string[]>;
+  /** Full path of each file's down-script (`01_tables.down.sql`), for files that have one */
+  downScripts: Record<string, string>;
 }
 
 /**
@@ -29,13 +44,55 @@ export interface FileScanResult {
 export const DEFAULT_FILE_PATTERN = /\.sql$/;
 export const DEFAULT_IGNORE_PATTERN = /^_ignored|README/;
 
+/**
+ * Down-script naming: `.down` before the extension of the file it reverts
+ */
+const DOWN_SCRIPT_PATTERN = /^(.*)\.down(\.[^./]+)$/;
+
+/**
+ * Checks whether a file is a down-script (`01_tables.down.sql`)
+ */
+export function isDownScript(fileName: string): boolean {
+  return DOWN_SCRIPT_PATTERN.test(fileName);
+}
+
+/**
+ * Returns the name of the down-script that reverts a file
+ *
+ * @example downScriptName('01_tables.sql') // '01_tables.down.sql'
+ */
+export function downScriptName(fileName: string): string {
+  const extension = path.posix.extname(fileName);
+  return `${fileName.slice(0, fileName.length - extension.length)}.down${extension}`;
+}
+
 /**
  * Scans a directory for SQL files to execute
  *
+ * With `recursive`, subdirectories are scanned depth-first: the entries of
+ * each directory are sorted by name and a subdirectory's files run where the
+ * subdirectory sorts, so `01_schema/02_tables.sql` runs before `02_seed/01_users.sql`.
+ * File names are relative paths (`01_schema/02_tables.sql`). The file pattern
+ * matches the file's own name; the ignore pattern matches the relative path or
+ * any part of it, so `^_ignored` also skips `seed/_ignored_old.sql` and
+ * everything under `_ignored/`.
+ *
+ * Files can declare dependencies in their header (`-- @depends: 03_functions.sql`);
+ * a dependency that sorts later is moved up to run before the file that needs it.
+ *
+ * Down-scripts (`01_tables.down.sql`) never run forward: they are returned
+ * in `downScripts`, paired with the file they revert. A down-script without
+ * a matching file is ignored.
+ *
+ * With `dataFiles`, data files (`.csv`, `.tsv`, `.json`, `.ndjson`) run in the
+ * same sequence and are loaded with COPY. Their sidecar metadata (`03_users.csv.meta.json`) is
+ * not a file of its own; a sidecar without its data file is ignored.
+ *
  * @param directory - Directory path to scan
  * @param options - Scanning options
  * @returns Scan result with files to execute and ignored files
  * @throws Error if directory doesn't exist or is not readable
+ * @throws Error if a dependency is missing or ignored, or dependencies form a cycle
  *
  * @example
  * ```ts
@@ -63,38 +120,133 @@ export function scanSqlFiles(
     throw new Error(`Path is not a directory: ${resolvedDir}`);
   }
 
-  // Read all files
-  const allEntries = fs.readdirSync(resolvedDir);
-
-  // Filter for SQL files
-  const sqlFiles = allEntries.filter((file) => options.filePattern.test(file));
-
   // Separate executable and ignored files
   const executableFiles: string[] = [];
   const ignoredFiles: string[] = [];
+  const matches = (name: string) =>
+    options.filePattern.test(name) || (options.dataFiles === true && DATA_FILE_PATTERN.test(name));
+
+  if (options.recursive) {
+    for (const file of listFilesRecursive(resolvedDir, '', matches)) {
+      const parts = file.split('/');
+      if ([file, ...parts].some((part) => options.ignorePattern.test(part))) {
+        ignoredFiles.push(file);
+      } else {
+        executableFiles.push(file);
+      }
+    }
+  } else {
+    // Read all files
+    const allEntries = fs.readdirSync(resolvedDir);
+
+    // Filter for SQL files
+    const sqlFiles = allEntries.filter(matches);
+
+    for (const file of sqlFiles) {
+      if (options.ignorePattern.test(file)) {
+        ignoredFiles.push(file);
+      } else {
+        executableFiles.push(file);
+      }
+    }
+
+    // Sort alphabetically for predictable execution order
+    executableFiles.sort();
+    ignoredFiles.sort();
+  }
 
-  for (const file of sqlFiles) {
-    if (options.ignorePattern.test(file)) {
+  const toPath = (file: string) => path.join(resolvedDir, ...file.split('/'));
+
+  // Pair down-scripts with the files they revert
+  const forwardFiles = executableFiles.filter(
+    (file) => !isDownScript(file) && !isDataFileMetadata(file)
+  );
+  const forwardSet = new Set(forwardFiles);
+  for (const file of executableFiles) {
+    const dataFile = file.slice(0, -DATA_FILE_METADATA_SUFFIX.length);
+    if (isDataFileMetadata(file) && !forwardSet.has(dataFile)) {
       ignoredFiles.push(file);
+    }
+  }
+  const downScripts: Record<string, string> = {};
+  for (const file of executableFiles) {
+    const match = file.match(DOWN_SCRIPT_PATTERN);
+    if (!match || isDataFileMetadata(file)) continue;
+
+    const target = `${match[1]}${match[2]}`;
+    if (forwardSet.has(target)) {
+      downScripts[target] = toPath(file);
     } else {
-      executableFiles.push(file);
+      ignoredFiles.push(file);
     }
   }
 
-  // Sort alphabetically for predictable execution order
-  executableFiles.sort();
-  ignoredFiles.sort();
+  // Declared dependencies can move a file ahead of its sort position (data files declare none)
+  const declared = new Map(
+    forwardFiles.map((file) => [
+      file,
+      isDataFile(file) ? [] : parseDependencies(readSqlFile(toPath(file))),
+    ])
+  );
+  const orderedFiles = orderByDependencies(forwardFiles, declared, ignoredFiles);
 
-  // Create full paths
-  const filePaths = executableFiles.map((file) => path.join(resolvedDir, file));
+  const dependencies: Record<string, string[]> = {};
+  for (const file of orderedFiles) {
+    dependencies[file] = [...new Set(declared.get(file)!.map((d) => d.file))];
+  }
 
   return {
-    files: executableFiles,
+    files: orderedFiles,
     ignoredFiles,
-    filePaths,
+    filePaths: orderedFiles.map(toPath),
+    dependencies,
+    downScripts,
   };
 }
 
+/**
+ * Lists matching files below a directory, depth-first in sorted order
+ * Symlinked directories are not followed, so links can't create cycles
+ *
+ * @param root - Directory being scanned
+ * @param relativeDir - Current subdirectory, relative to root ('' for the root itself)
+ * @param matches - Whether a file name is included
+ * @returns Relative paths with `/` separators
+ */
+function listFilesRecursive(
+  root: string,
+  relativeDir: string,
+  matches: (name: string) => boolean
+): string[] {
+  const entries = fs
+    .readdirSync(path.join(root, relativeDir), { withFileTypes: true })
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFilesRecursive(root, relativePath, matches));
+    } else if (matches(entry.name)) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Checks whether a file matches an `--only` / `--skip` entry
+ * An entry matches the file's relative path, or a directory containing it
+ * (`02_seed` or `02_seed/` selects every file under `02_seed/`)
+ *
+ * @param fileName - Relative file path as returned by scanSqlFiles
+ * @param selector - Requested file or directory
+ */
+export function matchesFileSelector(fileName: string, selector: string): boolean {
+  const normalized = selector.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  return fileName === normalized || fileName.startsWith(`${normalized}/`);
+}
+
 /**
  * Reads a SQL file's content
  *
@@ -0,0 +1,181 @@
+import { createHash } from 'node:crypto';
+import type {
+  FileHistoryStatus,
+  FileStatusEntry,
+  HistoryRecord,
+  HistoryStatusReport,
+} from '../types.js';
+import { quoteSqlIdentifier, type SqlExecutor } from './executor.js';
+import { readSqlFile } from './file-scanner.js';
+
+/**
+ * Default location of the history table
+ */
+export const DEFAULT_HISTORY_SCHEMA = 'sql_runner';
+export const DEFAULT_HISTORY_TABLE = 'history';
+
+/**
+ * Options for the history store
+ */
+export interface HistoryStoreOptions {
+  /** Schema holding the history table */
+  schema: string;
+  /** Name of the history table */
+  table: string;
+}
+
+/**
+ * Raw history row as returned by node-postgres
+ */
+interface HistoryRow {
+  file_name: string;
+  checksum: string;
+  applied_at: Date;
+  duration_ms: number;
+  runner_version: string;
+}
+
+/**
+ * Computes the checksum used to detect changed files
+ * Line endings are normalized so a CRLF checkout doesn't look modified
+ *
+ * @param content - SQL file content
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function computeChecksum(content: string): string {
+  return createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Compares files against the applied history
+ *
+ * @param files - File names in execution order
+ * @param filePaths - Full paths matching `files`
+ * @param applied - Latest history record per file name
+ * @returns Status report for every file
+ */
+export function compareWithHistory(
+  files: string[],
+  filePaths: string[],
+  applied: Map<string, HistoryRecord>
+): HistoryStatusReport {
+  const entries: FileStatusEntry[] = files.map((fileName, i) => {
+    const checksum = computeChecksum(readSqlFile(filePaths[i]));
+    const lastApplied = applied.get(fileName);
+
+    let status: FileHistoryStatus = 'pending';
+    if (lastApplied) {
+      status = lastApplied.checksum === checksum ? 'applied' : 'modified';
+    }
+
+    return { fileName, filePath: filePaths[i], status, checksum, lastApplied };
+  });
+
+  return {
+    files: entries,
+    applied: entries.filter((e) => e.status === 'applied').length,
+    pending: entries.filter((e) => e.status === 'pending').length,
+    modified: entries.filter((e) => e.status === 'modified').length,
+  };
+}
+
+/**
+ * History store - reads and writes the applied files table
+ *
+ * The table is append-only: every successful execution adds a row,
+ * and the latest row per file determines its status.
+ */
+export class HistoryStore {
+  private qualifiedName: string;
+
+  constructor(
+    private executor: SqlExecutor,
+    private options: HistoryStoreOptions
+  ) {
+    this.qualifiedName = `${quoteSqlIdentifier(options.schema)}.${quoteSqlIdentifier(options.table)}`;
+  }
+
+  /**
+   * Creates the history schema and table if they don't exist
+   */
+  async ensureTable(): Promise<void> {
+    await this.executor.query(`CREATE SCHEMA IF NOT EXISTS ${quoteSqlIdentifier(this.options.schema)}`);
+    await this.executor.query(
+      `CREATE TABLE IF NOT EXISTS ${this.qualifiedName} (
+        id bigserial PRIMARY KEY,
+        file_name text NOT NULL,
+        checksum text NOT NULL,
+        applied_at timestamptz NOT NULL DEFAULT now(),
+        duration_ms integer NOT NULL,
+        runner_version text NOT NULL
+      )`
+    );
+  }
+
+  /**
+   * Checks whether the history table exists
+   * Used for read-only operations that must not create it
+   */
+  async exists(): Promise<boolean> {
+    const result = await this.executor.query<{ exists: boolean }>(
+      'SELECT to_regclass($1) IS NOT NULL AS exists',
+      [this.qualifiedName]
+    );
+    return result.rows[0]?.exists === true;
+  }
+
+  /**
+   * Loads the latest history record for each file
+   * Returns an empty map if the table doesn't exist yet
+   */
+  async getApplied(): Promise<Map<string, HistoryRecord>> {
+    const applied = new Map<string, HistoryRecord>();
+
+    if (!(await this.exists())) {
+      return applied;
+    }
+
+    const result = await this.executor.query<HistoryRow>(
+      `SELECT DISTINCT ON (file_name) file_name, checksum, applied_at, duration_ms, runner_version
+       FROM ${this.qualifiedName}
+       ORDER BY file_name, applied_at DESC, id DESC`
+    );
+
+    for (const row of result.rows) {
+      applied.set(row.file_name, {
+        fileName: row.file_name,
+        checksum: row.checksum,
+        appliedAt: row.applied_at,
+        durationMs: row.duration_ms,
+        runnerVersion: row.runner_version,
+      });
+    }
+
+    return applied;
+  }
+
+  /**
+   * Removes a file's records after it was reverted, so it is pending again
+   */
+  async remove(fileName: string): Promise<void> {
+    await this.executor.query(`DELETE FROM ${this.qualifiedName} WHERE file_name = $1`, [fileName]);
+  }
+
+  /**
+   * Removes every record, so every file is pending again (after a reset)
+   */
+  async clear(): Promise<void> {
+    await this.executor.query(`DELETE FROM ${this.qualifiedName}`);
+  }
+
+  /**
+   * Records a successfully applied file
+   */
+  async record(entry: Omit<HistoryRecord, 'appliedAt'>): Promise<void> {
+    await this.executor.query(
+      `INSERT INTO ${this.qualifiedName} (file_name, checksum, duration_ms, runner_version)
+       VALUES ($1, $2, $3, $4)`,
+      [entry.fileName, entry.checksum, entry.durationMs, entry.runnerVersion]
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { parseDatabaseUrl } from './connection.js';
+import { extractProjectRef } from './errors/supabase-url.js';
+import type { SqlExecutor } from './executor.js';
+
+/**
+ * Words that mark a host or database name as production when they appear as
+ * a whole part of it (split on dots, dashes and underscores)
+ */
+export const PRODUCTION_NAME_WORDS: readonly string[] = ['prod', 'production', 'prd', 'live'];
+
+/**
+ * Table whose existence marks a database as production
+ */
+export const PRODUCTION_MARKER_TABLE = 'sql_runner.production';
+
+/**
+ * Tag in `COMMENT ON DATABASE` that marks a database as production
+ */
+export const PRODUCTION_COMMENT_TAG = 'sql-runner: production';
+
+/**
+ * Allow-list and deny-list entries: host names, Supabase project refs or
+ * database names, matched case-insensitively, with `*` as a wildcard
+ */
+export interface ProductionGuardLists {
+  /** Never treated as production by name (markers in the database still count) */
+  allow?: string[];
+  /** Always treated as production */
+  deny?: string[];
+}
+
+/**
+ * What the guard found about a database URL
+ */
+export interface ProductionAssessment {
+  /** The database looks like production */
+  production: boolean;
+  /** Why, e.g. 'host "db.prod.example.com" contains "prod"' */
+  reasons: string[];
+  /** Text to type to run anyway: the Supabase project ref, or the database name */
+  confirmationText: string;
+}
+
+/**
+ * Checks an allow-list or deny-list entry against a host, ref or database name
+ */
+function matchesEntry(value: string, entry: string): boolean {
+  const pattern = entry
+    .toLowerCase()
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`).test(value.toLowerCase());
+}
+
+/**
+ * Finds the production word a name contains, if any
+ */
+function findProductionWord(name: string): string | undefined {
+  const parts = name.toLowerCase().split(/[^a-z0-9]+/);
+  return PRODUCTION_NAME_WORDS.find((word) => parts.includes(word));
+}
+
+/**
+ * Decides from the URL alone whether a database looks like production
+ *
+ * A deny-list match always counts. Otherwise the host and database name are
+ * checked for production words, unless the host, project ref or database name
+ * is on the allow-list.
+ *
+ * @param databaseUrl - PostgreSQL connection URL
+ * @param lists - Allow-list and deny-list entries
+ */
+export function assessProductionTarget(
+  databaseUrl: string,
+  lists: ProductionGuardLists = {}
+): ProductionAssessment {
+  const { host, database } = parseDatabaseUrl(databaseUrl, false);
+  const projectRef = extractProjectRef(databaseUrl);
+
+  const names = [
+    { label: 'host', value: host },
+    { label: 'project ref', value: projectRef },
+    { label: 'database', value: database },
+  ].filter((name): name is { label: string; value: string } => Boolean(name.value));
+
+  const reasons: string[] = [];
+  for (const { label, value } of names) {
+    if (lists.deny?.some((entry) => matchesEntry(value, entry))) {
+      reasons.push(`${label} "${value}" is on the deny list`);
+    }
+  }
+
+  const allowed = names.some(({ value }) =>
+    lists.allow?.some((entry) => matchesEntry(value, entry))
+  );
+  if (reasons.length === 0 && !allowed) {
+    for (const { label, value } of names.filter((name) => name.label !== 'project ref')) {
+      const word = findProductionWord(value);
+      if (word) {
+        reasons.push(`${label} "${value}" contains "${word}"`);
+      }
+    }
+  }
+
+  return { production: reasons.length > 0, reasons, confirmationText: projectRef ?? database };
+}
+
+/**
+ * Looks for the production markers in the connected database: the
+ * `sql_runner.production` table, or the `sql-runner: production` tag in the
+ * database comment
+ *
+ * @param executor - Connected executor
+ * @returns A reason for each marker found
+ */
+export async function findProductionMarkers(executor: SqlExecutor): Promise<string[]> {
+  const result = await executor.query<{ marker_table: boolean; comment: string | null }>(
+    `SELECT to_regclass($1) IS NOT NULL AS marker_table,
+            shobj_description(oid, 'pg_database') AS comment
+     FROM pg_database WHERE datname = current_database()`,
+    [PRODUCTION_MARKER_TABLE]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return [];
+  }
+
+  const reasons: string[] = [];
+  if (row.marker_table) {
+    reasons.push(`marker table ${PRODUCTION_MARKER_TABLE} exists`);
+  }
+  if (row.comment && /sql-runner:\s*production\b/i.test(row.comment)) {
+    reasons.push(`database comment is tagged "${PRODUCTION_COMMENT_TAG}"`);
+  }
+  return reasons;
+}
@@ -0,0 +1,631 @@
+import * as path from 'node:path';
+import { readSqlFile } from './file-scanner.js';
+import {
+  hasTemplateTags,
+  quoteSqlLiteral,
+  renderTemplate,
+  VARIABLE_NAME_PATTERN,
+  type TemplateContext,
+} from './template.js';
+
+/**
+ * A run of output lines that came from consecutive lines of one source file
+ */
+export interface SourceSegment {
+  /** 1-based line in the preprocessed SQL where the run starts */
+  outputLine: number;
+  /** Full path of the file the lines came from */
+  file: string;
+  /** 1-based line in that file where the run starts */
+  sourceLine: number;
+  /** Number of lines in the run */
+  count: number;
+}
+
+/**
+ * Original location of a preprocessed line
+ */
+export interface SourceLine {
+  /** Full path of the file */
+  file: string;
+  /** 1-based line in that file */
+  line: number;
+}
+
+/**
+ * Message printed by `\echo`
+ */
+export interface PsqlEcho {
+  /** Number of preprocessed lines emitted before the echo */
+  afterLine: number;
+  /** Echoed text */
+  message: string;
+}
+
+/**
+ * SQL with psql meta-commands resolved
+ */
+export interface PreprocessedSql {
+  /** SQL to send to the server (meta-command lines removed, includes inlined) */
+  sql: string;
+  /** Maps preprocessed lines back to the files they came from */
+  segments: SourceSegment[];
+  /** `\echo` output, in order */
+  echoes: PsqlEcho[];
+}
+
+/**
+ * Options for the psql preprocessor
+ */
+export interface PsqlPreprocessOptions {
+  /** Variables defined before the file runs (as with `psql -v name=value`) */
+  variables?: Record<string, string>;
+  /** Render `{{ ... }}` placeholders in each file (including `\i` targets) before resolving meta-commands */
+  template?: TemplateContext;
+}
+
+/**
+ * Lexer position carried from one line to the next
+ * Meta-commands and interpolation only apply outside strings and comments
+ */
+interface LexState {
+  mode: 'normal' | 'single' | 'double' | 'dollar' | 'block';
+  /** Single-quoted string is an E'' string (backslash escapes) */
+  escapes: boolean;
+  /** Closing tag of the current dollar quote */
+  tag: string;
+  /** Nesting depth of the current block comment */
+  depth: number;
+}
+
+/**
+ * Open `\if` block
+ */
+interface Conditional {
+  /** Line of the `\if` */
+  line: number;
+  /** Whether the enclosing block is active */
+  parentActive: boolean;
+  /** Whether the current branch is active */
+  active: boolean;
+  /** Whether a branch of this block has already been taken */
+  taken: boolean;
+  /** Whether `\else` has been seen */
+  seenElse: boolean;
+}
+
+const IDENTIFIER_CHAR = /[A-Za-z0-9_$]/;
+const DOLLAR_TAG = /\$([A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/y;
+
+/**
+ * Variable reference: `:name`, `:'name'` (literal), `:"name"` (identifier) or `:{?name}` (is defined)
+ */
+const VARIABLE_REFERENCE =
+  /:(?:'([A-Za-z_]\w*)'|"([A-Za-z_]\w*)"|\{\?([A-Za-z_]\w*)\}|([A-Za-z_]\w*))/y;
+
+/**
+ * Line that starts with a backslash (a meta-command, unless inside a string or comment)
+ */
+const META_COMMAND_LINE = /^[ \t]*\\/m;
+
+const TRUE_VALUES = ['true', 't', 'yes', 'y', 'on', '1'];
+const FALSE_VALUES = ['false', 'f', 'no', 'n', 'off', '0'];
+
+/**
+ * Resolves psql meta-commands in a SQL script
+ *
+ * Supported meta-commands, each on a line of its own:
+ * - `\i file` / `\include file` - include a file (relative to the working directory)
+ * - `\ir file` / `\include_relative file` - include a file relative to the current one
+ * - `\set name value` / `\unset name` - define and remove variables
+ * - `\echo text` - print a message when execution reaches it
+ * - `\if expr` / `\elif expr` / `\else` / `\endif` - conditional blocks
+ *
+ * Outside strings and comments, `:name` is replaced by the variable's value,
+ * `:'name'` by a quoted literal and `:"name"` by a quoted identifier.
+ * References to undefined variables are left as they are, like psql does.
+ *
+ * @param sql - SQL script content
+ * @param filePath - Full path of the script (for relative includes and error locations)
+ * @param options - Preprocessor options
+ * @returns Preprocessed SQL with a map back to the original lines
+ * @throws Error naming the file and line for invalid or unsupported meta-commands
+ */
+export function preprocessPsql(
+  sql: string,
+  filePath: string,
+  options: PsqlPreprocessOptions = {}
+): PreprocessedSql {
+  const variables = Object.entries(options.variables ?? {});
+
+  // Scripts without meta-commands, variables or placeholders are returned untouched
+  if (
+    variables.length === 0 &&
+    !META_COMMAND_LINE.test(sql) &&
+    !(options.template && hasTemplateTags(sql))
+  ) {
+    return {
+      sql,
+      segments: [{ outputLine: 1, file: filePath, sourceLine: 1, count: sql.split('\n').length }],
+      echoes: [],
+    };
+  }
+
+  const preprocessor = new PsqlPreprocessor(filePath, new Map(variables), options.template);
+  return preprocessor.run(sql);
+}
+
+/**
+ * Reads a SQL file and resolves its psql meta-commands
+ *
+ * @param filePath - Full path to the SQL file
+ * @param options - Preprocessor options
+ * @throws Error if a file cannot be read or a meta-command is invalid
+ */
+export function readPsqlFile(
+  filePath: string,
+  options: PsqlPreprocessOptions = {}
+): PreprocessedSql {
+  return preprocessPsql(readSqlFile(filePath), filePath, options);
+}
+
+/**
+ * Finds the original file and line of a preprocessed line
+ *
+ * @param preprocessed - Preprocessor output
+ * @param outputLine - 1-based line in the preprocessed SQL
+ */
+export function resolveSourceLine(preprocessed: PreprocessedSql, outputLine: number): SourceLine {
+  let segment = preprocessed.segments[0];
+  for (const candidate of preprocessed.segments) {
+    if (candidate.outputLine > outputLine) break;
+    segment = candidate;
+  }
+  return { file: segment.file, line: segment.sourceLine + (outputLine - segment.outputLine) };
+}
+
+/**
+ * Walks a script line by line, inlining includes and applying variables
+ */
+class PsqlPreprocessor {
+  private output: string[] = [];
+  private segments: SourceSegment[] = [];
+  private echoes: PsqlEcho[] = [];
+
+  constructor(
+    private rootFile: string,
+    private variables: Map<string, string>,
+    private template?: TemplateContext
+  ) {}
+
+  run(sql: string): PreprocessedSql {
+    this.processFile(sql, this.rootFile, [this.rootFile]);
+    return {
+      sql: this.output.join('\n'),
+      segments: this.segments,
+      echoes: this.echoes,
+    };
+  }
+
+  private processFile(sql: string, file: string, includeStack: string[]): void {
+    // Placeholders are rendered first; sourceLines maps rendered lines back to the file
+    const rendered = this.template
+      ? renderTemplate(sql, this.template, this.displayName(file))
+      : null;
+    const lines = (rendered?.sql ?? sql).split(/\r?\n/);
+    const sourceLines = rendered?.lines;
+    const state: LexState = { mode: 'normal', escapes: false, tag: '', depth: 0 };
+    const conditionals: Conditional[] = [];
+    const isActive = () =>
+      conditionals.length === 0 || conditionals[conditionals.length - 1].active;
+
+    for (let i = 0; i < lines.length; i++) {
+      const text = lines[i];
+      const lineNumber = sourceLines ? sourceLines[i] : i + 1;
+      const trimmed = text.trim();
+
+      if (state.mode === 'normal' && trimmed.startsWith('\\')) {
+        const match = trimmed.match(/^\\([A-Za-z_]+)\s*(.*)$/);
+        if (!match) {
+          throw this.error(`Invalid psql meta-command "${trimmed}"`, file, lineNumber);
+        }
+        const command = match[1];
+        const rest = match[2];
+
+        if (this.handleConditional(command, rest, conditionals, file, lineNumber)) {
+          continue;
+        }
+        if (isActive()) {
+          this.handleCommand(command, rest, file, lineNumber, includeStack);
+        }
+        continue;
+      }
+
+      // Inactive branches are still lexed, so a quote in them can't hide a later \endif
+      const interpolated = this.interpolateLine(text, state);
+      if (isActive()) {
+        this.emit(interpolated, file, lineNumber);
+      }
+    }
+
+    if (conditionals.length > 0) {
+      throw this.error(
+        '\\if without matching \\endif',
+        file,
+        conditionals[conditionals.length - 1].line
+      );
+    }
+  }
+
+  /**
+   * Handles \if, \elif, \else and \endif
+   *
+   * @returns true if the command was a conditional
+   */
+  private handleConditional(
+    command: string,
+    rest: string,
+    conditionals: Conditional[],
+    file: string,
+    line: number
+  ): boolean {
+    const current = conditionals[conditionals.length - 1];
+
+    switch (command) {
+      case 'if': {
+        const parentActive = current === undefined || current.active;
+        const value = parentActive && this.evaluate(rest, file, line);
+        conditionals.push({ line, parentActive, active: value, taken: value, seenElse: false });
+        return true;
+      }
+      case 'elif': {
+        if (!current) throw this.error('\\elif without matching \\if', file, line);
+        if (current.seenElse) throw this.error('\\elif after \\else', file, line);
+        const value = current.parentActive && !current.taken && this.evaluate(rest, file, line);
+        current.active = value;
+        current.taken = current.taken || value;
+        return true;
+      }
+      case 'else': {
+        if (!current) throw this.error('\\else without matching \\if', file, line);
+        if (current.seenElse) throw this.error('\\else after \\else', file, line);
+        current.active = current.parentActive && !current.taken;
+        current.taken = true;
+        current.seenElse = true;
+        return true;
+      }
+      case 'endif': {
+        if (!current) throw this.error('\\endif without matching \\if', file, line);
+        conditionals.pop();
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Handles every other supported meta-command
+   */
+  private handleCommand(
+    command: string,
+    rest: string,
+    file: string,
+    line: number,
+    includeStack: string[]
+  ): void {
+    switch (command) {
+      case 'i':
+      case 'include':
+      case 'ir':
+      case 'include_relative': {
+        const [target] = this.parseArguments(rest, file, line);
+        if (!target) throw this.error(`\\${command} requires a file name`, file, line);
+
+        const relative = command === 'ir' || command === 'include_relative';
+        const included = path.resolve(relative ? path.dirname(file) : process.cwd(), target);
+
+        if (includeStack.includes(included)) {
+          const cycle = [...includeStack, included].map((f) => this.displayName(f)).join(' -> ');
+          throw this.error(`Circular include: ${cycle}`, file, line);
+        }
+
+        let content: string;
+        try {
+          content = readSqlFile(included);
+        } catch {
+          throw this.error(`Cannot include "${target}": file not found or unreadable`, file, line);
+        }
+        this.processFile(content, included, [...includeStack, included]);
+        return;
+      }
+
+      case 'set': {
+        const [name, ...values] = this.parseArguments(rest, file, line);
+        if (!name) throw this.error('\\set requires a variable name', file, line);
+        this.checkVariableName(name, file, line);
+        this.variables.set(name, values.join(''));
+        return;
+      }
+
+      case 'unset': {
+        const [name] = this.parseArguments(rest, file, line);
+        if (!name) throw this.error('\\unset requires a variable name', file, line);
+        this.checkVariableName(name, file, line);
+        this.variables.delete(name);
+        return;
+      }
+
+      case 'echo': {
+        const args = this.parseArguments(rest, file, line);
+        if (args[0] === '-n') args.shift();
+        this.echoes.push({ afterLine: this.output.length, message: args.join(' ') });
+        return;
+      }
+
+      default:
+        throw this.error(`Unsupported psql meta-command \\${command}`, file, line);
+    }
+  }
+
+  /**
+   * Evaluates a \if or \elif expression as a psql boolean
+   */
+  private evaluate(rest: string, file: string, line: number): boolean {
+    const value = this.parseArguments(rest, file, line).join(' ').toLowerCase();
+
+    if (TRUE_VALUES.includes(value)) return true;
+    if (FALSE_VALUES.includes(value)) return false;
+    throw this.error(`Invalid \\if expression "${value}", expected a boolean`, file, line);
+  }
+
+  /**
+   * Splits meta-command arguments, resolving quotes and variable references
+   */
+  private parseArguments(rest: string, file: string, line: number): string[] {
+    const args: string[] = [];
+    let current = '';
+    let inArgument = false;
+    let i = 0;
+
+    while (i < rest.length) {
+      const ch = rest[i];
+
+      if (/\s/.test(ch)) {
+        if (inArgument) args.push(current);
+        current = '';
+        inArgument = false;
+        i++;
+        continue;
+      }
+
+      inArgument = true;
+
+      if (ch === "'") {
+        let j = i + 1;
+        for (;;) {
+          if (j >= rest.length) throw this.error('Unterminated quoted string', file, line);
+          if (rest[j] === "'") {
+            if (rest[j + 1] !== "'") break;
+            j++;
+          }
+          current += rest[j];
+          j++;
+        }
+        i = j + 1;
+        continue;
+      }
+
+      if (ch === ':') {
+        const reference = this.readVariableReference(rest, i);
+        if (reference) {
+          current += reference.value;
+          i = reference.end;
+          continue;
+        }
+      }
+
+      current += ch;
+      i++;
+    }
+
+    if (inArgument) args.push(current);
+    return args;
+  }
+
+  /**
+   * Replaces variable references in a SQL line, skipping strings and comments
+   */
+  private interpolateLine(text: string, state: LexState): string {
+    let out = '';
+    let i = 0;
+
+    while (i < text.length) {
+      const ch = text[i];
+      const next = text[i + 1];
+
+      if (state.mode === 'single') {
+        if (state.escapes && ch === '\\') {
+          out += text.slice(i, i + 2);
+          i += 2;
+          continue;
+        }
+        if (ch === "'") {
+          if (next === "'") {
+            out += "''";
+            i += 2;
+            continue;
+          }
+          state.mode = 'normal';
+        }
+        out += ch;
+        i++;
+        continue;
+      }
+
+      if (state.mode === 'double') {
+        if (ch === '"') {
+          if (next === '"') {
+            out += '""';
+            i += 2;
+            continue;
+          }
+          state.mode = 'normal';
+        }
+        out += ch;
+        i++;
+        continue;
+      }
+
+      if (state.mode === 'dollar') {
+        const close = text.indexOf(state.tag, i);
+        if (close === -1) {
+          return out + text.slice(i);
+        }
+        out += text.slice(i, close + state.tag.length);
+        i = close + state.tag.length;
+        state.mode = 'normal';
+        continue;
+      }
+
+      if (state.mode === 'block') {
+        if (ch === '/' && next === '*') {
+          state.depth++;
+          out += '/*';
+          i += 2;
+        } else if (ch === '*' && next === '/') {
+          state.depth--;
+          if (state.depth === 0) state.mode = 'normal';
+          out += '*/';
+          i += 2;
+        } else {
+          out += ch;
+          i++;
+        }
+        continue;
+      }
+
+      // Normal mode
+      if (ch === '-' && next === '-') {
+        return out + text.slice(i);
+      }
+
+      if (ch === '/' && next === '*') {
+        state.mode = 'block';
+        state.depth = 1;
+        out += '/*';
+        i += 2;
+        continue;
+      }
+
+      if (ch === "'") {
+        state.mode = 'single';
+        state.escapes = i > 0 && /[eE]/.test(text[i - 1]) && !isIdentifierChar(text[i - 2]);
+        out += ch;
+        i++;
+        continue;
+      }
+
+      if (ch === '"') {
+        state.mode = 'double';
+        out += ch;
+        i++;
+        continue;
+      }
+
+      if (ch === '$' && !isIdentifierChar(text[i - 1])) {
+        DOLLAR_TAG.lastIndex = i;
+        const tag = DOLLAR_TAG.exec(text);
+        if (tag) {
+          state.mode = 'dollar';
+          state.tag = tag[0];
+          out += tag[0];
+          i += tag[0].length;
+          continue;
+        }
+      }
+
+      if (ch === ':') {
+        // Type casts (::) are never variable references
+        if (next === ':') {
+          out += '::';
+          i += 2;
+          continue;
+        }
+        const reference = this.readVariableReference(text, i);
+        if (reference) {
+          out += reference.value;
+          i = reference.end;
+          continue;
+        }
+      }
+
+      out += ch;
+      i++;
+    }
+
+    return out;
+  }
+
+  /**
+   * Resolves the variable reference at `start`, if there is one and it's defined
+   */
+  private readVariableReference(
+    text: string,
+    start: number
+  ): { value: string; end: number } | null {
+    VARIABLE_REFERENCE.lastIndex = start;
+    const match = VARIABLE_REFERENCE.exec(text);
+    if (!match) return null;
+
+    const [whole, literal, identifier, definedCheck, plain] = match;
+    const end = start + whole.length;
+
+    if (definedCheck !== undefined) {
+      return { value: this.variables.has(definedCheck) ? 'TRUE' : 'FALSE', end };
+    }
+
+    const value = this.variables.get(literal ?? identifier ?? plain);
+    if (value === undefined) return null;
+
+    if (literal !== undefined) {
+      return { value: quoteSqlLiteral(value), end };
+    }
+    if (identifier !== undefined) {
+      return { value: `"${value.replace(/"/g, '""')}"`, end };
+    }
+    return { value, end };
+  }
+
+  private checkVariableName(name: string, file: string, line: number): void {
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      throw this.error(`Invalid variable name "${name}"`, file, line);
+    }
+  }
+
+  private emit(text: string, file: string, sourceLine: number): void {
+    this.output.push(text);
+    const last = this.segments[this.segments.length - 1];
+
+    if (last && last.file === file && last.sourceLine + last.count === sourceLine) {
+      last.count++;
+    } else {
+      this.segments.push({ outputLine: this.output.length, file, sourceLine, count: 1 });
+    }
+  }
+
+  /**
+   * Path shown in messages, relative to the directory of the file being run
+   */
+  private displayName(file: string): string {
+    return path.relative(path.dirname(this.rootFile), file).split(path.sep).join('/');
+  }
+
+  private error(message: string, file: string, line: number): Error {
+    return new Error(`${this.displayName(file)}: ${message} on line ${line}`);
+  }
+}
+
+function isIdentifierChar(ch: string | undefined): boolean {
+  return ch !== undefined && IDENTIFIER_CHAR.test(ch);
+}
@@ -0,0 +1,263 @@
+import type { ResetReport } from '../types.js';
+import { quoteSqlIdentifier, type SqlExecutor } from './executor.js';
+
+/**
+ * Schemas reset unless configured otherwise
+ */
+export const DEFAULT_RESET_SCHEMAS: readonly string[] = ['public'];
+
+/**
+ * Schemas a reset never touches: PostgreSQL's own and the ones Supabase manages
+ */
+export const PROTECTED_SCHEMAS: readonly string[] = [
+  'pg_catalog',
+  'information_schema',
+  'pg_toast',
+  'auth',
+  'storage',
+  'realtime',
+  '_realtime',
+  'extensions',
+  'graphql',
+  'graphql_public',
+  'vault',
+  'pgsodium',
+  'pgsodium_masks',
+  'pgbouncer',
+  'net',
+  'cron',
+  'supabase_functions',
+  'supabase_migrations',
+];
+
+/**
+ * Roles Supabase's API connects as, granted access to reset schemas
+ */
+export const SUPABASE_API_ROLES: readonly string[] = ['anon', 'authenticated', 'service_role'];
+
+/**
+ * Roles that create objects in a Supabase project; the reset restores the
+ * default privileges on their future objects, as Supabase sets them up
+ */
+export const SUPABASE_OWNER_ROLES: readonly string[] = ['postgres', 'supabase_admin'];
+
+/**
+ * Privileges restored on a recreated schema
+ */
+export interface ResetPrivileges {
+  /** Roles granted usage on the schema and default privileges in it */
+  grantees: string[];
+  /** Roles whose future objects get the default privileges, besides the current user's */
+  owners: string[];
+}
+
+/**
+ * An object outside the reset schemas that `DROP SCHEMA ... CASCADE` would drop
+ * along with the object it depends on
+ */
+export interface ResetDependent {
+  /** The dependent object, e.g. 'trigger on_auth_user_created on auth.users' */
+  object: string;
+  /** What it depends on, e.g. 'function public.handle_new_user()' */
+  dependsOn: string;
+}
+
+/**
+ * Options for resetting schemas
+ */
+export interface ResetSchemasOptions {
+  /** Drop objects in other schemas that depend on the reset schemas, instead of refusing */
+  dropDependents?: boolean;
+}
+
+/**
+ * Checks that every schema can be reset
+ *
+ * @param schemas - Schemas to reset
+ * @throws Error for an empty list, or a system or Supabase-managed schema
+ */
+export function validateResetSchemas(schemas: string[]): void {
+  if (schemas.length === 0) {
+    throw new Error('No schemas to reset. Set resetSchemas, for example ["public"]');
+  }
+
+  const protectedSchema = schemas.find(
+    (schema) => PROTECTED_SCHEMAS.includes(schema) || schema.startsWith('pg_')
+  );
+  if (protectedSchema) {
+    throw new Error(
+      `Cannot reset the "${protectedSchema}" schema: it is managed by PostgreSQL or Supabase`
+    );
+  }
+}
+
+/**
+ * Builds the statements that recreate a schema with Supabase's default privileges
+ * The grantees get usage on the schema and, through default privileges, on
+ * every table, function and sequence the current user and the owner roles
+ * create in it later.
+ *
+ * @param schema - Schema to recreate
+ * @param privileges - Roles to grant, and the owner roles to set default privileges for
+ */
+export function buildResetStatements(
+  schema: string,
+  privileges: ResetPrivileges = { grantees: [], owners: [] }
+): string[] {
+  const name = quoteSqlIdentifier(schema);
+  const statements = [`DROP SCHEMA IF EXISTS ${name} CASCADE`, `CREATE SCHEMA ${name}`];
+
+  if (schema === 'public') {
+    statements.push(`COMMENT ON SCHEMA ${name} IS 'standard public schema'`);
+  }
+
+  if (privileges.grantees.length > 0) {
+    const grantees = privileges.grantees.map(quoteSqlIdentifier).join(', ');
+    statements.push(`GRANT USAGE ON SCHEMA ${name} TO ${grantees}`);
+    for (const owner of [null, ...privileges.owners]) {
+      const forRole = owner ? ` FOR ROLE ${quoteSqlIdentifier(owner)}` : '';
+      for (const objects of ['TABLES', 'FUNCTIONS', 'SEQUENCES']) {
+        statements.push(
+          `ALTER DEFAULT PRIVILEGES${forRole} IN SCHEMA ${name} GRANT ALL ON ${objects} TO ${grantees}`
+        );
+      }
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Works out the privileges to restore from the roles in the database
+ *
+ * A database with any of the API roles is treated as a Supabase project: every
+ * API role is granted, plus `postgres` when it exists, and default privileges
+ * are set for each owner role the current user can act as. A plain PostgreSQL
+ * database gets no grants.
+ *
+ * @param executor - Connected executor
+ */
+export async function resolveResetPrivileges(executor: SqlExecutor): Promise<ResetPrivileges> {
+  const result = await executor.query<{ rolname: string; member: boolean }>(
+    `SELECT rolname, pg_has_role(rolname, 'MEMBER') AS member
+     FROM pg_roles WHERE rolname = ANY($1::text[])`,
+    [[...SUPABASE_API_ROLES, ...SUPABASE_OWNER_ROLES]]
+  );
+  const roles = new Map(result.rows.map((row) => [row.rolname, row.member]));
+
+  if (!SUPABASE_API_ROLES.some((role) => roles.has(role))) {
+    return { grantees: [], owners: [] };
+  }
+
+  return {
+    grantees: [...(roles.has('postgres') ? ['postgres'] : []), ...SUPABASE_API_ROLES],
+    owners: SUPABASE_OWNER_ROLES.filter((role) => roles.get(role) === true),
+  };
+}
+
+/**
+ * Finds objects outside the reset schemas that depend on them, such as a
+ * trigger on `auth.users` calling a function in `public`
+ * `DROP SCHEMA ... CASCADE` would drop them without a word.
+ *
+ * Extensions installed in a reset schema aren't listed: the reset recreates them.
+ *
+ * @param executor - Connected executor
+ * @param schemas - Schemas to reset
+ */
+export async function findResetDependents(
+  executor: SqlExecutor,
+  schemas: string[]
+): Promise<ResetDependent[]> {
+  const result = await executor.query<{ object: string; depends_on: string }>(
+    `SELECT DISTINCT dep.type || ' ' || dep.identity AS object,
+            ref.type || ' ' || ref.identity AS depends_on
+     FROM pg_depend d
+     CROSS JOIN LATERAL pg_identify_object(d.classid, d.objid, d.objsubid) dep
+     CROSS JOIN LATERAL pg_identify_object(d.refclassid, d.refobjid, d.refobjsubid) ref
+     -- Triggers, column defaults, rules and policies have no schema of their own: use their table's
+     LEFT JOIN LATERAL (
+       SELECT n.nspname AS schema
+       FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.oid = CASE d.classid
+         WHEN 'pg_trigger'::regclass THEN (SELECT tgrelid FROM pg_trigger WHERE oid = d.objid)
+         WHEN 'pg_attrdef'::regclass THEN (SELECT adrelid FROM pg_attrdef WHERE oid = d.objid)
+         WHEN 'pg_rewrite'::regclass THEN (SELECT ev_class FROM pg_rewrite WHERE oid = d.objid)
+         WHEN 'pg_policy'::regclass THEN (SELECT polrelid FROM pg_policy WHERE oid = d.objid)
+       END
+     ) tbl ON true
+     WHERE d.deptype = 'n'
+       AND d.classid <> 'pg_extension'::regclass
+       AND (ref.schema = ANY($1::text[])
+            OR (d.refclassid = 'pg_namespace'::regclass
+                AND d.refobjid IN (SELECT oid FROM pg_namespace WHERE nspname = ANY($1::text[]))))
+       AND NOT COALESCE(COALESCE(dep.schema, tbl.schema) = ANY($1::text[]), false)
+     ORDER BY 1, 2`,
+    [schemas]
+  );
+  return result.rows.map((row) => ({ object: row.object, dependsOn: row.depends_on }));
+}
+
+/**
+ * Drops and recreates schemas, restoring Supabase's default privileges and
+ * the extensions that were installed in them
+ *
+ * Runs on the executor's connection, so inside an open transaction the reset
+ * rolls back with the run. Grants are only made in a Supabase project (one
+ * with the API roles), so a plain PostgreSQL database can be reset too.
+ *
+ * @param executor - Connected executor
+ * @param schemas - Schemas to reset (validated with validateResetSchemas)
+ * @param options - Whether to drop dependents in other schemas
+ * @returns The reset schemas, restored extensions, granted roles and dropped dependents
+ * @throws Error listing the objects in other schemas that depend on the reset
+ * schemas, unless `dropDependents` is set
+ */
+export async function resetSchemas(
+  executor: SqlExecutor,
+  schemas: string[],
+  options: ResetSchemasOptions = {}
+): Promise<ResetReport> {
+  validateResetSchemas(schemas);
+
+  const dependents = await findResetDependents(executor, schemas);
+  if (dependents.length > 0 && !options.dropDependents) {
+    const error = new Error(
+      `Refusing to reset: ${dependents.length} object(s) in other schemas depend on the reset schemas and would be dropped`
+    ) as Error & { detail?: string; hint?: string };
+    error.detail = dependents.map((d) => `${d.object} depends on ${d.dependsOn}`).join('\n');
+    error.hint =
+      'Drop or move them first, or pass --drop-dependents (dropDependents) to drop them with the schema';
+    throw error;
+  }
+
+  const privileges = await resolveResetPrivileges(executor);
+
+  // Extensions living in a reset schema are dropped with it
+  const extensionsResult = await executor.query<{ name: string; schema: string }>(
+    `SELECT e.extname AS name, n.nspname AS schema
+     FROM pg_extension e JOIN pg_namespace n ON n.oid = e.extnamespace
+     WHERE n.nspname = ANY($1::text[])
+     ORDER BY e.extname`,
+    [schemas]
+  );
+
+  for (const schema of schemas) {
+    for (const statement of buildResetStatements(schema, privileges)) {
+      await executor.query(statement);
+    }
+  }
+
+  for (const extension of extensionsResult.rows) {
+    await executor.query(
+      `CREATE EXTENSION IF NOT EXISTS ${quoteSqlIdentifier(extension.name)} WITH SCHEMA ${quoteSqlIdentifier(extension.schema)}`
+    );
+  }
+
+  return {
+    schemas,
+    extensions: extensionsResult.rows.map((row) => row.name),
+    grantedRoles: privileges.grantees,
+    droppedDependents: dependents.map((d) => d.object),
+  };
+}
@@ -0,0 +1,49 @@
+import type { RevertOptions } from '../types.js';
+
+/**
+ * Selects the files to revert
+ *
+ * @param files - Candidate file names in execution order
+ * @param options - `last` or a `from`/`to` range
+ * @returns Selected file names, in execution order
+ * @throws Error if the selection is missing, ambiguous or names an unknown file
+ */
+export function selectFilesToRevert(
+  files: string[],
+  options: Pick<RevertOptions, 'last' | 'from' | 'to'>
+): string[] {
+  const { last, from, to } = options;
+
+  if (last !== undefined && (from !== undefined || to !== undefined)) {
+    throw new Error('Choose the files to revert with either last or from/to, not both');
+  }
+
+  if (last !== undefined) {
+    if (!Number.isInteger(last) || last < 1) {
+      throw new Error(`Invalid number of files to revert: ${last}`);
+    }
+    return files.slice(-last);
+  }
+
+  if (from === undefined) {
+    if (to !== undefined) {
+      throw new Error('A revert range needs a first file (from)');
+    }
+    throw new Error('Choose the files to revert with last or from/to');
+  }
+
+  const start = indexOfFile(files, from);
+  const end = to === undefined ? files.length - 1 : indexOfFile(files, to);
+  if (start > end) {
+    throw new Error(`Invalid revert range: ${from} runs after ${to}`);
+  }
+  return files.slice(start, end + 1);
+}
+
+function indexOfFile(files: string[], fileName: string): number {
+  const index = files.indexOf(fileName);
+  if (index === -1) {
+    throw new Error(`Cannot revert ${fileName}: not found among the files that can be reverted`);
+  }
+  return index;
+}
@@ -6,21 +6,51 @@ import type {
   FileExecutionResult,
   Logger,
   RunOptions,
+  RevertOptions,
+  ConnectionConfig,
+  HistoryStatusReport,
+  SessionTimeouts,
+  SqlRunnerEvent,
+  SqlRunnerEventType,
+  SqlRunnerEventHandler,
 } from '../types.js';
 import {
   parseDatabaseUrl,
   validateDatabaseUrl,
   maskPassword,
   getErrorMessage,
+  toRunnerError,
 } from './connection.js';
 import {
   scanSqlFiles,
+  matchesFileSelector,
+  downScriptName,
   DEFAULT_FILE_PATTERN,
   DEFAULT_IGNORE_PATTERN,
 } from './file-scanner.js';
-import { SqlExecutor } from './executor.js';
+import { SqlExecutor, DEFAULT_MAX_RESULT_ROWS, RESULT_CAPTURE_MODES } from './executor.js';
+import { readFileDirectives, type FileDirectives } from './directives.js';
+import { collectDependencies } from './dependencies.js';
+import { diffCatalogSnapshots, takeCatalogSnapshot } from './catalog.js';
+import { selectFilesToRevert } from './revert.js';
+import { readPsqlFile } from './psql.js';
+import { isDataFile } from './data-files.js';
+import { resetSchemas, validateResetSchemas, DEFAULT_RESET_SCHEMAS } from './reset.js';
+import { VARIABLE_NAME_PATTERN } from './template.js';
+import { isValidTimeout, formatTimeout, timeoutToMs } from './timeouts.js';
+import { AdvisoryLock, defaultAdvisoryLockKey, describeLockHolder } from './advisory-lock.js';
 import { createLogger } from './logger.js';
+import { RunnerEventEmitter } from './events.js';
+import { assessProductionTarget, findProductionMarkers } from './production-guard.js';
+import { DEFAULT_CONNECT_RETRIES, DEFAULT_CONNECT_RETRY_DELAY_MS } from './connect-retry.js';
+import {
+  HistoryStore,
+  compareWithHistory,
+  DEFAULT_HISTORY_SCHEMA,
+  DEFAULT_HISTORY_TABLE,
+} from './history.js';
 import { createUIRenderer, c, type UIRenderer } from '../ui/index.js';
+import { VERSION } from '../version.js';
 
 /**
  * Default configuration values
@@ -28,13 +58,51 @@ import { createUIRenderer, c, type UIRenderer } from '../ui/index.js';
 const DEFAULT_CONFIG: Partial<SqlRunnerConfig> = {
   filePattern: DEFAULT_FILE_PATTERN,
   ignorePattern: DEFAULT_IGNORE_PATTERN,
+  recursive: false,
+  dataFiles: false,
+  templates: false,
+  batchStatements: false,
   ssl: true,
+  connectRetries: DEFAULT_CONNECT_RETRIES,
+  connectRetryDelay: DEFAULT_CONNECT_RETRY_DELAY_MS,
   requireConfirmation: true,
   confirmationPhrase: 'CONFIRM',
   verbose: false,
+  silent: false,
+  handleSignals: true,
   logDirectory: './logs',
+  trackHistory: false,
+  historySchema: DEFAULT_HISTORY_SCHEMA,
+  historyTable: DEFAULT_HISTORY_TABLE,
+  rerunModified: false,
+  transactionMode: 'single',
+  continueOnError: false,
+  commitOnError: false,
+  statementTimeout: null,
+  lockTimeout: null,
+  idleInTransactionTimeout: null,
+  advisoryLock: false,
+  advisoryLockKey: null,
+  advisoryLockWait: null,
+  schemaDiff: false,
+  resetSchemas: [...DEFAULT_RESET_SCHEMAS],
+  productionGuard: true,
+  productionAllowList: [],
+  productionDenyList: [],
+  captureResults: 'marked',
+  maxResultRows: DEFAULT_MAX_RESULT_ROWS,
+  variables: {},
 };
 
+/**
+ * Whether an error comes from cancelling the run: a statement cancelled on the
+ * server (57014, query_canceled), or a connect retry or lock wait cut short
+ */
+function isCancellation(error: unknown): boolean {
+  const { code, name } = (error ?? {}) as { code?: unknown; name?: unknown };
+  return code === '57014' || name === 'AbortError';
+}
+
 /**
  * Supabase SQL Dev Runner
  *
@@ -59,12 +127,64 @@ export class SqlRunner {
   private logger: Logger;
   private ui: UIRenderer;
   private executor: SqlExecutor | null = null;
+  private advisoryLock: AdvisoryLock | null = null;
+  /** The production guard passed (or was overridden) for the open connection */
+  private productionConfirmed = false;
   private abortRequested = false;
+  /** Aborted with the run, so connect retries, lock waits and files stop early */
+  private runAbort: AbortController | null = null;
+  private emitter = new RunnerEventEmitter();
 
   constructor(config: SqlRunnerConfig) {
     // Validate required config
     const databaseUrl = validateDatabaseUrl(config.databaseUrl);
 
+    for (const key of [
+      'statementTimeout',
+      'lockTimeout',
+      'idleInTransactionTimeout',
+      'advisoryLockWait',
+      'connectRetryDelay',
+    ] as const) {
+      const value = config[key];
+      if (value !== undefined && value !== null && !isValidTimeout(value)) {
+        throw new Error(
+          `Invalid ${key} "${value}". Use milliseconds or a duration such as "30s" or "5min"`
+        );
+      }
+    }
+
+    if (config.captureResults !== undefined && !RESULT_CAPTURE_MODES.includes(config.captureResults)) {
+      throw new Error(
+        `Invalid captureResults "${config.captureResults}". Expected one of: ${RESULT_CAPTURE_MODES.join(', ')}`
+      );
+    }
+    if (
+      config.maxResultRows !== undefined &&
+      (!Number.isInteger(config.maxResultRows) || config.maxResultRows < 1)
+    ) {
+      throw new Error(`Invalid maxResultRows "${config.maxResultRows}". Use a positive whole number`);
+    }
+
+    if (
+      config.connectRetries !== undefined &&
+      (!Number.isInteger(config.connectRetries) || config.connectRetries < 0)
+    ) {
+      throw new Error(`Invalid connectRetries "${config.connectRetries}". Use 0 or a positive whole number`);
+    }
+
+    if (config.resetSchemas !== undefined) {
+      validateResetSchemas(config.resetSchemas);
+    }
+
+    for (const [name, value] of Object.entries(config.variables ?? {})) {
+      if (!VARIABLE_NAME_PATTERN.test(name) || typeof value !== 'string') {
+        throw new Error(
+          `Invalid variable "${name}". Names use letters, digits and underscores, and values must be strings`
+        );
+      }
+    }
+
     // Merge with defaults
     this.config = {
       ...DEFAULT_CONFIG,
@@ -72,11 +192,40 @@ export class SqlRunner {
       databaseUrl,
       filePattern: config.filePattern ?? DEFAULT_FILE_PATTERN,
       ignorePattern: config.ignorePattern ?? DEFAULT_IGNORE_PATTERN,
+      recursive: config.recursive ?? false,
+      dataFiles: config.dataFiles ?? false,
+      templates: config.templates ?? false,
+      batchStatements: config.batchStatements ?? false,
       ssl: config.ssl ?? true,
+      connectRetries: config.connectRetries ?? DEFAULT_CONNECT_RETRIES,
+      connectRetryDelay: config.connectRetryDelay ?? DEFAULT_CONNECT_RETRY_DELAY_MS,
       requireConfirmation: config.requireConfirmation ?? true,
       confirmationPhrase: config.confirmationPhrase ?? 'CONFIRM',
       verbose: config.verbose ?? false,
+      silent: config.silent ?? false,
+      handleSignals: config.handleSignals ?? true,
       logDirectory: config.logDirectory === undefined ? './logs' : config.logDirectory,
+      trackHistory: config.trackHistory ?? false,
+      historySchema: config.historySchema ?? DEFAULT_HISTORY_SCHEMA,
+      historyTable: config.historyTable ?? DEFAULT_HISTORY_TABLE,
+      rerunModified: config.rerunModified ?? false,
+      transactionMode: config.transactionMode ?? 'single',
+      continueOnError: config.continueOnError ?? false,
+      commitOnError: config.commitOnError ?? false,
+      statementTimeout: config.statementTimeout ?? null,
+      lockTimeout: config.lockTimeout ?? null,
+      idleInTransactionTimeout: config.idleInTransactionTimeout ?? null,
+      advisoryLock: config.advisoryLock ?? false,
+      advisoryLockKey: config.advisoryLockKey ?? null,
+      advisoryLockWait: config.advisoryLockWait ?? null,
+      schemaDiff: config.schemaDiff ?? false,
+      resetSchemas: config.resetSchemas ?? [...DEFAULT_RESET_SCHEMAS],
+      productionGuard: config.productionGuard ?? true,
+      productionAllowList: config.productionAllowList ?? [],
+      productionDenyList: config.productionDenyList ?? [],
+      captureResults: config.captureResults ?? 'marked',
+      maxResultRows: config.maxResultRows ?? DEFAULT_MAX_RESULT_ROWS,
+      variables: config.variables ?? {},
     } as ResolvedSqlRunnerConfig;
 
     // Set up logger (for file logging)
@@ -90,7 +239,8 @@ export class SqlRunner {
     // Set up UI renderer
     this.ui = createUIRenderer({
       name: 'sql-runner',
-      version: '1.2.0',
+      version: VERSION,
+      silent: this.config.silent,
     });
   }
 
@@ -101,8 +251,21 @@ export class SqlRunner {
    * @returns Execution summary with results
    */
   async run(options: RunOptions = {}): Promise<ExecutionSummary> {
+    return this.emitOutcome(() => this.executeRun(options));
+  }
+
+  private async executeRun(options: RunOptions): Promise<ExecutionSummary> {
     const startTime = Date.now();
     const results: FileExecutionResult[] = [];
+    const extras: Partial<ExecutionSummary> = {};
+
+    if (options.dryRun && options.rehearse) {
+      throw new Error('dryRun and rehearse cannot be used together');
+    }
+
+    // Listening starts before connecting, so a cancel also stops connect retries and lock waits
+    const stopListening = this.listenForCancel(options.signal);
+    let ignoredFiles: string[] = [];
 
     try {
       // Parse connection config
@@ -112,20 +275,18 @@ export class SqlRunner {
       this.ui.banner();
       this.ui.devWarning();
 
-      // Extract host from masked URL
-      const maskedUrl = maskPassword(this.config.databaseUrl);
-      const hostMatch = maskedUrl.match(/@([^:/]+)/);
-      const host = hostMatch ? hostMatch[1] : maskedUrl;
-
       // Scan for SQL files first to get count
       const scanResult = scanSqlFiles(this.config.sqlDirectory, {
         filePattern: this.config.filePattern,
         ignorePattern: this.config.ignorePattern,
+        recursive: this.config.recursive,
+        dataFiles: this.config.dataFiles,
       });
+      ignoredFiles = scanResult.ignoredFiles;
 
       // Show connection info
       this.ui.connectionInfo({
-        host,
+        host: this.getDisplayHost(),
         directory: this.config.sqlDirectory,
         fileCount: scanResult.files.length,
         logDirectory: this.config.logDirectory,
@@ -133,161 +294,416 @@ export class SqlRunner {
 
       if (scanResult.files.length === 0) {
         this.ui.warning('No SQL files found to execute');
-        return this.createSummary(results, scanResult.ignoredFiles, startTime, false);
+        return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
       }
 
       // Filter files based on options
       let filesToExecute = scanResult.filePaths;
       let fileNames = scanResult.files;
 
+      // Entries match a file's relative path or a directory containing it
       if (options.onlyFiles?.length) {
-        const onlySet = new Set(options.onlyFiles);
+        const onlyFiles = options.onlyFiles;
+        const selected = scanResult.files.filter((f) =>
+          onlyFiles.some((selector) => matchesFileSelector(f, selector))
+        );
+
+        // Warn about requested files that were not found
+        const notFound = onlyFiles.filter(
+          (selector) => !selected.some((f) => matchesFileSelector(f, selector))
+        );
+        if (notFound.length > 0) {
+          this.ui.warning(`Requested files not found: ${notFound.join(', ')}`);
+        }
+
+        // Selected files bring the files they depend on
+        const dependencies = new Set(collectDependencies(selected, scanResult.dependencies));
+        const included = new Set([...selected, ...dependencies]);
         const filtered = scanResult.files
           .map((f, i) => ({ name: f, path: scanResult.filePaths[i] }))
-          .filter((f) => onlySet.has(f.name));
+          .filter((f) => included.has(f.name));
         fileNames = filtered.map((f) => f.name);
         filesToExecute = filtered.map((f) => f.path);
 
-        // Warn about requested files that were not found
-        const foundSet = new Set(fileNames);
-        const notFound = options.onlyFiles.filter((f) => !foundSet.has(f));
-        if (notFound.length > 0) {
-          this.ui.warning(`Requested files not found: ${notFound.join(', ')}`);
+        if (dependencies.size > 0) {
+          this.ui.info(
+            `Including dependencies: ${fileNames.filter((f) => dependencies.has(f)).join(', ')}`
+          );
         }
       }
 
       if (options.skipFiles?.length) {
-        const skipSet = new Set(options.skipFiles);
+        const skipFiles = options.skipFiles;
         const filtered = fileNames
           .map((f, i) => ({ name: f, path: filesToExecute[i] }))
-          .filter((f) => !skipSet.has(f.name));
+          .filter((f) => !skipFiles.some((selector) => matchesFileSelector(f.name, selector)));
+
+        // Skipping is explicit, but point out files that will run without a dependency
+        const remaining = new Set(filtered.map((f) => f.name));
+        const skippedDependencies = fileNames.filter(
+          (f) =>
+            !remaining.has(f) &&
+            [...remaining].some((r) => scanResult.dependencies[r]?.includes(f))
+        );
+        if (skippedDependencies.length > 0) {
+          this.ui.warning(
+            `Skipped files are dependencies of files that will run: ${skippedDependencies.join(', ')}`
+          );
+        }
+
         fileNames = filtered.map((f) => f.name);
         filesToExecute = filtered.map((f) => f.path);
       }
 
+      // With history tracking, only pending (and optionally modified) files run
+      let history: HistoryStore | null = null;
+      const checksums = new Map<string, string>();
+
+      if (this.config.trackHistory) {
+        const executor = await this.connect(connectionConfig);
+        await this.checkProductionGuard(executor, options);
+        await this.acquireAdvisoryLock(executor);
+        if (this.abortRequested) {
+          return await this.cancelRun(results, ignoredFiles, startTime, extras);
+        }
+        history = this.createHistoryStore(executor);
+        // A reset clears the history, so every file counts as pending
+        const applied = options.reset ? new Map() : await history.getApplied();
+        const report = compareWithHistory(fileNames, filesToExecute, applied);
+
+        const runnable = report.files.filter(
+          (f) => f.status === 'pending' || (f.status === 'modified' && this.config.rerunModified)
+        );
+        const modified = report.files.filter((f) => f.status === 'modified');
+        extras.alreadyAppliedFiles = report.files
+          .filter((f) => f.status === 'applied')
+          .map((f) => f.fileName);
+
+        for (const entry of runnable) {
+          checksums.set(entry.fileName, entry.checksum);
+        }
+        fileNames = runnable.map((f) => f.fileName);
+        filesToExecute = runnable.map((f) => f.filePath);
+
+        this.ui.alreadyAppliedFiles(extras.alreadyAppliedFiles);
+
+        if (modified.length > 0 && !this.config.rerunModified) {
+          this.ui.warning(
+            `Changed since applied (not re-run): ${modified.map((f) => f.fileName).join(', ')}`
+          );
+        }
+
+        if (fileNames.length === 0) {
+          this.ui.newline();
+          this.ui.success('Database is up to date - no pending files');
+          return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
+        }
+      }
+
       // Show files to execute
       this.ui.fileList(fileNames);
 
+      // Header directives are read up front so an invalid one fails before anything runs
+      const fileDirectives = new Map(filesToExecute.map((f) => [f, readFileDirectives(f)]));
+
+      // Same for templates: an undefined variable is reported before execution
+      // Data files are loaded with COPY as they are, without psql or templates
+      for (const filePath of filesToExecute.filter((f) => !isDataFile(f))) {
+        readPsqlFile(filePath, {
+          variables: this.config.variables,
+          template: this.rendersTemplate(fileDirectives.get(filePath)!)
+            ? { variables: this.config.variables }
+            : undefined,
+        });
+      }
+
+      // Files marked `-- sql-runner: no-transaction` run in autocommit mode
+      const noTransactionFiles = new Set(
+        filesToExecute.filter((f) => fileDirectives.get(f)!.noTransaction)
+      );
+      if (noTransactionFiles.size > 0) {
+        const names = fileNames.filter((_, i) => noTransactionFiles.has(filesToExecute[i]));
+
+        if (options.rehearse) {
+          // A rehearsal must leave nothing behind, so these files can't take part
+          this.ui.warning(`Not rehearsed (cannot be rolled back): ${names.join(', ')}`);
+          fileNames = fileNames.filter((_, i) => !noTransactionFiles.has(filesToExecute[i]));
+          filesToExecute = filesToExecute.filter((f) => !noTransactionFiles.has(f));
+          noTransactionFiles.clear();
+        } else {
+          this.ui.warning(`Run outside a transaction (cannot be rolled back): ${names.join(', ')}`);
+        }
+      }
+
       // Show ignored files
       this.ui.ignoredFiles(scanResult.ignoredFiles);
 
+      if (options.reset) {
+        this.ui.resetWarning(this.config.resetSchemas);
+      }
+
       // Dry run mode
       if (options.dryRun) {
         this.ui.dryRun();
-        return this.createSummary(results, scanResult.ignoredFiles, startTime, false);
+        return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
+      }
+
+      // A rehearsal always rolls back, so it needs no confirmation
+      if (options.rehearse) {
+        extras.rehearsal = true;
+        this.ui.rehearsal();
       }
 
       // Require confirmation unless skipped
-      if (this.config.requireConfirmation && !options.skipConfirmation) {
+      if (this.config.requireConfirmation && !options.skipConfirmation && !options.rehearse) {
         const confirmed = await this.requestConfirmation();
         if (!confirmed) {
           this.ui.cancelled();
-          return this.createSummary(results, scanResult.ignoredFiles, startTime, false);
+          return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
         }
       }
 
-      // Create executor and connect
-      this.executor = new SqlExecutor(
-        connectionConfig,
-        this.logger,
-        this.config.onNotice
-          ? (msg) => {
-              this.ui.sqlNotice(msg);
-              this.config.onNotice?.(msg);
-            }
-          : (msg) => this.ui.sqlNotice(msg)
-      );
+      const executor = await this.connect(connectionConfig);
+      await this.checkProductionGuard(executor, options);
+      await this.acquireAdvisoryLock(executor);
+      if (this.abortRequested) {
+        return await this.cancelRun(results, ignoredFiles, startTime, extras);
+      }
+      // A rehearsal runs in one transaction whatever the mode, so it can all be rolled back
+      const perFile = this.config.transactionMode === 'per-file' && !options.rehearse;
 
-      this.ui.newline();
-      this.ui.info('Connecting to database...');
-      await this.executor.connect();
-      await this.executor.beginTransaction();
-
-      // Set up SIGINT handler for graceful shutdown during execution
-      this.abortRequested = false;
-      const sigintHandler = () => {
-        if (!this.abortRequested) {
-          this.abortRequested = true;
-          this.ui.newline();
-          this.ui.warning('Interrupt received - stopping after current file...');
-        }
+      // Files committed so far, and files waiting for the open transaction to commit
+      const committedFiles: string[] = [];
+      const uncommittedFiles: string[] = [];
+      extras.committedFiles = committedFiles;
+
+      const commitOpenTransaction = async () => {
+        await executor.commit();
+        committedFiles.push(...uncommittedFiles.splice(0));
       };
-      process.on('SIGINT', sigintHandler);
+
+      // Single mode: one transaction for the whole run
+      // Per-file mode: each file opens and commits its own transaction
+      if (!perFile) {
+        await executor.beginTransaction();
+      }
+
+      // Taken before anything runs, inside the run's transaction
+      const snapshotBefore = this.config.schemaDiff
+        ? await takeCatalogSnapshot(executor, this.getSnapshotExclusions())
+        : null;
+
+      // After the snapshot, so a schema diff shows what the reset dropped
+      if (options.reset) {
+        // Per-file mode has no run transaction: the reset commits on its own first
+        if (perFile) {
+          await executor.beginTransaction();
+        }
+        extras.reset = await resetSchemas(executor, this.config.resetSchemas, {
+          dropDependents: options.dropDependents,
+        });
+        if (perFile) {
+          await executor.commit();
+        }
+        this.ui.success(`Reset schemas: ${extras.reset.schemas.join(', ')}`);
+        if (extras.reset.droppedDependents.length > 0) {
+          this.ui.warning(`Dropped with the reset: ${extras.reset.droppedDependents.join(', ')}`);
+        }
+      }
+
+      if (history) {
+        await history.ensureTable();
+        if (options.reset) {
+          await history.clear();
+        }
+      }
 
       this.ui.newline();
       this.ui.info('Executing files...');
       this.ui.newline();
 
-      try {
-        // Execute files
-        for (let i = 0; i < filesToExecute.length; i++) {
-          // Check if abort was requested before starting next file
+      // Execute files
+      for (let i = 0; i < filesToExecute.length; i++) {
+        // Check if abort was requested before starting next file
+        if (this.abortRequested) {
+          return await this.cancelRun(results, ignoredFiles, startTime, extras);
+        }
+
+        const filePath = filesToExecute[i];
+        const fileName = fileNames[i];
+
+        // Callback before file
+        this.config.onBeforeFile?.(fileName, i, filesToExecute.length);
+        this.emitter.emit({ type: 'file_start', fileName, index: i, total: filesToExecute.length });
+
+        const noTransaction = noTransactionFiles.has(filePath);
+
+        if (noTransaction && executor.inTransaction) {
+          // Commit the work so far - the file can't run inside BEGIN
+          const pendingCount = uncommittedFiles.length;
+          await commitOpenTransaction();
+          if (pendingCount > 0) {
+            this.ui.info(`Committed ${pendingCount} file(s) before ${fileName}`);
+          }
+        } else if (!noTransaction && !executor.inTransaction) {
+          await executor.beginTransaction();
+        }
+
+        const result = await executor.executeFile(filePath, i, {
+          transaction: !noTransaction,
+          timeouts: fileDirectives.get(filePath)!.timeouts,
+          variables: this.config.variables,
+          template: this.rendersTemplate(fileDirectives.get(filePath)!),
+          fileName,
+          captureResults: this.config.captureResults,
+          maxResultRows: this.config.maxResultRows,
+          batchStatements: this.config.batchStatements,
+          signal: this.runAbort?.signal,
+        });
+        results.push(result);
+
+        // Record in history (inside the transaction, so it rolls back with the files)
+        if (history && result.success) {
           if (this.abortRequested) {
-            this.ui.warning('Execution aborted by user (Ctrl+C)');
-            await this.executor.rollback();
-            return this.createSummary(results, scanResult.ignoredFiles, startTime, false);
+            return await this.cancelRun(results, ignoredFiles, startTime, extras);
           }
+          result.checksum = checksums.get(fileName);
+          await history.record({
+            fileName,
+            checksum: result.checksum!,
+            durationMs: result.durationMs,
+            runnerVersion: VERSION,
+          });
+        }
 
-          const filePath = filesToExecute[i];
-          const fileName = fileNames[i];
-
-          // Callback before file
-          this.config.onBeforeFile?.(fileName, i, filesToExecute.length);
-
-          const result = await this.executor.executeFile(filePath, i);
-          results.push(result);
-
-          // Show result
-          this.ui.fileResultSimple(
-            {
-              fileName,
-              success: result.success,
-              durationMs: result.durationMs,
-              error: result.error?.message,
-            },
-            i,
-            filesToExecute.length
-          );
+        // Show result
+        this.ui.fileResultSimple(
+          {
+            fileName,
+            success: result.success,
+            durationMs: result.durationMs,
+            error: result.error?.message,
+            nonTransactional: result.nonTransactional,
+            rowCounts: result.rowCounts,
+          },
+          i,
+          filesToExecute.length
+        );
+        for (const resultSet of result.resultSets ?? []) {
+          this.ui.resultSet(resultSet);
+        }
 
-          // Callback after file
-          this.config.onAfterFile?.(result);
+        // Callback after file
+        this.config.onAfterFile?.(result);
+        this.emitter.emit({ type: 'file_complete', result });
 
-          // Stop on failure
-          if (!result.success) {
-            this.ui.newline();
-            this.ui.error({
-              message: result.error?.message ?? 'Unknown error',
-              code: result.error?.code,
-              detail: result.error?.detail,
-              hint: result.error?.hint,
-              fileName,
-            });
-
-            if (this.config.logDirectory) {
-              this.ui.info(`Full error details saved to: ${this.config.logDirectory}/sql-runner-error.log`);
+        // The cancelled statement failed the file: that's the cancellation, not an error
+        if (this.abortRequested && !result.success) {
+          return await this.cancelRun(results, ignoredFiles, startTime, extras);
+        }
+
+        // Stop on failure
+        if (!result.success) {
+          this.ui.newline();
+          this.ui.error({
+            message: result.error?.message ?? 'Unknown error',
+            code: result.error?.code,
+            detail: result.error?.detail,
+            hint: result.error?.hint,
+            fileName,
+            statement: result.error?.statement,
+            timeout: result.error?.timeout,
+          });
+
+          if (this.config.logDirectory) {
+            this.ui.info(`Full error details saved to: ${this.config.logDirectory}/sql-runner-error.log`);
+          }
+
+          // The file was rolled back to its savepoint (or never had one), so the run can go on
+          if (this.config.continueOnError && (result.rollbackSuccess || result.nonTransactional)) {
+            if (perFile && executor.inTransaction) {
+              await executor.rollback();
             }
-            await this.executor.rollback();
-            return this.createSummary(results, scanResult.ignoredFiles, startTime, false);
+            this.ui.warning(`Continuing after failure in ${fileName}`);
+            this.ui.newline();
+            continue;
           }
+
+          if (executor.inTransaction) {
+            await executor.rollback();
+          }
+
+          if (result.nonTransactional) {
+            this.ui.warning(
+              `${fileName} ran outside a transaction - statements before the error were not rolled back`
+            );
+          }
+          if (committedFiles.length > 0) {
+            this.ui.warning(
+              `Files committed before the failure were kept: ${committedFiles.join(', ')}`
+            );
+          }
+          return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
         }
 
-        // Check abort one more time after all files
-        if (this.abortRequested) {
-          this.ui.warning('Execution aborted by user (Ctrl+C)');
-          await this.executor.rollback();
-          return this.createSummary(results, scanResult.ignoredFiles, startTime, false);
+        if (result.nonTransactional) {
+          committedFiles.push(fileName);
+        } else {
+          uncommittedFiles.push(fileName);
+          if (perFile) {
+            await commitOpenTransaction();
+          }
+        }
+      }
+
+      // Check abort one more time after all files
+      if (this.abortRequested && executor.inTransaction) {
+        return await this.cancelRun(results, ignoredFiles, startTime, extras);
+      }
+
+      // With continueOnError, failures are only rolled back here (unless commitOnError)
+      const failures = results.filter((r) => !r.success);
+      const succeeded = failures.length === 0 || this.config.commitOnError;
+      const committed = succeeded && !options.rehearse;
+
+      // The second snapshot sees the run's changes before they are committed
+      if (snapshotBefore && succeeded) {
+        try {
+          const snapshotAfter = await takeCatalogSnapshot(executor, this.getSnapshotExclusions());
+          extras.schemaDiff = diffCatalogSnapshots(snapshotBefore, snapshotAfter);
+        } catch (error) {
+          this.ui.warning(
+            `Could not read the schema changes: ${error instanceof Error ? error.message : String(error)}`
+          );
         }
-      } finally {
-        // Always remove SIGINT handler
-        process.removeListener('SIGINT', sigintHandler);
       }
 
-      // All successful - commit
-      await this.executor.commit();
+      if (executor.inTransaction) {
+        if (committed) {
+          await commitOpenTransaction();
+        } else {
+          await executor.rollback();
+        }
+      }
 
-      const summary = this.createSummary(results, scanResult.ignoredFiles, startTime, true);
+      const summary = this.createSummary(results, scanResult.ignoredFiles, startTime, committed, extras);
       this.config.onComplete?.(summary);
 
+      if (failures.length > 0) {
+        this.ui.failureList(
+          failures.map((f) => ({
+            fileName: f.fileName,
+            message: f.error?.message ?? 'Unknown error',
+            line: f.error?.statement?.startLine,
+            sourceFile: f.error?.statement?.sourceFile,
+          }))
+        );
+      }
+
+      if (summary.schemaDiff) {
+        this.ui.schemaDiff(summary.schemaDiff);
+      }
+
       // Show summary
       this.ui.summary({
         totalFiles: summary.totalFiles,
@@ -295,62 +711,673 @@ export class SqlRunner {
         failedFiles: summary.failedFiles,
         totalDurationMs: summary.totalDurationMs,
         committed: summary.committed,
+        committedFiles: summary.committedFiles.length,
+        rehearsal: summary.rehearsal,
       });
 
       return summary;
     } catch (error) {
-      // Handle unexpected errors
-      const errorMessage = getErrorMessage(error);
-
-      // Extract PostgreSQL error details if available
-      const pgError = error as Error & {
-        code?: string;
-        detail?: string;
-        hint?: string;
-      };
+      // The cancel stopped a wait, or landed on one of the runner's own queries
+      // (a history insert, a savepoint release, the commit) instead of a file's
+      if (this.abortRequested && isCancellation(error)) {
+        return await this.cancelRun(results, ignoredFiles, startTime, extras);
+      }
+      await this.handleUnexpectedError(error);
+      throw error;
+    } finally {
+      stopListening();
+      // Always disconnect
+      await this.disconnect();
+    }
+  }
 
-      const sqlError = {
-        message: errorMessage,
-        code: pgError.code,
-        detail: pgError.detail,
-        hint: pgError.hint,
-        stack: error instanceof Error ? error.stack : undefined,
-      };
+  /**
+   * Listens for Ctrl+C, SIGTERM and the abort signal until the returned function is called
+   *
+   * The first one aborts the run and cancels the running statement from a side
+   * connection; a second Ctrl+C or SIGTERM exits without waiting. With
+   * `handleSignals` off, only the abort signal is listened for.
+   */
+  private listenForCancel(signal?: AbortSignal): () => void {
+    this.abortRequested = false;
+    const runAbort = new AbortController();
+    this.runAbort = runAbort;
+
+    const requestCancel = (reason: string) => {
+      this.abortRequested = true;
+      runAbort.abort();
+      this.ui.newline();
+      this.ui.warning(`${reason} - cancelling the run...`);
+      this.executor
+        ?.cancelRunningQuery()
+        .catch((error) =>
+          this.ui.warning(`Could not cancel the running statement: ${getErrorMessage(error)}`)
+        );
+    };
+    const signalHandler = (received: NodeJS.Signals) => {
+      if (this.abortRequested) {
+        this.ui.errorMessage(
+          `${received} received again - exiting. The server rolls back the open transaction`
+        );
+        process.exit(received === 'SIGINT' ? 130 : 143);
+      }
+      requestCancel(received === 'SIGINT' ? 'Interrupt received' : 'SIGTERM received');
+    };
+    const abortHandler = () => {
+      if (!this.abortRequested) {
+        requestCancel('Run aborted');
+      }
+    };
+
+    if (this.config.handleSignals) {
+      process.on('SIGINT', signalHandler);
+      process.on('SIGTERM', signalHandler);
+    }
+    signal?.addEventListener('abort', abortHandler);
+    if (signal?.aborted) {
+      abortHandler();
+    }
+
+    return () => {
+      process.removeListener('SIGINT', signalHandler);
+      process.removeListener('SIGTERM', signalHandler);
+      signal?.removeEventListener('abort', abortHandler);
+      this.runAbort = null;
+    };
+  }
+
+  /**
+   * Stops a cancelled run: uncommitted work is rolled back, committed files are kept
+   */
+  private async cancelRun(
+    results: FileExecutionResult[],
+    ignoredFiles: string[],
+    startTime: number,
+    extras: Partial<ExecutionSummary>
+  ): Promise<ExecutionSummary> {
+    if (!this.executor) {
+      this.ui.cancelled();
+    } else {
+      if (this.executor.inTransaction) {
+        await this.executor.rollback();
+      }
+      this.ui.warning('Execution cancelled - uncommitted changes were rolled back');
+    }
+    if (extras.committedFiles?.length) {
+      this.ui.warning(
+        `Files committed before the cancellation were kept: ${extras.committedFiles.join(', ')}`
+      );
+    }
+    extras.cancelled = true;
+    return this.createSummary(results, ignoredFiles, startTime, false, extras);
+  }
+
+  /**
+   * Reverts files by running their down-scripts (`01_tables.down.sql`) in reverse order
+   *
+   * Down-scripts get the same savepoint and transaction handling as a forward
+   * run: one transaction for the whole revert, or one per file in per-file mode.
+   * With history tracking, only applied files can be reverted and a reverted
+   * file's history is removed, so it is pending again.
+   *
+   * @param options - Files to revert (`last` or `from`/`to`) and run options
+   * @returns Execution summary; results are named after the down-scripts
+   * @throws Error if a selected file has no down-script
+   */
+  async revert(options: RevertOptions): Promise<ExecutionSummary> {
+    return this.emitOutcome(() => this.executeRevert(options));
+  }
+
+  private async executeRevert(options: RevertOptions): Promise<ExecutionSummary> {
+    const startTime = Date.now();
+    const results: FileExecutionResult[] = [];
+    const extras: Partial<ExecutionSummary> = {};
+
+    const stopListening = this.listenForCancel(options.signal);
+    let ignoredFiles: string[] = [];
+
+    try {
+      const connectionConfig = parseDatabaseUrl(this.config.databaseUrl, this.config.ssl);
 
-      this.config.onError?.(sqlError);
+      this.ui.banner();
+      this.ui.devWarning();
 
-      this.ui.error({
-        message: errorMessage,
-        code: pgError.code,
-        detail: pgError.detail,
-        hint: pgError.hint,
+      const scanResult = scanSqlFiles(this.config.sqlDirectory, {
+        filePattern: this.config.filePattern,
+        ignorePattern: this.config.ignorePattern,
+        recursive: this.config.recursive,
+        dataFiles: this.config.dataFiles,
       });
+      ignoredFiles = scanResult.ignoredFiles;
+
+      this.ui.connectionInfo({
+        host: this.getDisplayHost(),
+        directory: this.config.sqlDirectory,
+        fileCount: scanResult.files.length,
+        logDirectory: this.config.logDirectory,
+      });
+
+      // With history tracking, only applied files can be reverted
+      let candidates = scanResult.files;
+      let history: HistoryStore | null = null;
 
-      if (this.config.logDirectory) {
-        this.ui.info(`Full error details saved to: ${this.config.logDirectory}/sql-runner-error.log`);
+      if (this.config.trackHistory) {
+        const executor = await this.connect(connectionConfig);
+        await this.checkProductionGuard(executor, options);
+        await this.acquireAdvisoryLock(executor);
+        if (this.abortRequested) {
+          return await this.cancelRun(results, ignoredFiles, startTime, extras);
+        }
+        history = this.createHistoryStore(executor);
+        const applied = await history.getApplied();
+        candidates = candidates.filter((f) => applied.has(f));
       }
 
-      // Try to rollback
-      if (this.executor) {
-        try {
-          await this.executor.rollback();
-        } catch {
-          this.ui.errorMessage('Failed to rollback transaction');
+      const selected = selectFilesToRevert(candidates, options);
+      if (selected.length === 0) {
+        this.ui.warning('No files to revert');
+        return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
+      }
+
+      const missing = selected.filter((f) => !scanResult.downScripts[f]);
+      if (missing.length > 0) {
+        throw new Error(
+          `No down-script for: ${missing.join(', ')} (expected ${missing.map(downScriptName).join(', ')})`
+        );
+      }
+
+      // Down-scripts run newest first
+      const revertedFiles = [...selected].reverse();
+      const fileNames = revertedFiles.map(downScriptName);
+      const filesToExecute = revertedFiles.map((f) => scanResult.downScripts[f]);
+
+      this.ui.fileList(fileNames, 'Down-scripts to run');
+
+      // Directives and templates are checked before anything runs, as in run()
+      const fileDirectives = new Map(filesToExecute.map((f) => [f, readFileDirectives(f)]));
+      for (const filePath of filesToExecute.filter((f) => !isDataFile(f))) {
+        readPsqlFile(filePath, {
+          variables: this.config.variables,
+          template: this.rendersTemplate(fileDirectives.get(filePath)!)
+            ? { variables: this.config.variables }
+            : undefined,
+        });
+      }
+
+      if (options.dryRun) {
+        this.ui.dryRun();
+        return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
+      }
+
+      if (this.config.requireConfirmation && !options.skipConfirmation) {
+        const confirmed = await this.requestConfirmation();
+        if (!confirmed) {
+          this.ui.cancelled();
+          return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
+        }
+      }
+
+      const executor = await this.connect(connectionConfig);
+      await this.checkProductionGuard(executor, options);
+      await this.acquireAdvisoryLock(executor);
+      if (this.abortRequested) {
+        return await this.cancelRun(results, ignoredFiles, startTime, extras);
+      }
+      const perFile = this.config.transactionMode === 'per-file';
+
+      const committedFiles: string[] = [];
+      const uncommittedFiles: string[] = [];
+      extras.committedFiles = committedFiles;
+
+      const commitOpenTransaction = async () => {
+        await executor.commit();
+        committedFiles.push(...uncommittedFiles.splice(0));
+      };
+
+      if (!perFile) {
+        await executor.beginTransaction();
+      }
+
+      this.ui.newline();
+      this.ui.info('Reverting files...');
+      this.ui.newline();
+
+      for (let i = 0; i < filesToExecute.length; i++) {
+        if (this.abortRequested) {
+          return await this.cancelRun(results, ignoredFiles, startTime, extras);
+        }
+
+        const filePath = filesToExecute[i];
+        const fileName = fileNames[i];
+        const directives = fileDirectives.get(filePath)!;
+
+        this.config.onBeforeFile?.(fileName, i, filesToExecute.length);
+        this.emitter.emit({ type: 'file_start', fileName, index: i, total: filesToExecute.length });
+
+        if (directives.noTransaction && executor.inTransaction) {
+          await commitOpenTransaction();
+        } else if (!directives.noTransaction && !executor.inTransaction) {
+          await executor.beginTransaction();
+        }
+
+        const result = await executor.executeFile(filePath, i, {
+          transaction: !directives.noTransaction,
+          timeouts: directives.timeouts,
+          variables: this.config.variables,
+          template: this.rendersTemplate(directives),
+          fileName,
+          captureResults: this.config.captureResults,
+          maxResultRows: this.config.maxResultRows,
+          batchStatements: this.config.batchStatements,
+          signal: this.runAbort?.signal,
+        });
+        results.push(result);
+
+        // Forget the reverted file (inside the transaction, so it rolls back with it)
+        if (history && result.success) {
+          if (this.abortRequested) {
+            return await this.cancelRun(results, ignoredFiles, startTime, extras);
+          }
+          await history.remove(revertedFiles[i]);
+        }
+
+        this.ui.fileResultSimple(
+          {
+            fileName,
+            success: result.success,
+            durationMs: result.durationMs,
+            error: result.error?.message,
+            nonTransactional: result.nonTransactional,
+            rowCounts: result.rowCounts,
+          },
+          i,
+          filesToExecute.length
+        );
+        for (const resultSet of result.resultSets ?? []) {
+          this.ui.resultSet(resultSet);
+        }
+
+        this.config.onAfterFile?.(result);
+        this.emitter.emit({ type: 'file_complete', result });
+
+        // The cancelled statement failed the file: that's the cancellation, not an error
+        if (this.abortRequested && !result.success) {
+          return await this.cancelRun(results, ignoredFiles, startTime, extras);
+        }
+
+        if (!result.success) {
+          this.ui.newline();
+          this.ui.error({
+            message: result.error?.message ?? 'Unknown error',
+            code: result.error?.code,
+            detail: result.error?.detail,
+            hint: result.error?.hint,
+            fileName,
+            statement: result.error?.statement,
+            timeout: result.error?.timeout,
+          });
+
+          if (executor.inTransaction) {
+            await executor.rollback();
+          }
+          if (committedFiles.length > 0) {
+            this.ui.warning(
+              `Down-scripts committed before the failure were kept: ${committedFiles.join(', ')}`
+            );
+          }
+          return this.createSummary(results, scanResult.ignoredFiles, startTime, false, extras);
+        }
+
+        if (result.nonTransactional) {
+          committedFiles.push(fileName);
+        } else {
+          uncommittedFiles.push(fileName);
+          if (perFile) {
+            await commitOpenTransaction();
+          }
         }
       }
 
+      if (this.abortRequested && executor.inTransaction) {
+        return await this.cancelRun(results, ignoredFiles, startTime, extras);
+      }
+      if (executor.inTransaction) {
+        await commitOpenTransaction();
+      }
+
+      const summary = this.createSummary(results, scanResult.ignoredFiles, startTime, true, extras);
+      this.config.onComplete?.(summary);
+
+      this.ui.summary({
+        totalFiles: summary.totalFiles,
+        successfulFiles: summary.successfulFiles,
+        failedFiles: summary.failedFiles,
+        totalDurationMs: summary.totalDurationMs,
+        committed: summary.committed,
+        committedFiles: summary.committedFiles.length,
+      });
+
+      return summary;
+    } catch (error) {
+      // As in run(), a cancel that stopped a wait or landed on the history delete
+      if (this.abortRequested && isCancellation(error)) {
+        return await this.cancelRun(results, ignoredFiles, startTime, extras);
+      }
+      await this.handleUnexpectedError(error);
       throw error;
     } finally {
-      // Always disconnect
-      if (this.executor) {
-        await this.executor.disconnect();
+      stopListening();
+      await this.disconnect();
+    }
+  }
+
+  /**
+   * Compares the SQL directory against the history table
+   * Shows applied, pending and modified files without executing anything
+   *
+   * @returns Status report for every file
+   */
+  async status(): Promise<HistoryStatusReport> {
+    const connectionConfig = parseDatabaseUrl(this.config.databaseUrl, this.config.ssl);
+
+    this.ui.banner();
+
+    const scanResult = scanSqlFiles(this.config.sqlDirectory, {
+      filePattern: this.config.filePattern,
+      ignorePattern: this.config.ignorePattern,
+      recursive: this.config.recursive,
+      dataFiles: this.config.dataFiles,
+    });
+
+    this.ui.connectionInfo({
+      host: this.getDisplayHost(),
+      directory: this.config.sqlDirectory,
+      fileCount: scanResult.files.length,
+    });
+
+    try {
+      const executor = await this.connect(connectionConfig);
+      const history = this.createHistoryStore(executor);
+      const report = compareWithHistory(
+        scanResult.files,
+        scanResult.filePaths,
+        await history.getApplied()
+      );
+
+      this.ui.historyStatus({
+        ...report,
+        files: report.files.map((f) => ({
+          fileName: f.fileName,
+          status: f.status,
+          appliedAt: f.lastApplied?.appliedAt,
+        })),
+      });
+      return report;
+    } finally {
+      await this.disconnect();
+    }
+  }
+
+  /**
+   * Subscribes to one type of runner event
+   *
+   * @example
+   * ```ts
+   * const off = runner.on('file_complete', ({ result, timestamp }) => {
+   *   console.log(`${timestamp.toISOString()} ${result.fileName}`);
+   * });
+   * ```
+   *
+   * @returns Unsubscribes the handler
+   */
+  on<T extends SqlRunnerEventType>(type: T, handler: SqlRunnerEventHandler<T>): () => void {
+    return this.emitter.on(type, handler);
+  }
+
+  /**
+   * Iterates over every runner event until the next run or revert completes or fails
+   * Call it before `run()`, so no event is missed
+   *
+   * @example
+   * ```ts
+   * const events = runner.events();
+   * const done = runner.run();
+   * for await (const event of events) {
+   *   console.log(event.timestamp, event.type);
+   * }
+   * await done;
+   * ```
+   */
+  events(): AsyncIterableIterator<SqlRunnerEvent> {
+    return this.emitter.events();
+  }
+
+  /**
+   * Emits the `complete` or `error` event that ends a run or revert
+   */
+  private async emitOutcome(execute: () => Promise<ExecutionSummary>): Promise<ExecutionSummary> {
+    try {
+      const summary = await execute();
+      this.emitter.emit({ type: 'complete', summary });
+      return summary;
+    } catch (error) {
+      this.emitter.emit({ type: 'error', error: toRunnerError(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Reports an error that aborted a run and rolls back the open transaction
+   */
+  private async handleUnexpectedError(error: unknown): Promise<void> {
+    const sqlError = toRunnerError(error);
+
+    this.config.onError?.(sqlError);
+
+    this.ui.error({
+      message: sqlError.message,
+      code: sqlError.code,
+      detail: sqlError.detail,
+      hint: sqlError.hint,
+    });
+
+    if (this.config.logDirectory) {
+      this.ui.info(`Full error details saved to: ${this.config.logDirectory}/sql-runner-error.log`);
+    }
+
+    // Try to rollback
+    if (this.executor?.inTransaction) {
+      try {
+        await this.executor.rollback();
+      } catch {
+        this.ui.errorMessage('Failed to rollback transaction');
+      }
+    }
+  }
+
+  /**
+   * Creates the executor and connects, reusing an existing connection
+   */
+  private async connect(connectionConfig: ConnectionConfig): Promise<SqlExecutor> {
+    if (this.executor) {
+      return this.executor;
+    }
+    this.runAbort?.signal.throwIfAborted();
+
+    this.executor = new SqlExecutor(
+      connectionConfig,
+      this.logger,
+      (msg) => {
+        this.ui.sqlNotice(msg);
+        this.config.onNotice?.(msg);
+        this.emitter.emit({ type: 'notice', message: msg });
+      },
+      (change) => this.emitter.emit({ type: `transaction_${change}` })
+    );
+
+    this.ui.newline();
+    this.ui.info('Connecting to database...');
+    await this.executor.connect({
+      retries: this.config.connectRetries,
+      initialDelayMs: timeoutToMs(this.config.connectRetryDelay),
+      databaseUrl: this.config.databaseUrl,
+      onRetry: (retry) => {
+        this.ui.connectRetry(retry);
+        this.emitter.emit({
+          type: 'connect_retry',
+          attempt: retry.attempt,
+          maxAttempts: retry.maxAttempts,
+          delayMs: retry.delayMs,
+          reason: retry.reason,
+        });
+      },
+      signal: this.runAbort?.signal,
+    });
+    this.emitter.emit({ type: 'connected', host: connectionConfig.host });
+    await this.executor.setSessionTimeouts(this.getSessionTimeouts());
+    return this.executor;
+  }
+
+  /**
+   * Refuses a production-like database unless the run allows production and
+   * the project ref (or database name) is typed at the prompt or given ahead
+   * Checked once per connection, so the database's own markers count too
+   */
+  private async checkProductionGuard(
+    executor: SqlExecutor,
+    options: Pick<RunOptions, 'allowProduction' | 'productionConfirmation'>
+  ): Promise<void> {
+    if (!this.config.productionGuard || this.productionConfirmed) {
+      return;
+    }
+
+    const assessment = assessProductionTarget(this.config.databaseUrl, {
+      allow: this.config.productionAllowList,
+      deny: this.config.productionDenyList,
+    });
+    const reasons = [...assessment.reasons, ...(await findProductionMarkers(executor))];
+    if (reasons.length === 0) {
+      this.productionConfirmed = true;
+      return;
+    }
+
+    this.ui.productionWarning({ host: this.getDisplayHost(), reasons });
+    if (!options.allowProduction) {
+      throw new Error(
+        `Refusing to run against a production database (${reasons.join('; ')}). ` +
+          'Override with --allow-production (allowProduction) and confirm the project ref'
+      );
+    }
+
+    const expected = assessment.confirmationText;
+    const typed =
+      options.productionConfirmation ?? (await this.requestProductionConfirmation(expected));
+    if (typed !== expected) {
+      throw new Error(`Refusing to run against a production database: "${expected}" was not confirmed`);
+    }
+    this.productionConfirmed = true;
+  }
+
+  /**
+   * Takes the advisory lock if enabled and not already held
+   * Another runner holding it fails the run, or waits up to advisoryLockWait
+   */
+  private async acquireAdvisoryLock(executor: SqlExecutor): Promise<void> {
+    if (!this.config.advisoryLock || this.advisoryLock?.isHeld) {
+      return;
+    }
+
+    const key = this.config.advisoryLockKey ?? defaultAdvisoryLockKey(this.config.sqlDirectory);
+    const waitMs =
+      this.config.advisoryLockWait !== null ? timeoutToMs(this.config.advisoryLockWait) : 0;
+
+    this.advisoryLock = new AdvisoryLock(executor, key);
+    await this.advisoryLock.acquire({
+      waitMs,
+      onWait: (holder) =>
+        this.ui.warning(
+          `Advisory lock "${key}" is busy${holder ? ` - held by ${describeLockHolder(holder)}` : ''}. Waiting up to ${formatTimeout(this.config.advisoryLockWait!)}...`
+        ),
+      signal: this.runAbort?.signal,
+    });
+    this.ui.info(`Acquired advisory lock "${key}"`);
+  }
+
+  /**
+   * Closes the connection if one is open
+   * Releases the advisory lock first (closing the session would release it anyway)
+   */
+  private async disconnect(): Promise<void> {
+    if (this.advisoryLock) {
+      try {
+        await this.advisoryLock.release();
+      } catch {
+        // Ignore - the lock goes away with the session
       }
+      this.advisoryLock = null;
     }
+
+    if (this.executor) {
+      await this.executor.disconnect();
+      this.executor = null;
+    }
+    this.productionConfirmed = false;
+  }
+
+  /**
+   * Collects the configured session timeouts
+   */
+  private getSessionTimeouts(): SessionTimeouts {
+    const timeouts: SessionTimeouts = {};
+    if (this.config.statementTimeout !== null) {
+      timeouts.statementTimeout = this.config.statementTimeout;
+    }
+    if (this.config.lockTimeout !== null) {
+      timeouts.lockTimeout = this.config.lockTimeout;
+    }
+    if (this.config.idleInTransactionTimeout !== null) {
+      timeouts.idleInTransactionTimeout = this.config.idleInTransactionTimeout;
+    }
+    return timeouts;
+  }
+
+  /**
+   * Whether a file's `{{ ... }}` placeholders are rendered: with `templates`
+   * for every file, or with a `-- sql-runner: template` header
+   */
+  private rendersTemplate(directives: FileDirectives): boolean {
+    return this.config.templates || directives.template;
+  }
+
+  /**
+   * Schemas left out of catalog snapshots besides the system schemas
+   * The history table changes on every run, so it isn't reported
+   */
+  private getSnapshotExclusions(): string[] {
+    return this.config.trackHistory ? [this.config.historySchema] : [];
+  }
+
+  /**
+   * Creates the history store for the configured table
+   */
+  private createHistoryStore(executor: SqlExecutor): HistoryStore {
+    return new HistoryStore(executor, {
+      schema: this.config.historySchema,
+      table: this.config.historyTable,
+    });
+  }
+
+  /**
+   * Extracts the host from the masked database URL for display
+   */
+  private getDisplayHost(): string {
+    const maskedUrl = maskPassword(this.config.databaseUrl);
+    const hostMatch = maskedUrl.match(/@([^:/]+)/);
+    return hostMatch ? hostMatch[1] : maskedUrl;
   }
 
   /**
    * Requests user confirmation before execution
-   * Handles readline errors and SIGINT gracefully
    */
   private async requestConfirmation(): Promise<boolean> {
     // Check if stdin is a TTY (interactive terminal)
@@ -359,14 +1386,45 @@ export class SqlRunner {
       return false;
     }
 
+    this.ui.newline();
+    this.ui.confirmationWarning({ perFile: this.config.transactionMode === 'per-file' });
+
+    const answer = await this.askQuestion(
+      `${c.muted('Type')} ${c.highlight(`"${this.config.confirmationPhrase}"`)} ${c.muted('to proceed:')} `
+    );
+    return answer === this.config.confirmationPhrase;
+  }
+
+  /**
+   * Asks for the project ref (or database name) of a production database
+   *
+   * @returns What was typed, or null without an interactive terminal
+   */
+  private async requestProductionConfirmation(expected: string): Promise<string | null> {
+    if (!process.stdin.isTTY) {
+      this.ui.warning(
+        'Non-interactive mode detected. Give the project ref with --confirm-project-ref (productionConfirmation).'
+      );
+      return null;
+    }
+
+    return this.askQuestion(
+      `${c.muted('Type the project ref')} ${c.highlight(`"${expected}"`)} ${c.muted('to run against production:')} `
+    );
+  }
+
+  /**
+   * Asks a question on the terminal
+   * Handles readline errors and SIGINT gracefully
+   *
+   * @returns The answer, or null if the prompt was interrupted or closed
+   */
+  private askQuestion(question: string): Promise<string | null> {
     const rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
     });
 
-    this.ui.newline();
-    this.ui.confirmationWarning();
-
     return new Promise((resolve) => {
       let answered = false;
 
@@ -375,17 +1433,17 @@ export class SqlRunner {
         if (!answered) {
           answered = true;
           rl.close();
-          resolve(false);
+          resolve(null);
         }
       });
 
-      // Handle SIGINT (Ctrl+C) during confirmation
+      // Handle SIGINT (Ctrl+C) during the prompt
       rl.on('SIGINT', () => {
         if (!answered) {
           answered = true;
           this.ui.newline();
           rl.close();
-          resolve(false);
+          resolve(null);
         }
       });
 
@@ -393,20 +1451,17 @@ export class SqlRunner {
       rl.on('close', () => {
         if (!answered) {
           answered = true;
-          resolve(false);
+          resolve(null);
         }
       });
 
-      rl.question(
-        `${c.muted('Type')} ${c.highlight(`"${this.config.confirmationPhrase}"`)} ${c.muted('to proceed:')} `,
-        (answer) => {
-          if (!answered) {
-            answered = true;
-            rl.close();
-            resolve(answer === this.config.confirmationPhrase);
-          }
+      rl.question(question, (answer) => {
+        if (!answered) {
+          answered = true;
+          rl.close();
+          resolve(answer);
         }
-      );
+      });
     });
   }
 
@@ -417,7 +1472,8 @@ export class SqlRunner {
     results: FileExecutionResult[],
     ignoredFiles: string[],
     startTime: number,
-    committed: boolean
+    committed: boolean,
+    extras: Partial<ExecutionSummary> = {}
   ): ExecutionSummary {
     const successfulFiles = results.filter((r) => r.success).length;
     const failedFiles = results.filter((r) => !r.success).length;
@@ -430,7 +1486,10 @@ export class SqlRunner {
       results,
       allSuccessful: failedFiles === 0,
       committed,
+      committedFiles: committed ? results.filter((r) => r.success).map((r) => r.fileName) : [],
+      failures: results.filter((r) => !r.success),
       ignoredFiles,
+      ...extras,
     };
   }
 }
@@ -0,0 +1,20 @@
+/**
+ * Waits for `ms`, or until the signal aborts
+ *
+ * Resolves either way, so callers check `signal.aborted` afterwards. An
+ * already aborted signal resolves on the next tick.
+ *
+ * @param ms - Milliseconds to wait
+ * @param signal - Signal that ends the wait early
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, signal?.aborted ? 0 : ms);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,267 @@
+/**
+ * A single statement found in a SQL script
+ */
+export interface SqlStatement {
+  /** Statement text, from its first token up to and including the terminating semicolon */
+  text: string;
+  /** 0-based character offset of the statement in the script */
+  startOffset: number;
+  /** 1-based line where the statement starts */
+  startLine: number;
+  /** 1-based line where the statement ends */
+  endLine: number;
+}
+
+const IDENTIFIER_CHAR = /[A-Za-z0-9_$]/;
+const DOLLAR_TAG = /\$([A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/y;
+
+/**
+ * Splits a SQL script into individual statements
+ *
+ * Semicolons only end a statement at the top level, so the splitter skips over:
+ * - `--` line comments and nested `/* *\/` block comments
+ * - string literals (`'...'`, `E'...'` with backslash escapes) and quoted identifiers
+ * - dollar-quoted bodies (`$$...$$`, `$fn$...$fn$`)
+ * - parentheses (e.g. multi-statement `CREATE RULE` actions)
+ * - SQL-standard function bodies (`BEGIN ATOMIC ... END`)
+ *
+ * Comments and whitespace between statements are dropped; statements that
+ * contain only comments are not returned.
+ *
+ * @param sql - SQL script content
+ * @returns Statements in script order
+ *
+ * @example
+ * ```ts
+ * const statements = splitSqlStatements('CREATE TABLE a (id int);\nINSERT INTO a VALUES (1);');
+ * console.log(statements.map((s) => s.startLine)); // [1, 2]
+ * ```
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  const length = sql.length;
+
+  let start = -1; // Offset of the current statement's first token
+  let parenDepth = 0;
+  let atomicDepth = 0; // > 0 inside BEGIN ATOMIC ... END
+  let previousWord = '';
+  let i = 0;
+
+  // Line counting advances with the scan, so large seed files stay linear
+  let lineOffset = 0;
+  let line = 1;
+  const lineAt = (offset: number) => {
+    for (; lineOffset < offset; lineOffset++) {
+      if (sql[lineOffset] === '\n') line++;
+    }
+    return line;
+  };
+
+  const pushStatement = (end: number) => {
+    if (start !== -1) {
+      const text = sql.slice(start, end).trimEnd();
+      const startLine = lineAt(start);
+      statements.push({
+        text,
+        startOffset: start,
+        startLine,
+        endLine: startLine + (text.match(/\n/g)?.length ?? 0),
+      });
+    }
+    start = -1;
+    parenDepth = 0;
+    atomicDepth = 0;
+    previousWord = '';
+  };
+
+  while (i < length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? length : newline + 1;
+      continue;
+    }
+
+    // Block comment (nestable in PostgreSQL)
+    if (ch === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+      continue;
+    }
+
+    // Statement terminator (a lone semicolon is an empty statement)
+    if (ch === ';' && parenDepth === 0 && atomicDepth === 0) {
+      pushStatement(i + 1);
+      i++;
+      continue;
+    }
+
+    if (start === -1) {
+      start = i;
+    }
+
+    // String literal, optionally with an E (escape string) prefix
+    if (ch === "'") {
+      const escapes = i > 0 && /[eE]/.test(sql[i - 1]) && !isIdentifierChar(sql[i - 2]);
+      i = skipQuoted(sql, i, "'", escapes);
+      continue;
+    }
+
+    // Quoted identifier
+    if (ch === '"') {
+      i = skipQuoted(sql, i, '"', false);
+      continue;
+    }
+
+    // Dollar quote ($$ or $tag$), but not a $1 parameter or part of an identifier
+    if (ch === '$' && !isIdentifierChar(sql[i - 1])) {
+      DOLLAR_TAG.lastIndex = i;
+      const tag = DOLLAR_TAG.exec(sql);
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        i = close === -1 ? length : close + tag[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '(') {
+      parenDepth++;
+      i++;
+      continue;
+    }
+
+    if (ch === ')') {
+      parenDepth = Math.max(0, parenDepth - 1);
+      i++;
+      continue;
+    }
+
+    // Keywords that open and close BEGIN ATOMIC bodies
+    if (/[A-Za-z_]/.test(ch)) {
+      let end = i + 1;
+      while (end < length && isIdentifierChar(sql[end])) end++;
+      const word = sql.slice(i, end).toUpperCase();
+
+      if (atomicDepth > 0) {
+        if (word === 'CASE' || word === 'BEGIN') {
+          atomicDepth++;
+        } else if (word === 'END') {
+          atomicDepth--;
+        }
+      } else if (word === 'ATOMIC' && previousWord === 'BEGIN') {
+        atomicDepth = 1;
+      }
+
+      previousWord = word;
+      i = end;
+      continue;
+    }
+
+    previousWord = '';
+    i++;
+  }
+
+  // Final statement without a trailing semicolon
+  pushStatement(length);
+
+  return statements;
+}
+
+/**
+ * Finds the end of a string literal, comment or dollar-quoted body
+ *
+ * @param sql - SQL script content
+ * @param offset - Offset to look at
+ * @returns The offset just past the literal, comment or body that starts at
+ *   `offset`, or -1 if none starts there (quoted identifiers don't count)
+ */
+export function skipLiteralOrComment(sql: string, offset: number): number {
+  const ch = sql[offset];
+  const next = sql[offset + 1];
+
+  if (ch === '-' && next === '-') {
+    const newline = sql.indexOf('\n', offset);
+    return newline === -1 ? sql.length : newline + 1;
+  }
+  if (ch === '/' && next === '*') {
+    return skipBlockComment(sql, offset);
+  }
+  if (ch === "'") {
+    const escapes =
+      offset > 0 && /[eE]/.test(sql[offset - 1]) && !isIdentifierChar(sql[offset - 2]);
+    return skipQuoted(sql, offset, "'", escapes);
+  }
+  if (ch === '$' && !isIdentifierChar(sql[offset - 1])) {
+    DOLLAR_TAG.lastIndex = offset;
+    const tag = DOLLAR_TAG.exec(sql);
+    if (tag) {
+      const close = sql.indexOf(tag[0], offset + tag[0].length);
+      return close === -1 ? sql.length : close + tag[0].length;
+    }
+  }
+  return -1;
+}
+
+function isIdentifierChar(ch: string | undefined): boolean {
+  return ch !== undefined && IDENTIFIER_CHAR.test(ch);
+}
+
+/**
+ * Returns the offset just past a quoted string or identifier
+ * A doubled quote character is an escaped quote
+ */
+function skipQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (backslashEscapes && ch === '\\') {
+      i += 2;
+      continue;
+    }
+
+    if (ch === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+
+    i++;
+  }
+
+  return sql.length;
+}
+
+/**
+ * Returns the offset just past a (possibly nested) block comment
+ */
+function skipBlockComment(sql: string, start: number): number {
+  let depth = 0;
+  let i = start;
+
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+
+  return sql.length;
+}
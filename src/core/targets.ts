@@ -0,0 +1,303 @@
+import type { ExecutionSummary, RunOptions, SqlRunnerConfig, SqlRunnerError } from '../types.js';
+import {
+  parseDatabaseUrl,
+  maskPassword,
+  validateDatabaseUrl,
+  toRunnerError,
+} from './connection.js';
+import { SqlRunner } from './runner.js';
+import { createUIRenderer, type UIRenderer } from '../ui/index.js';
+import { VERSION } from '../version.js';
+
+/**
+ * A database to run the SQL directory against
+ */
+export interface RunTarget {
+  /** Label in the output and summaries (default: host/database from the URL) */
+  name?: string;
+  /** PostgreSQL connection URL */
+  databaseUrl: string;
+  /**
+   * This target's project ref (or database name) for `allowProduction`, used
+   * instead of the run's `productionConfirmation`
+   */
+  confirmProjectRef?: string;
+}
+
+/**
+ * Outcome of one target
+ * - succeeded: every file ran (and was committed, unless rehearsed)
+ * - failed: a file failed, or the run threw before finishing
+ * - cancelled: the run was cancelled (Ctrl+C, SIGTERM or the abort signal)
+ * - skipped: not started, because an earlier target was cancelled
+ */
+export type TargetRunStatus = 'succeeded' | 'failed' | 'cancelled' | 'skipped';
+
+/**
+ * What happened on one target
+ */
+export interface TargetRunResult {
+  name: string;
+  /** Database URL with the password masked */
+  databaseUrl: string;
+  status: TargetRunStatus;
+  /** The target's own execution summary (missing when the run threw or was skipped) */
+  summary?: ExecutionSummary;
+  /** Error that aborted the target's run */
+  error?: SqlRunnerError;
+}
+
+/**
+ * Aggregate summary of a multi-target run
+ */
+export interface MultiTargetSummary {
+  /** Results in target order */
+  targets: TargetRunResult[];
+  totalTargets: number;
+  succeededTargets: number;
+  failedTargets: number;
+  totalDurationMs: number;
+  /** Every target succeeded */
+  allSuccessful: boolean;
+}
+
+/**
+ * Configuration for a multi-target run: the runner options shared by every target
+ */
+export type MultiTargetConfig = Omit<SqlRunnerConfig, 'databaseUrl'>;
+
+/**
+ * Options for a multi-target run
+ */
+export interface TargetRunOptions extends RunOptions {
+  /**
+   * Run every target at once, instead of one after the other
+   * Parallel runs print one line per file, prefixed with the target name,
+   * and can't ask for confirmation.
+   * @default false
+   */
+  parallel?: boolean;
+}
+
+/**
+ * Names each target, defaulting to host/database, and checks names are unique
+ *
+ * @throws Error if a URL is invalid or two targets share a name
+ */
+export function resolveTargetNames(targets: RunTarget[]): string[] {
+  if (targets.length === 0) {
+    throw new Error('No targets to run against');
+  }
+
+  const names = targets.map((target) => {
+    const databaseUrl = validateDatabaseUrl(target.databaseUrl);
+    if (target.name) {
+      return target.name;
+    }
+    const config = parseDatabaseUrl(databaseUrl, false);
+    return `${config.host}/${config.database}`;
+  });
+
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new Error(`Duplicate target "${duplicate}". Give each target a unique name`);
+  }
+  return names;
+}
+
+/**
+ * Listens once for the whole run: aborts the returned signal on the first
+ * Ctrl+C or SIGTERM, or when the caller's signal aborts; a second Ctrl+C or
+ * SIGTERM exits without waiting
+ */
+function listenForCancel(
+  ui: UIRenderer,
+  handleSignals: boolean,
+  signal?: AbortSignal
+): { signal: AbortSignal; stop: () => void } {
+  const abort = new AbortController();
+
+  const signalHandler = (received: NodeJS.Signals) => {
+    if (abort.signal.aborted) {
+      ui.errorMessage(
+        `${received} received again - exiting. The servers roll back the open transactions`
+      );
+      process.exit(received === 'SIGINT' ? 130 : 143);
+    }
+    ui.newline();
+    ui.warning(
+      `${received === 'SIGINT' ? 'Interrupt received' : 'SIGTERM received'} - cancelling every target...`
+    );
+    abort.abort();
+  };
+  const abortHandler = () => abort.abort();
+
+  if (handleSignals) {
+    process.on('SIGINT', signalHandler);
+    process.on('SIGTERM', signalHandler);
+  }
+  signal?.addEventListener('abort', abortHandler);
+  if (signal?.aborted) {
+    abortHandler();
+  }
+
+  return {
+    signal: abort.signal,
+    stop: () => {
+      process.removeListener('SIGINT', signalHandler);
+      process.removeListener('SIGTERM', signalHandler);
+      signal?.removeEventListener('abort', abortHandler);
+    },
+  };
+}
+
+/**
+ * Runs the SQL directory against several databases
+ *
+ * Each target gets its own runner, connection and transaction, so a failure on
+ * one target never affects another. Targets run one after the other with the
+ * usual output, or all at once with `parallel`. Cancelling a sequential run
+ * skips the targets that haven't started; a parallel run listens for Ctrl+C
+ * and SIGTERM once, and cancels every target through its abort signal.
+ *
+ * @example
+ * ```ts
+ * const summary = await runTargets(
+ *   { sqlDirectory: './sql', requireConfirmation: false },
+ *   [
+ *     { name: 'alice', databaseUrl: process.env.ALICE_DATABASE_URL! },
+ *     { name: 'shared', databaseUrl: process.env.SHARED_DATABASE_URL! },
+ *   ],
+ *   { parallel: true }
+ * );
+ * ```
+ *
+ * @param config - Runner options shared by every target
+ * @param targets - Databases to run against, in order
+ * @param options - Run options, and whether to run the targets in parallel
+ * @returns Every target's result, and the totals
+ * @throws Error if a target or option is invalid, before anything runs
+ */
+export async function runTargets(
+  config: MultiTargetConfig,
+  targets: RunTarget[],
+  options: TargetRunOptions = {}
+): Promise<MultiTargetSummary> {
+  const startTime = Date.now();
+  const { parallel = false, ...runOptions } = options;
+  const names = resolveTargetNames(targets);
+
+  const requiresConfirmation =
+    (config.requireConfirmation ?? true) &&
+    !runOptions.skipConfirmation &&
+    !runOptions.dryRun &&
+    !runOptions.rehearse;
+  if (parallel && requiresConfirmation) {
+    throw new Error(
+      'Targets running in parallel cannot ask for confirmation. Skip it with -y (skipConfirmation)'
+    );
+  }
+  // Each target confirms its own database, so one typed ref never covers another project
+  const confirmations = targets.map(
+    (target) => target.confirmProjectRef ?? runOptions.productionConfirmation
+  );
+  if (parallel && runOptions.allowProduction && confirmations.includes(undefined)) {
+    throw new Error(
+      'Targets running in parallel cannot ask for the production project ref. Give each target its ref with --confirm-project-ref (confirmProjectRef)'
+    );
+  }
+
+  const ui = createUIRenderer({ name: 'sql-runner', version: VERSION, silent: config.silent });
+
+  // Every runner is created up front, so an invalid option fails before any target runs
+  const runners = targets.map((target, i) => {
+    const runner = new SqlRunner({
+      ...config,
+      databaseUrl: target.databaseUrl,
+      silent: config.silent || parallel,
+      handleSignals: (config.handleSignals ?? true) && !parallel,
+    });
+    if (parallel) {
+      runner.on('file_complete', ({ result }) =>
+        ui.targetFileResult(names[i], {
+          fileName: result.fileName,
+          success: result.success,
+          durationMs: result.durationMs,
+          error: result.error?.message,
+        })
+      );
+    }
+    return runner;
+  });
+
+  const runTarget = async (i: number, signal = runOptions.signal): Promise<TargetRunResult> => {
+    const base = { name: names[i], databaseUrl: maskPassword(targets[i].databaseUrl) };
+    try {
+      const summary = await runners[i].run({
+        ...runOptions,
+        productionConfirmation: confirmations[i],
+        signal,
+      });
+      const status: TargetRunStatus = summary.cancelled
+        ? 'cancelled'
+        : summary.allSuccessful
+          ? 'succeeded'
+          : 'failed';
+      return { ...base, status, summary };
+    } catch (error) {
+      if (parallel) {
+        ui.errorMessage(`[${names[i]}] ${toRunnerError(error).message}`);
+      }
+      return { ...base, status: 'failed', error: toRunnerError(error) };
+    }
+  };
+
+  let results: TargetRunResult[];
+  if (parallel) {
+    ui.info(`Running against ${targets.length} targets in parallel...`);
+    // One listener for every target, instead of one per runner
+    const cancel = listenForCancel(ui, config.handleSignals ?? true, runOptions.signal);
+    try {
+      results = await Promise.all(targets.map((_, i) => runTarget(i, cancel.signal)));
+    } finally {
+      cancel.stop();
+    }
+  } else {
+    results = [];
+    for (let i = 0; i < targets.length; i++) {
+      if (results.some((r) => r.status === 'cancelled') || runOptions.signal?.aborted) {
+        results.push({
+          name: names[i],
+          databaseUrl: maskPassword(targets[i].databaseUrl),
+          status: 'skipped',
+        });
+        continue;
+      }
+      ui.targetHeader(names[i], i, targets.length);
+      results.push(await runTarget(i));
+    }
+  }
+
+  const summary: MultiTargetSummary = {
+    targets: results,
+    totalTargets: results.length,
+    succeededTargets: results.filter((r) => r.status === 'succeeded').length,
+    failedTargets: results.filter((r) => r.status === 'failed').length,
+    totalDurationMs: Date.now() - startTime,
+    allSuccessful: results.every((r) => r.status === 'succeeded'),
+  };
+
+  ui.targetsSummary({
+    targets: results.map((r) => ({
+      name: r.name,
+      status: r.status,
+      successfulFiles: r.summary?.successfulFiles,
+      totalFiles: r.summary?.totalFiles,
+      durationMs: r.summary?.totalDurationMs,
+      error: r.error?.message ?? r.summary?.failures[0]?.error?.message,
+    })),
+    totalDurationMs: summary.totalDurationMs,
+  });
+
+  return summary;
+}
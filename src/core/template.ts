@@ -0,0 +1,406 @@
+import { skipLiteralOrComment } from './sql-splitter.js';
+
+/**
+ * Values available to `{{ ... }}` placeholders
+ */
+export interface TemplateContext {
+  /** Template variables (`--var`, config `variables`) */
+  variables: Record<string, string>;
+  /** Environment for `{{ env.NAME }}` references (defaults to process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Output of a rendered template
+ */
+export interface RenderedTemplate {
+  /** Rendered SQL */
+  sql: string;
+  /** Template line of each rendered line (`lines[0]` is the template line of rendered line 1) */
+  lines: number[];
+}
+
+type Filter = 'raw' | 'literal' | 'ident';
+
+type TemplateNode =
+  | { type: 'text'; text: string; line: number }
+  | { type: 'value'; name: string; filter: Filter; line: number }
+  | { type: 'if'; condition: string; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+  | { type: 'each'; list: string; item: string; body: TemplateNode[]; line: number };
+
+/**
+ * Tag being parsed, with the nodes collected so far
+ */
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  target: TemplateNode[];
+}
+
+const TAG = /(\\?)\{\{([^\n]*?)\}\}/g;
+const VALUE_TAG = /^((?:env\.)?[A-Za-z_]\w*)(?:\s*\|\s*(\w+))?$/;
+const EACH_TAG = /^#each\s+((?:env\.)?[A-Za-z_]\w*)\s+as\s+([A-Za-z_]\w*)$/;
+const TRUTHY_CONDITION = /^(!?)\s*((?:env\.)?[A-Za-z_]\w*)$/;
+const COMPARISON_CONDITION = /^((?:env\.)?[A-Za-z_]\w*)\s*(==|!=)\s*(?:'([^']*)'|"([^"]*)")$/;
+const FALSY_VALUES = ['', 'false', '0', 'no', 'off'];
+const FILTERS: readonly Filter[] = ['raw', 'literal', 'ident'];
+
+/**
+ * Valid template variable name (letters, digits and underscores, not starting with a digit)
+ */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Checks whether a script contains template placeholders
+ */
+export function hasTemplateTags(sql: string): boolean {
+  return /\{\{\s*[#/A-Za-z_]/.test(sql);
+}
+
+/**
+ * Parses a `name=value` assignment (as passed to `--var`)
+ *
+ * @returns The name and value, or null if the assignment is malformed
+ */
+export function parseVariableAssignment(
+  assignment: string
+): { name: string; value: string } | null {
+  const separator = assignment.indexOf('=');
+  if (separator === -1) return null;
+
+  const name = assignment.slice(0, separator).trim();
+  if (!VARIABLE_NAME_PATTERN.test(name)) return null;
+
+  return { name, value: assignment.slice(separator + 1) };
+}
+
+/**
+ * Quotes a value as a SQL string literal, using an E'' string if it contains backslashes
+ */
+export function quoteSqlLiteral(value: string): string {
+  const escaped = value.replace(/'/g, "''");
+  return value.includes('\\') ? `E'${escaped.replace(/\\/g, '\\\\')}'` : `'${escaped}'`;
+}
+
+/**
+ * Renders `{{ ... }}` placeholders in a SQL script
+ *
+ * - `{{ name }}` inserts a variable, `{{ env.NAME }}` an environment variable
+ * - `{{ name | literal }}` and `{{ name | ident }}` quote the value as a string literal or identifier
+ * - `{{#if name}}`, `{{#if !name}}`, `{{#if name == 'value'}}` ... `{{else}}` ... `{{/if}}`
+ * - `{{#each list as item}}` ... `{{/each}}` repeats a block for each comma-separated value
+ * - `\{{` produces a literal `{{`
+ *
+ * Braces inside string literals, comments and dollar-quoted bodies are left
+ * alone, as is text in braces that isn't a valid placeholder. Block tags on
+ * a line of their own don't leave a blank line behind.
+ *
+ * @param template - SQL script content
+ * @param context - Variables and environment
+ * @param fileName - Name used in error messages
+ * @returns Rendered SQL with the template line of each output line
+ * @throws Error naming the file and line for undefined variables and malformed blocks
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  fileName = 'template'
+): RenderedTemplate {
+  const renderer = new TemplateRenderer(context, fileName);
+  return renderer.render(parseTemplate(template, fileName));
+}
+
+/**
+ * Splits a template into text and tag nodes
+ */
+function parseTemplate(template: string, fileName: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let target = root;
+  let cursor = 0;
+  // SQL before this offset has been scanned for literals, comments and dollar quotes
+  let sqlOffset = 0;
+
+  // Line counting advances with the scan
+  let lineOffset = 0;
+  let line = 1;
+  const lineAt = (offset: number) => {
+    for (; lineOffset < offset; lineOffset++) {
+      if (template[lineOffset] === '\n') line++;
+    }
+    return line;
+  };
+
+  const error = (message: string, at: number) => new Error(`${fileName}: ${message} on line ${at}`);
+
+  const pushText = (end: number) => {
+    if (end > cursor) {
+      target.push({ type: 'text', text: template.slice(cursor, end), line: lineAt(cursor) });
+    }
+  };
+
+  TAG.lastIndex = 0;
+  for (let match = TAG.exec(template); match; match = TAG.exec(template)) {
+    const [whole, escape, rawContent] = match;
+    const content = rawContent.trim();
+    const start = match.index;
+    let end = start + whole.length;
+
+    for (; sqlOffset < start; sqlOffset++) {
+      const skipped = skipLiteralOrComment(template, sqlOffset);
+      if (skipped !== -1) sqlOffset = skipped - 1;
+    }
+    if (sqlOffset > start) {
+      continue; // Inside a string literal, comment or dollar-quoted body
+    }
+
+    if (escape) {
+      pushText(start);
+      cursor = start + 1; // Drop the backslash, keep the braces as text
+      sqlOffset = end;
+      continue;
+    }
+
+    const isBlockTag = /^[#/]/.test(content) || content === 'else';
+    if (!isBlockTag && !VALUE_TAG.test(content)) {
+      continue; // Not a placeholder
+    }
+
+    // A block tag alone on its line takes the whole line with it
+    let textEnd = start;
+    if (isBlockTag) {
+      const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+      const newline = template.indexOf('\n', end);
+      const lineEnd = newline === -1 ? template.length : newline;
+      if (
+        lineStart >= cursor &&
+        /^[ \t]*$/.test(template.slice(lineStart, start)) &&
+        /^[ \t\r]*$/.test(template.slice(end, lineEnd))
+      ) {
+        textEnd = lineStart;
+        end = newline === -1 ? template.length : newline + 1;
+      }
+    }
+
+    pushText(textEnd);
+    const tagLine = lineAt(start);
+    cursor = end;
+    sqlOffset = end;
+    TAG.lastIndex = end;
+
+    const value = isBlockTag ? null : content.match(VALUE_TAG);
+    if (value) {
+      const filter = (value[2] ?? 'raw') as Filter;
+      if (!FILTERS.includes(filter)) {
+        throw error(`Unknown filter "${value[2]}" (expected ${FILTERS.join(', ')})`, tagLine);
+      }
+      target.push({ type: 'value', name: value[1], filter, line: tagLine });
+      continue;
+    }
+
+    if (content.startsWith('#if ')) {
+      const node: TemplateNode = {
+        type: 'if',
+        condition: content.slice(4).trim(),
+        then: [],
+        otherwise: [],
+        line: tagLine,
+      };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.then;
+      continue;
+    }
+
+    const each = content.match(EACH_TAG);
+    if (each) {
+      const node: TemplateNode = {
+        type: 'each',
+        list: each[1],
+        item: each[2],
+        body: [],
+        line: tagLine,
+      };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.body;
+      continue;
+    }
+
+    const open = stack[stack.length - 1];
+
+    if (content === 'else') {
+      if (open?.node.type !== 'if' || target === open.node.otherwise) {
+        throw error('{{else}} without matching {{#if}}', tagLine);
+      }
+      target = open.node.otherwise;
+      continue;
+    }
+
+    if (content === '/if' || content === '/each') {
+      const expected = content.slice(1);
+      if (open?.node.type !== expected) {
+        throw error(`{{${content}}} without matching {{#${expected}}}`, tagLine);
+      }
+      stack.pop();
+      target = open.target;
+      continue;
+    }
+
+    throw error(`Invalid template tag "{{${content}}}"`, tagLine);
+  }
+
+  pushText(template.length);
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    throw error(
+      `{{#${unclosed.node.type}}} without matching {{/${unclosed.node.type}}}`,
+      unclosed.node.line
+    );
+  }
+
+  return root;
+}
+
+/**
+ * Evaluates parsed nodes and tracks where each output line came from
+ */
+class TemplateRenderer {
+  private chunks: string[] = [];
+  private lines: number[] = [];
+  /** Source line for an output line that has started but has no content yet */
+  private pendingLine: number | null = null;
+  private env: Record<string, string | undefined>;
+
+  constructor(
+    private context: TemplateContext,
+    private fileName: string
+  ) {
+    this.env = context.env ?? process.env;
+  }
+
+  render(nodes: TemplateNode[]): RenderedTemplate {
+    this.renderNodes(nodes, new Map());
+    return {
+      sql: this.chunks.join(''),
+      lines:
+        this.pendingLine !== null
+          ? [...this.lines, this.pendingLine]
+          : this.lines.length > 0
+            ? this.lines
+            : [1],
+    };
+  }
+
+  private renderNodes(nodes: TemplateNode[], scope: Map<string, string>): void {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          this.write(node.text, node.line, true);
+          break;
+
+        case 'value': {
+          const value = this.lookup(node.name, scope, node.line);
+          const rendered =
+            node.filter === 'literal'
+              ? quoteSqlLiteral(value)
+              : node.filter === 'ident'
+                ? `"${value.replace(/"/g, '""')}"`
+                : value;
+          this.write(rendered, node.line, false);
+          break;
+        }
+
+        case 'if':
+          this.renderNodes(
+            this.evaluate(node.condition, scope, node.line) ? node.then : node.otherwise,
+            scope
+          );
+          break;
+
+        case 'each': {
+          const items = this.lookup(node.list, scope, node.line)
+            .split(',')
+            .map((item) => item.trim())
+            .filter((item) => item !== '');
+          for (const item of items) {
+            this.renderNodes(node.body, new Map(scope).set(node.item, item));
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Evaluates an {{#if}} condition
+   * A bare name is true when defined and not empty, false, 0, no or off
+   */
+  private evaluate(condition: string, scope: Map<string, string>, line: number): boolean {
+    const truthy = condition.match(TRUTHY_CONDITION);
+    if (truthy) {
+      const value = this.resolve(truthy[2], scope);
+      const isTrue = value !== undefined && !FALSY_VALUES.includes(value.trim().toLowerCase());
+      return truthy[1] ? !isTrue : isTrue;
+    }
+
+    const comparison = condition.match(COMPARISON_CONDITION);
+    if (comparison) {
+      const value = this.lookup(comparison[1], scope, line);
+      const expected = comparison[3] ?? comparison[4];
+      return comparison[2] === '==' ? value === expected : value !== expected;
+    }
+
+    throw this.error(`Invalid condition "${condition}"`, line);
+  }
+
+  private resolve(name: string, scope: Map<string, string>): string | undefined {
+    if (name.startsWith('env.')) {
+      return this.env[name.slice(4)];
+    }
+    return scope.get(name) ?? this.context.variables[name];
+  }
+
+  private lookup(name: string, scope: Map<string, string>, line: number): string {
+    const value = this.resolve(name, scope);
+    if (value === undefined) {
+      throw this.error(
+        name.startsWith('env.')
+          ? `Undefined environment variable "${name.slice(4)}"`
+          : `Undefined variable "${name}" (set it with --var ${name}=... or in the config file)`,
+        line
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Appends output; template text advances the source line at each newline,
+   * while newlines inside a variable's value stay on the placeholder's line.
+   * An output line maps to the source of its first character, so a line that
+   * follows a skipped block points past the block, not into it.
+   */
+  private write(text: string, sourceLine: number, fromTemplate: boolean): void {
+    if (text === '') return;
+
+    if (this.pendingLine !== null || this.lines.length === 0) {
+      this.lines.push(sourceLine);
+      this.pendingLine = null;
+    }
+
+    let line = sourceLine;
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+      if (fromTemplate) line++;
+      if (i === text.length - 1) {
+        this.pendingLine = line;
+      } else {
+        this.lines.push(line);
+      }
+    }
+    this.chunks.push(text);
+  }
+
+  private error(message: string, line: number): Error {
+    return new Error(`${this.fileName}: ${message} on line ${line}`);
+  }
+}
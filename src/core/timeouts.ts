@@ -0,0 +1,110 @@
+import type { SessionTimeouts, TimeoutErrorInfo, TimeoutKind, TimeoutValue } from '../types.js';
+
+/**
+ * PostgreSQL setting behind each session timeout
+ */
+export const TIMEOUT_SETTINGS: Readonly<Record<keyof SessionTimeouts, string>> = {
+  statementTimeout: 'statement_timeout',
+  lockTimeout: 'lock_timeout',
+  idleInTransactionTimeout: 'idle_in_transaction_session_timeout',
+};
+
+/**
+ * Accepted duration strings: a number with an optional PostgreSQL time unit
+ */
+const DURATION_PATTERN = /^\d+(\.\d+)?\s*(us|ms|s|min|h|d)?$/;
+
+/**
+ * Checks whether a value is a valid timeout
+ *
+ * @param value - Milliseconds or a duration string such as "30s"
+ */
+export function isValidTimeout(value: unknown): value is TimeoutValue {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0;
+  }
+  return typeof value === 'string' && DURATION_PATTERN.test(value.trim());
+}
+
+/**
+ * Formats a timeout as a PostgreSQL setting value
+ *
+ * @param value - Milliseconds or a duration string
+ * @returns Setting value, e.g. "30000ms" or "30s"
+ * @throws Error if the value is not a valid duration
+ */
+export function formatTimeout(value: TimeoutValue): string {
+  if (!isValidTimeout(value)) {
+    throw new Error(
+      `Invalid timeout "${value}". Use milliseconds or a duration such as "30s", "5min" or "1h"`
+    );
+  }
+  return typeof value === 'number' ? `${value}ms` : value.trim().replace(/\s+/g, '');
+}
+
+/**
+ * Milliseconds per PostgreSQL time unit
+ */
+const UNIT_MS: Readonly<Record<string, number>> = {
+  us: 0.001,
+  ms: 1,
+  s: 1000,
+  min: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Converts a timeout to milliseconds
+ * Strings without a unit are milliseconds, as in PostgreSQL
+ *
+ * @param value - Milliseconds or a duration string
+ * @throws Error if the value is not a valid duration
+ */
+export function timeoutToMs(value: TimeoutValue): number {
+  const formatted = formatTimeout(value);
+  const match = formatted.match(/^(\d+(?:\.\d+)?)(us|ms|s|min|h|d)?$/)!;
+  return Math.round(parseFloat(match[1]) * UNIT_MS[match[2] ?? 'ms']);
+}
+
+/**
+ * Identifies errors caused by one of the session timeouts
+ *
+ * PostgreSQL reports statement and lock timeouts with distinct messages
+ * (the 57014 code is shared with manual cancellation).
+ *
+ * @param error - Error with PostgreSQL code and message
+ * @returns The timeout that fired, or undefined for other errors
+ */
+export function detectTimeout(error: { code?: string; message: string }): TimeoutKind | undefined {
+  const message = error.message.toLowerCase();
+
+  if (error.code === '25P03' || message.includes('idle-in-transaction timeout')) {
+    return 'idle-in-transaction';
+  }
+  if (message.includes('due to lock timeout')) {
+    return 'lock';
+  }
+  if (error.code === '57014' && message.includes('due to statement timeout')) {
+    return 'statement';
+  }
+  return undefined;
+}
+
+/**
+ * Builds the timeout details attached to a SqlRunnerError
+ *
+ * @param kind - The timeout that fired
+ * @param timeouts - Timeouts in effect when it fired
+ */
+export function describeTimeout(kind: TimeoutKind, timeouts: SessionTimeouts): TimeoutErrorInfo {
+  const key: keyof SessionTimeouts =
+    kind === 'statement' ? 'statementTimeout' : kind === 'lock' ? 'lockTimeout' : 'idleInTransactionTimeout';
+  const value = timeouts[key];
+
+  return {
+    kind,
+    setting: TIMEOUT_SETTINGS[key],
+    ...(value !== undefined ? { value: formatTimeout(value) } : {}),
+  };
+}
@@ -1,4 +1,5 @@
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 import { getErrorMessage } from './connection.js';
 import { c, symbols } from '../ui/index.js';
 
@@ -10,6 +11,8 @@ export interface WatchOptions {
   directory: string;
   /** Pattern to match files (e.g., /\.sql$/) */
   pattern: RegExp;
+  /** Watch subdirectories too (default: false) */
+  recursive?: boolean;
   /** Seconds to wait before execution (default: 30) */
   countdownSeconds: number;
   /** Callback to execute when countdown completes */
@@ -111,15 +114,18 @@ export function startWatcher(options: WatchOptions): () => void {
   };
 
   // Start watching the directory
-  const watcher = fs.watch(options.directory, (_eventType, filename) => {
-    // Only react to files matching the pattern
-    if (filename && options.pattern.test(filename)) {
+  const onChange = (_eventType: fs.WatchEventType, filename: string | null): void => {
+    // Only react to files matching the pattern (filename is a relative path when recursive)
+    if (filename && options.pattern.test(path.basename(filename))) {
       // Clear line and show which file changed
       process.stdout.write('\r                                                    \r');
       options.logger.info(`Changed: ${c.cyan(filename)}`);
       startCountdown();
     }
-  });
+  };
+  const watcher = options.recursive
+    ? fs.watch(options.directory, { recursive: true }, onChange)
+    : fs.watch(options.directory, onChange);
 
   // Handle watcher errors
   watcher.on('error', (error) => {
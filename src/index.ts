@@ -13,13 +13,38 @@ export { SqlRunner, runSqlScripts } from './core/runner.js';
 // Types
 export type {
   SqlRunnerConfig,
+  TransactionMode,
+  ResultCaptureMode,
+  CapturedResultSet,
+  RowCounts,
+  DataFileMetadata,
   Logger,
   FileExecutionResult,
+  StatementExecutionResult,
+  StatementLocation,
   ExecutionSummary,
   SqlRunnerError,
+  TimeoutValue,
+  TimeoutKind,
+  TimeoutErrorInfo,
+  SessionTimeouts,
+  AdvisoryLockHolder,
+  CatalogObjectKind,
+  CatalogObject,
+  CatalogSnapshot,
+  SchemaChange,
+  SchemaDiff,
+  ResetReport,
   ConnectionConfig,
   RunOptions,
+  RevertOptions,
   SqlRunnerEvent,
+  SqlRunnerEventType,
+  SqlRunnerEventHandler,
+  HistoryRecord,
+  FileHistoryStatus,
+  FileStatusEntry,
+  HistoryStatusReport,
 } from './types.js';
 
 // Connection utilities
@@ -48,6 +73,12 @@ export {
   createDefaultFormatter,
   // Base detector for extension
   BaseErrorDetector,
+  // Supabase connection string helpers
+  isDirectConnection,
+  isPoolerConnection,
+  isTransactionPooler,
+  isSessionPooler,
+  extractProjectRef,
 } from './core/errors/index.js';
 
 // Error handling types
@@ -64,6 +95,9 @@ export type {
 // File scanner utilities
 export {
   scanSqlFiles,
+  matchesFileSelector,
+  isDownScript,
+  downScriptName,
   readSqlFile,
   createSavepointName,
   DEFAULT_FILE_PATTERN,
@@ -74,7 +108,158 @@ export {
 export { ConsoleLogger, SilentLogger, createLogger } from './core/logger.js';
 
 // Executor (for advanced usage)
-export { SqlExecutor } from './core/executor.js';
+export {
+  SqlExecutor,
+  DEFAULT_MAX_RESULT_ROWS,
+  RESULT_CAPTURE_MODES,
+  summarizeRowCounts,
+} from './core/executor.js';
+export type { ExecuteFileOptions, TransactionChange } from './core/executor.js';
+
+// Data files (COPY)
+export {
+  isDataFile,
+  isDataFileMetadata,
+  readDataFileMetadata,
+  resolveDataFileTable,
+  parseDataFile,
+  loadDataFile,
+  DATA_FILE_PATTERN,
+  DATA_FILE_METADATA_SUFFIX,
+} from './core/data-files.js';
+export type { DataRow, ParsedDataFile, DataRowLocation, DataFileError } from './core/data-files.js';
+
+// Schema reset
+export {
+  resetSchemas,
+  buildResetStatements,
+  resolveResetPrivileges,
+  findResetDependents,
+  validateResetSchemas,
+  DEFAULT_RESET_SCHEMAS,
+  PROTECTED_SCHEMAS,
+  SUPABASE_API_ROLES,
+  SUPABASE_OWNER_ROLES,
+} from './core/reset.js';
+export type { ResetPrivileges, ResetDependent, ResetSchemasOptions } from './core/reset.js';
+
+// Production guard
+export {
+  assessProductionTarget,
+  findProductionMarkers,
+  PRODUCTION_NAME_WORDS,
+  PRODUCTION_MARKER_TABLE,
+  PRODUCTION_COMMENT_TAG,
+} from './core/production-guard.js';
+export type { ProductionAssessment, ProductionGuardLists } from './core/production-guard.js';
+
+// Doctor (connection and environment checks)
+export { runDoctor } from './core/doctor.js';
+export type { DoctorCheck, DoctorCheckStatus, DoctorReport, DoctorOptions } from './core/doctor.js';
+
+// Multiple targets
+export { runTargets, resolveTargetNames } from './core/targets.js';
+export type {
+  RunTarget,
+  TargetRunStatus,
+  TargetRunResult,
+  MultiTargetSummary,
+  MultiTargetConfig,
+  TargetRunOptions,
+} from './core/targets.js';
+
+// Connection retries
+export {
+  connectWithRetry,
+  connectRetryDelay,
+  DEFAULT_CONNECT_RETRIES,
+  DEFAULT_CONNECT_RETRY_DELAY_MS,
+  MAX_CONNECT_RETRY_DELAY_MS,
+} from './core/connect-retry.js';
+export type { ConnectRetryOptions, ConnectRetryAttempt } from './core/connect-retry.js';
+
+// SQL statement splitter
+export { splitSqlStatements } from './core/sql-splitter.js';
+export type { SqlStatement } from './core/sql-splitter.js';
+
+// psql meta-commands
+export { preprocessPsql, readPsqlFile, resolveSourceLine } from './core/psql.js';
+export type {
+  PreprocessedSql,
+  PsqlPreprocessOptions,
+  PsqlEcho,
+  SourceSegment,
+  SourceLine,
+} from './core/psql.js';
+
+// Templates
+export {
+  renderTemplate,
+  hasTemplateTags,
+  parseVariableAssignment,
+  quoteSqlLiteral,
+  VARIABLE_NAME_PATTERN,
+} from './core/template.js';
+export type { TemplateContext, RenderedTemplate } from './core/template.js';
+
+// Session timeouts
+export {
+  isValidTimeout,
+  formatTimeout,
+  timeoutToMs,
+  detectTimeout,
+  TIMEOUT_SETTINGS,
+} from './core/timeouts.js';
+
+// Advisory lock
+export {
+  AdvisoryLock,
+  defaultAdvisoryLockKey,
+  describeLockHolder,
+  ADVISORY_LOCK_NAMESPACE,
+} from './core/advisory-lock.js';
+export type { AcquireLockOptions } from './core/advisory-lock.js';
+
+// Schema diff
+export {
+  takeCatalogSnapshot,
+  diffCatalogSnapshots,
+  CATALOG_OBJECT_KINDS,
+  SYSTEM_SCHEMAS,
+} from './core/catalog.js';
+
+// File header directives
+export {
+  parseHeaderDirectives,
+  resolveFileDirectives,
+  readFileDirectives,
+  marksResultSet,
+  DIRECTIVE_PREFIX,
+  SHOW_RESULT_DIRECTIVE,
+} from './core/directives.js';
+export type { HeaderDirective, FileDirectives } from './core/directives.js';
+
+// Revert
+export { selectFilesToRevert } from './core/revert.js';
+
+// File dependencies
+export {
+  parseDependencies,
+  orderByDependencies,
+  collectDependencies,
+  DEPENDS_MARKER,
+} from './core/dependencies.js';
+export type { DeclaredDependency } from './core/dependencies.js';
+
+// History tracking
+export {
+  HistoryStore,
+  computeChecksum,
+  compareWithHistory,
+  DEFAULT_HISTORY_SCHEMA,
+  DEFAULT_HISTORY_TABLE,
+} from './core/history.js';
+export type { HistoryStoreOptions } from './core/history.js';
 
 // Watcher
 export { startWatcher } from './core/watcher.js';
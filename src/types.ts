@@ -26,12 +26,43 @@ export interface SqlRunnerConfig {
    */
   ignorePattern?: RegExp;
 
+  /**
+   * Scan subdirectories of sqlDirectory too
+   * Files run depth-first in sorted path order and are named by their
+   * relative path (`01_schema/02_tables.sql`)
+   * @default false
+   */
+  recursive?: boolean;
+
+  /**
+   * Load `.csv`, `.tsv`, `.json` and `.ndjson` files in the sequence with COPY
+   * The table comes from the file name (`03_users.csv` loads `users`) or
+   * the file's sidecar metadata (`03_users.csv.meta.json`)
+   * @default false
+   */
+  dataFiles?: boolean;
+
   /**
    * Enable SSL for database connection
    * @default true
    */
   ssl?: boolean | { rejectUnauthorized: boolean };
 
+  /**
+   * Retries after a transient connection failure (refused connection,
+   * too many connections, DNS failure); 0 disables retrying
+   * Authentication and invalid-URL errors are never retried
+   * @default 3
+   */
+  connectRetries?: number;
+
+  /**
+   * Wait before the first connection retry (milliseconds or "500ms", "2s")
+   * Doubled for every retry, up to 30s, with random jitter
+   * @default "1s"
+   */
+  connectRetryDelay?: TimeoutValue;
+
   /**
    * Require human confirmation before executing
    * Set to false for CI/CD or automated pipelines
@@ -51,6 +82,21 @@ export interface SqlRunnerConfig {
    */
   verbose?: boolean;
 
+  /**
+   * Suppress the terminal UI (banner, file list, results, summary)
+   * The logger, callbacks and events still report progress.
+   * @default false
+   */
+  silent?: boolean;
+
+  /**
+   * Cancel the run on Ctrl+C and SIGTERM
+   * Turn off when the caller handles the signals and aborts through
+   * `RunOptions.signal` instead, as parallel `runTargets` does.
+   * @default true
+   */
+  handleSignals?: boolean;
+
   /**
    * Custom logger function
    * If not provided, uses console with colors
@@ -65,7 +111,172 @@ export interface SqlRunnerConfig {
   logDirectory?: string | null;
 
   /**
-   * Callback for SQL NOTICE messages
+   * How files are wrapped in transactions
+   * - single: one transaction for the whole run, rolled back on any failure
+   * - per-file: each file commits on its own, a failure keeps earlier files
+   * @default "single"
+   */
+  transactionMode?: TransactionMode;
+
+  /**
+   * Record applied files in a history table and only run pending files
+   * Files are compared by checksum, so edited files are detected
+   * @default false
+   */
+  trackHistory?: boolean;
+
+  /**
+   * Schema holding the history table (created if missing)
+   * @default "sql_runner"
+   */
+  historySchema?: string;
+
+  /**
+   * Name of the history table (created if missing)
+   * @default "history"
+   */
+  historyTable?: string;
+
+  /**
+   * Re-run files whose checksum changed since they were applied
+   * Only used when trackHistory is enabled
+   * @default false
+   */
+  rerunModified?: boolean;
+
+  /**
+   * Keep going after a failed file: roll back to its savepoint and run the next file
+   * Every failure is collected in `ExecutionSummary.failures`
+   * @default false
+   */
+  continueOnError?: boolean;
+
+  /**
+   * With continueOnError, commit the successful files even if some failed
+   * By default a run with failures is rolled back at the end
+   * @default false
+   */
+  commitOnError?: boolean;
+
+  /**
+   * Abort any statement that runs longer than this (PostgreSQL `statement_timeout`)
+   * Milliseconds, or a string with units such as "30s" or "5min"
+   * Files can override it with `-- sql-runner: statement-timeout <value>`
+   * @default null (server default)
+   */
+  statementTimeout?: TimeoutValue | null;
+
+  /**
+   * Give up waiting for a lock after this long (PostgreSQL `lock_timeout`)
+   * Files can override it with `-- sql-runner: lock-timeout <value>`
+   * @default null (server default)
+   */
+  lockTimeout?: TimeoutValue | null;
+
+  /**
+   * Close the session when a transaction sits idle this long
+   * (PostgreSQL `idle_in_transaction_session_timeout`)
+   * Files can override it with `-- sql-runner: idle-in-transaction-timeout <value>`
+   * @default null (server default)
+   */
+  idleInTransactionTimeout?: TimeoutValue | null;
+
+  /**
+   * Take a PostgreSQL advisory lock right after connecting, so two runners
+   * can't apply scripts to the same database at the same time
+   * @default false
+   */
+  advisoryLock?: boolean;
+
+  /**
+   * Name of the advisory lock
+   * Runners that share a key exclude each other
+   * @default null (the SQL directory, relative to the working directory)
+   */
+  advisoryLockKey?: string | null;
+
+  /**
+   * How long to wait for the advisory lock when another session holds it
+   * Milliseconds, or a string with units such as "30s" or "5min"
+   * @default null (fail immediately)
+   */
+  advisoryLockWait?: TimeoutValue | null;
+
+  /**
+   * Snapshot the catalog before and after the run and report what changed
+   * (tables, columns, indexes, constraints, functions, views, policies,
+   * triggers and grants) in the summary and `ExecutionSummary.schemaDiff`
+   * @default false
+   */
+  schemaDiff?: boolean;
+
+  /**
+   * Schemas a reset (`RunOptions.reset`) drops and recreates
+   * Supabase-managed schemas (auth, storage, realtime, ...) can't be reset
+   * @default ["public"]
+   */
+  resetSchemas?: string[];
+
+  /**
+   * Refuse production-like databases: hosts or database names containing
+   * "prod", "production", "prd" or "live", deny-listed names, and databases with
+   * a `sql_runner.production` table or a `sql-runner: production` comment tag.
+   * A run needs `allowProduction` and the typed project ref to go ahead.
+   * @default true
+   */
+  productionGuard?: boolean;
+
+  /**
+   * Hosts, project refs or database names never treated as production by name
+   * Matched case-insensitively, `*` is a wildcard. Markers in the database still count.
+   * @default []
+   */
+  productionAllowList?: string[];
+
+  /**
+   * Hosts, project refs or database names always treated as production
+   * @default []
+   */
+  productionDenyList?: string[];
+
+  /**
+   * Which statements' rows to capture and show after each file
+   * Captured rows are also returned in `FileExecutionResult.resultSets`
+   * @default "marked" (statements preceded by `-- sql-runner: show`)
+   */
+  captureResults?: ResultCaptureMode;
+
+  /**
+   * Maximum rows kept and shown per result set
+   * @default 20
+   */
+  maxResultRows?: number;
+
+  /**
+   * Render `{{ ... }}` placeholders in every SQL file
+   * When off, only files with a `-- sql-runner: template` header are rendered.
+   * @default false
+   */
+  templates?: boolean;
+
+  /**
+   * Send consecutive statements of a transactional file as one multi-statement
+   * query instead of one round-trip per statement
+   * A failed batch is run again statement by statement to find the failing one.
+   * @default false
+   */
+  batchStatements?: boolean;
+
+  /**
+   * Values for `{{ name }}` placeholders in SQL files
+   * Also defined as psql variables, like `psql -v name=value`
+   * `{{ env.NAME }}` reads environment variables directly
+   * @default {}
+   */
+  variables?: Record<string, string>;
+
+  /**
+   * Callback for SQL NOTICE messages and psql `\echo` output
    */
   onNotice?: (message: string) => void;
 
@@ -90,6 +301,41 @@ export interface SqlRunnerConfig {
   onError?: (error: SqlRunnerError) => void;
 }
 
+/**
+ * Transaction handling for a run
+ */
+export type TransactionMode = 'single' | 'per-file';
+
+/**
+ * Which result sets to keep from the statements of a file
+ * - none: discard every result
+ * - marked: only statements preceded by `-- sql-runner: show`
+ * - all: every statement that returns rows (SELECT, RETURNING, SHOW, EXPLAIN...)
+ */
+export type ResultCaptureMode = 'none' | 'marked' | 'all';
+
+/**
+ * Sidecar metadata for a data file, in `<file>.meta.json` (`03_users.csv.meta.json`)
+ */
+export interface DataFileMetadata {
+  /** Table to load, optionally schema-qualified (default: the file name without its number prefix and extension) */
+  table?: string;
+  /**
+   * Columns to load
+   * - a list: target columns in the order of the file's values (CSV/TSV) or the JSON keys to read
+   * - a map: source column (header or JSON key) to target column, `null` to skip the column
+   */
+  columns?: string[] | Record<string, string | null>;
+  /** Whether the first CSV/TSV row is a header (default: "auto", a header if it names the table's columns) */
+  header?: boolean | 'auto';
+  /** Unquoted CSV/TSV value loaded as NULL (default: empty) */
+  null?: string;
+  /** CSV/TSV field delimiter (default: "," for .csv, tab for .tsv) */
+  delimiter?: string;
+  /** Load the file outside the transaction, like a `-- sql-runner: no-transaction` SQL file (default: true) */
+  transaction?: boolean;
+}
+
 /**
  * Logger interface for custom logging implementations
  */
@@ -113,12 +359,94 @@ export interface FileExecutionResult {
   success: boolean;
   /** Execution duration in milliseconds */
   durationMs: number;
-  /** Savepoint name used for this file */
+  /** Savepoint name used for this file (empty for non-transactional files) */
   savepointName: string;
   /** Error details if execution failed */
   error?: SqlRunnerError;
   /** Whether rollback was successful (if error occurred) */
   rollbackSuccess?: boolean;
+  /** File ran outside a transaction (`-- sql-runner: no-transaction`) and cannot be rolled back */
+  nonTransactional?: boolean;
+  /** SHA-256 checksum of the file content (when history tracking is enabled) */
+  checksum?: string;
+  /** Per-statement results, in execution order (stops at the failing statement) */
+  statements?: StatementExecutionResult[];
+  /** Rows returned by the file's statements, as selected by `captureResults` */
+  resultSets?: CapturedResultSet[];
+  /** Rows inserted, updated, deleted, merged or copied by the file (successful files only) */
+  rowCounts?: RowCounts;
+}
+
+/**
+ * Rows affected by a file's statements, per kind of command
+ * Only commands that ran are present, so an INSERT that inserted nothing shows up as `inserted: 0`
+ */
+export interface RowCounts {
+  inserted?: number;
+  updated?: number;
+  deleted?: number;
+  merged?: number;
+  copied?: number;
+}
+
+/**
+ * Rows returned by a statement
+ */
+export interface CapturedResultSet {
+  /** 0-based index of the statement within the file */
+  statementIndex: number;
+  /** 1-based line where the statement starts (in `sourceFile` when set) */
+  startLine: number;
+  /** File the statement came from, when it was pulled in by `\i` or `\ir` */
+  sourceFile?: string;
+  /** Column names, in order */
+  columns: string[];
+  /** Rows as returned by node-postgres, capped at `maxResultRows` */
+  rows: Record<string, unknown>[];
+  /** Number of rows the statement returned */
+  rowCount: number;
+  /** Rows were left out to respect `maxResultRows` */
+  truncated: boolean;
+}
+
+/**
+ * Location of a statement within its SQL file
+ */
+export interface StatementLocation {
+  /** 0-based statement index within the file */
+  index: number;
+  /** Total number of statements in the file */
+  total: number;
+  /** Statement text as sent to the server */
+  text: string;
+  /** 1-based line where the statement starts (in `sourceFile` when set) */
+  startLine: number;
+  /** 1-based line where the statement ends (in `sourceFile` when set) */
+  endLine: number;
+  /** File the statement came from, relative to the executed file's directory, when it was pulled in by `\i` or `\ir` */
+  sourceFile?: string;
+}
+
+/**
+ * Result of executing a single statement
+ */
+export interface StatementExecutionResult {
+  /** 0-based statement index within the file */
+  index: number;
+  /** 1-based line where the statement starts (in `sourceFile` when set) */
+  startLine: number;
+  /** 1-based line where the statement ends (in `sourceFile` when set) */
+  endLine: number;
+  /** File the statement came from, when it was pulled in by `\i` or `\ir` */
+  sourceFile?: string;
+  /** Whether the statement succeeded */
+  success: boolean;
+  /** Execution duration in milliseconds */
+  durationMs: number;
+  /** Command tag reported by PostgreSQL, such as `INSERT 0 1200` or `UPDATE 3` */
+  commandTag?: string;
+  /** Rows affected (or returned), for commands that report a count */
+  rowCount?: number;
 }
 
 /**
@@ -139,8 +467,201 @@ export interface ExecutionSummary {
   allSuccessful: boolean;
   /** Whether the transaction was committed */
   committed: boolean;
+  /** Files whose changes were committed (in per-file mode, may be partial) */
+  committedFiles: string[];
+  /** Results of every failed file (more than one only with continueOnError) */
+  failures: FileExecutionResult[];
   /** Files that were skipped/ignored */
   ignoredFiles: string[];
+  /** Files skipped because they were already applied (history tracking only) */
+  alreadyAppliedFiles?: string[];
+  /** Catalog changes made by the run (schemaDiff only, when the run committed or a rehearsal succeeded) */
+  schemaDiff?: SchemaDiff;
+  /** The run was a rehearsal and every change was rolled back */
+  rehearsal?: boolean;
+  /** What the reset did (reset runs only) */
+  reset?: ResetReport;
+  /** The run was cancelled (Ctrl+C, SIGTERM or an aborted signal) and its open transaction rolled back */
+  cancelled?: boolean;
+}
+
+/**
+ * What a reset dropped and restored
+ */
+export interface ResetReport {
+  /** Schemas that were dropped and recreated */
+  schemas: string[];
+  /** Extensions that lived in those schemas and were recreated */
+  extensions: string[];
+  /** Roles granted usage and default privileges (none outside a Supabase project) */
+  grantedRoles: string[];
+  /** Objects in other schemas dropped along with the reset schemas (`dropDependents`) */
+  droppedDependents: string[];
+}
+
+/**
+ * A row of the history table
+ */
+export interface HistoryRecord {
+  /** File name that was applied */
+  fileName: string;
+  /** SHA-256 checksum of the file content when it was applied */
+  checksum: string;
+  /** When the file was applied */
+  appliedAt: Date;
+  /** Execution duration in milliseconds */
+  durationMs: number;
+  /** Version of the runner that applied the file */
+  runnerVersion: string;
+}
+
+/**
+ * History status of a file
+ * - applied: recorded in history with the same checksum
+ * - pending: never applied
+ * - modified: applied, but the file changed since
+ */
+export type FileHistoryStatus = 'applied' | 'pending' | 'modified';
+
+/**
+ * Status of a single file compared to the history table
+ */
+export interface FileStatusEntry {
+  /** File name */
+  fileName: string;
+  /** Full path to the file */
+  filePath: string;
+  /** Status compared to the history table */
+  status: FileHistoryStatus;
+  /** Current checksum of the file */
+  checksum: string;
+  /** Latest history record for this file, if any */
+  lastApplied?: HistoryRecord;
+}
+
+/**
+ * Result of comparing the SQL directory against the history table
+ */
+export interface HistoryStatusReport {
+  /** Status of every file in the directory, in execution order */
+  files: FileStatusEntry[];
+  /** Number of applied files */
+  applied: number;
+  /** Number of pending files */
+  pending: number;
+  /** Number of modified files */
+  modified: number;
+}
+
+/**
+ * Timeout duration: milliseconds, or a PostgreSQL duration string ("30s", "5min", "1h")
+ */
+export type TimeoutValue = number | string;
+
+/**
+ * Session timeouts applied to the connection
+ */
+export interface SessionTimeouts {
+  statementTimeout?: TimeoutValue;
+  lockTimeout?: TimeoutValue;
+  idleInTransactionTimeout?: TimeoutValue;
+}
+
+/**
+ * Which timeout ended a statement
+ */
+export type TimeoutKind = 'statement' | 'lock' | 'idle-in-transaction';
+
+/**
+ * Details about a timeout error
+ */
+export interface TimeoutErrorInfo {
+  /** Which timeout fired */
+  kind: TimeoutKind;
+  /** PostgreSQL setting name (e.g. "statement_timeout") */
+  setting: string;
+  /** Value in effect when the timeout fired, if set by the runner */
+  value?: string;
+}
+
+/**
+ * Session holding an advisory lock, from pg_stat_activity
+ * Fields are null when the current role isn't allowed to see them
+ */
+export interface AdvisoryLockHolder {
+  /** Backend process ID */
+  pid: number;
+  /** application_name of the holding session */
+  applicationName: string | null;
+  /** Client address (null for Unix socket connections) */
+  clientAddr: string | null;
+  /** Role of the holding session */
+  user: string | null;
+  /** When the holding session connected */
+  backendStart: Date | null;
+  /** Session state (e.g. "active", "idle in transaction") */
+  state: string | null;
+}
+
+/**
+ * Kind of database object compared by a schema diff
+ */
+export type CatalogObjectKind =
+  | 'table'
+  | 'column'
+  | 'index'
+  | 'constraint'
+  | 'function'
+  | 'view'
+  | 'policy'
+  | 'trigger'
+  | 'grant';
+
+/**
+ * A database object in a catalog snapshot
+ */
+export interface CatalogObject {
+  /** Object kind */
+  kind: CatalogObjectKind;
+  /** Qualified name, e.g. "public.users", "public.users.email" or "public.add(integer, integer)" */
+  name: string;
+  /** Table or view the object belongs to (columns, indexes, constraints, policies, triggers, grants) */
+  parent?: string;
+  /** Definition compared between snapshots; any change means the object was altered */
+  definition: string;
+}
+
+/**
+ * Catalog objects read from the database at one point in time
+ */
+export type CatalogSnapshot = CatalogObject[];
+
+/**
+ * An object added, dropped or altered between two snapshots
+ */
+export interface SchemaChange {
+  /** What happened to the object */
+  type: 'added' | 'dropped' | 'altered';
+  /** Object kind */
+  kind: CatalogObjectKind;
+  /** Qualified name */
+  name: string;
+  /** Table or view the object belongs to */
+  parent?: string;
+}
+
+/**
+ * Changes between the catalog before and after a run
+ */
+export interface SchemaDiff {
+  /** Changed objects, ordered by kind and name */
+  changes: SchemaChange[];
+  /** Number of added objects */
+  added: number;
+  /** Number of dropped objects */
+  dropped: number;
+  /** Number of altered objects */
+  altered: number;
 }
 
 /**
@@ -163,6 +684,10 @@ export interface SqlRunnerError {
   stack?: string;
   /** File that caused the error */
   fileName?: string;
+  /** Statement that caused the error */
+  statement?: StatementLocation;
+  /** Set when the error was caused by a statement, lock or idle timeout */
+  timeout?: TimeoutErrorInfo;
 }
 
 /**
@@ -188,12 +713,14 @@ export interface RunOptions {
   skipConfirmation?: boolean;
 
   /**
-   * Only run specific files (by name)
+   * Only run specific files (by name, or relative path when recursive)
+   * A directory selects every file under it
    */
   onlyFiles?: string[];
 
   /**
-   * Skip specific files (by name)
+   * Skip specific files (by name, or relative path when recursive)
+   * A directory skips every file under it
    */
   skipFiles?: string[];
 
@@ -201,13 +728,104 @@ export interface RunOptions {
    * Dry run - show what would be executed without running
    */
   dryRun?: boolean;
+
+  /**
+   * Rehearsal - execute every file in one transaction, then always roll back
+   * Reports SQL errors like a real run, with no confirmation and no changes kept.
+   * Files marked `no-transaction` are skipped, as they can't be rolled back
+   */
+  rehearse?: boolean;
+
+  /**
+   * Drop and recreate `resetSchemas` before running, restoring Supabase's default
+   * privileges and the extensions installed in them, then run every file
+   * With history tracking, the history is cleared so every file runs again.
+   */
+  reset?: boolean;
+
+  /**
+   * Let the reset drop objects in other schemas that depend on the reset
+   * schemas (a trigger on `auth.users` calling a `public` function, say);
+   * without it the reset refuses and lists them
+   */
+  dropDependents?: boolean;
+
+  /**
+   * Cancels the run when aborted, like Ctrl+C: the running statement is
+   * cancelled on the server and the open transaction rolled back
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Go ahead on a database the production guard flags, once its project ref
+   * (or database name) is typed at the prompt or given as `productionConfirmation`
+   */
+  allowProduction?: boolean;
+
+  /**
+   * The project ref (or database name) for `allowProduction`, typed ahead for
+   * non-interactive runs
+   */
+  productionConfirmation?: string;
+}
+
+/**
+ * Options for the revert method
+ * Choose the files with either `last` or `from`/`to`
+ */
+export interface RevertOptions {
+  /**
+   * Revert the last N files in execution order
+   * With history tracking, only applied files count
+   */
+  last?: number;
+
+  /**
+   * First file of the range to revert (inclusive, in execution order)
+   */
+  from?: string;
+
+  /**
+   * Last file of the range to revert (inclusive)
+   * @default the last file
+   */
+  to?: string;
+
+  /**
+   * Skip the confirmation prompt
+   */
+  skipConfirmation?: boolean;
+
+  /**
+   * Dry run - show which down-scripts would run without running them
+   */
+  dryRun?: boolean;
+
+  /**
+   * Go ahead on a database the production guard flags, once its project ref
+   * (or database name) is typed at the prompt or given as `productionConfirmation`
+   */
+  allowProduction?: boolean;
+
+  /**
+   * The project ref (or database name) for `allowProduction`, typed ahead for
+   * non-interactive runs
+   */
+  productionConfirmation?: string;
+
+  /**
+   * Cancels the revert when aborted, like Ctrl+C: the running down-script's
+   * statement is cancelled on the server and the open transaction rolled back
+   */
+  signal?: AbortSignal;
 }
 
 /**
- * Events emitted by the SQL runner
+ * Event payloads, before the runner stamps them with a time
  */
-export type SqlRunnerEvent =
-  | { type: 'connected' }
+export type SqlRunnerEventPayload =
+  | { type: 'connect_retry'; attempt: number; maxAttempts: number; delayMs: number; reason: string }
+  | { type: 'connected'; host: string }
   | { type: 'transaction_started' }
   | { type: 'file_start'; fileName: string; index: number; total: number }
   | { type: 'file_complete'; result: FileExecutionResult }
@@ -217,6 +835,24 @@ export type SqlRunnerEvent =
   | { type: 'complete'; summary: ExecutionSummary }
   | { type: 'error'; error: SqlRunnerError };
 
+/**
+ * Events emitted by the SQL runner, with the time they happened
+ * Every run and revert ends with exactly one `complete` or `error` event
+ */
+export type SqlRunnerEvent = SqlRunnerEventPayload & { timestamp: Date };
+
+/**
+ * Names of the runner events ("file_start", "complete", ...)
+ */
+export type SqlRunnerEventType = SqlRunnerEvent['type'];
+
+/**
+ * Handler for one type of runner event
+ */
+export type SqlRunnerEventHandler<T extends SqlRunnerEventType = SqlRunnerEventType> = (
+  event: Extract<SqlRunnerEvent, { type: T }>
+) => void;
+
 /**
  * Callback function names in SqlRunnerConfig (always optional)
  */
@@ -152,6 +152,44 @@ export function renderList(items: string[], bullet = symbols.bullet): string {
   return items.map((item) => `${c.muted(bullet)} ${item}`).join('\n');
 }
 
+/**
+ * Renders relative file paths as a tree, one heading per directory
+ * Paths are expected in scan order (depth-first), so each directory's files are contiguous
+ *
+ * @example
+ * ```
+ * • 00_extensions.sql
+ * ▾ 01_schema/
+ *   • 01_tables.sql
+ *   • 02_functions.sql
+ * ▾ 02_seed/
+ *   • 01_users.sql
+ * ```
+ */
+export function renderFileTree(paths: string[], bullet = symbols.bullet): string {
+  const lines: string[] = [];
+  let previousDirs: string[] = [];
+
+  for (const filePath of paths) {
+    const parts = filePath.split('/');
+    const name = parts.pop()!;
+
+    // Headings for the directories this file enters
+    let shared = 0;
+    while (shared < parts.length && shared < previousDirs.length && parts[shared] === previousDirs[shared]) {
+      shared++;
+    }
+    for (let depth = shared; depth < parts.length; depth++) {
+      lines.push(`${'  '.repeat(depth)}${c.muted(symbols.arrowDown)} ${c.muted(`${parts[depth]}/`)}`);
+    }
+
+    lines.push(`${'  '.repeat(parts.length)}${c.muted(bullet)} ${name}`);
+    previousDirs = parts;
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Renders key-value pairs aligned
  *
@@ -53,6 +53,7 @@ export type { BoxStyle, BoxOptions } from './components/box.js';
 export {
   renderTable,
   renderList,
+  renderFileTree,
   renderKeyValue,
   renderFileStatus,
 } from './components/table.js';
@@ -68,4 +69,9 @@ export type {
   UIRendererOptions,
   FileResult,
   ExecutionSummaryData,
+  HistoryStatusData,
+  ResultSetData,
+  SchemaDiffData,
+  DoctorData,
+  TargetsSummaryData,
 } from './renderer.js';
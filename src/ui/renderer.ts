@@ -8,9 +8,66 @@
 import { symbols, c } from './theme.js';
 import { renderBanner, renderMinimalBanner } from './components/banner.js';
 import { renderBox, renderDivider } from './components/box.js';
-import { renderList, renderKeyValue } from './components/table.js';
+import { renderFileTree, renderKeyValue, renderTable } from './components/table.js';
 import { createSpinner } from './components/spinner.js';
 
+/**
+ * Explanation shown for each kind of timeout error
+ */
+const TIMEOUT_HELP: Record<'statement' | 'lock' | 'idle-in-transaction', string> = {
+  statement:
+    'A statement ran longer than allowed. Raise --statement-timeout, or add "-- sql-runner: statement-timeout <value>" to the file header.',
+  lock:
+    'Another session holds a lock this statement needs. Look for it in pg_stat_activity, or raise --lock-timeout.',
+  'idle-in-transaction':
+    'The transaction sat idle too long and the server closed the session. Raise --idle-in-transaction-timeout.',
+};
+
+/**
+ * Longest value shown in a result set cell
+ */
+const RESULT_CELL_WIDTH = 40;
+
+/**
+ * Row count kinds, in display order
+ */
+const ROW_COUNT_KINDS = ['inserted', 'updated', 'deleted', 'merged', 'copied'] as const;
+
+/**
+ * Formats row totals ("1,200 rows inserted, 3 rows updated")
+ */
+function formatRowCounts(rowCounts: NonNullable<FileResult['rowCounts']>): string {
+  return ROW_COUNT_KINDS.flatMap((kind) => {
+    const count = rowCounts[kind];
+    return count === undefined
+      ? []
+      : [`${count.toLocaleString('en-US')} row${count === 1 ? '' : 's'} ${kind}`];
+  }).join(', ');
+}
+
+/**
+ * Formats a value returned by node-postgres for a result set cell
+ */
+function formatResultValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return c.muted('NULL');
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Buffer.isBuffer(value)) {
+    text = `\\x${value.toString('hex')}`;
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  text = text.replace(/\s*\r?\n\s*/g, ' ');
+  return text.length > RESULT_CELL_WIDTH ? `${text.slice(0, RESULT_CELL_WIDTH - 1)}…` : text;
+}
+
 export interface UIRendererOptions {
   /** Tool name */
   name?: string;
@@ -27,6 +84,56 @@ export interface FileResult {
   success: boolean;
   durationMs?: number;
   error?: string;
+  /** Ran outside a transaction and cannot be rolled back */
+  nonTransactional?: boolean;
+  /** Rows changed by the file, per kind of command */
+  rowCounts?: {
+    inserted?: number;
+    updated?: number;
+    deleted?: number;
+    merged?: number;
+    copied?: number;
+  };
+}
+
+export interface ResultSetData {
+  /** 0-based statement index within the file */
+  statementIndex: number;
+  startLine: number;
+  sourceFile?: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  /** Rows returned, including the ones left out */
+  rowCount: number;
+  truncated: boolean;
+}
+
+export interface HistoryStatusData {
+  files: Array<{
+    fileName: string;
+    status: 'applied' | 'pending' | 'modified';
+    appliedAt?: Date;
+  }>;
+  applied: number;
+  pending: number;
+  modified: number;
+}
+
+export interface SchemaDiffData {
+  changes: Array<{ type: 'added' | 'dropped' | 'altered'; kind: string; name: string }>;
+  added: number;
+  dropped: number;
+  altered: number;
+}
+
+export interface DoctorData {
+  checks: Array<{
+    name: string;
+    status: 'pass' | 'warn' | 'fail' | 'skip';
+    message: string;
+    help?: { title: string; suggestions: string[]; docsUrl?: string };
+  }>;
+  ok: boolean;
 }
 
 export interface ExecutionSummaryData {
@@ -35,6 +142,22 @@ export interface ExecutionSummaryData {
   failedFiles: number;
   totalDurationMs: number;
   committed: boolean;
+  /** Number of files whose changes were kept */
+  committedFiles?: number;
+  /** Rehearsal run, rolled back on purpose */
+  rehearsal?: boolean;
+}
+
+export interface TargetsSummaryData {
+  targets: Array<{
+    name: string;
+    status: 'succeeded' | 'failed' | 'cancelled' | 'skipped';
+    successfulFiles?: number;
+    totalFiles?: number;
+    durationMs?: number;
+    error?: string;
+  }>;
+  totalDurationMs: number;
 }
 
 /**
@@ -133,7 +256,8 @@ export class UIRenderer {
     this.writeln();
     this.writeln(c.muted(`${symbols.arrowRight} ${title}:`));
     this.writeln();
-    this.writeln(renderList(files));
+    // Files from a recursive scan are shown under their directories
+    this.writeln(renderFileTree(files));
   }
 
   /**
@@ -148,6 +272,101 @@ export class UIRenderer {
     }
   }
 
+  /**
+   * Render files skipped because they are already applied
+   */
+  alreadyAppliedFiles(files: string[]): void {
+    if (files.length === 0) return;
+    this.writeln();
+    this.writeln(c.muted(`${symbols.info} Already applied ${files.length} file${files.length > 1 ? 's' : ''}:`));
+    for (const file of files) {
+      this.writeln(c.muted(`  ${symbols.dot} ${file}`));
+    }
+  }
+
+  /**
+   * Render history status table
+   */
+  historyStatus(data: HistoryStatusData): void {
+    this.writeln();
+
+    if (data.files.length === 0) {
+      this.writeln(c.muted(`${symbols.info} No SQL files found`));
+      return;
+    }
+
+    const statusLabels = {
+      applied: c.success(`${symbols.success} applied`),
+      pending: c.muted(`${symbols.pending} pending`),
+      modified: c.warning(`${symbols.warning} modified`),
+    };
+
+    const rows = data.files.map((file) => ({
+      file: file.fileName,
+      status: statusLabels[file.status],
+      appliedAt: file.appliedAt ? file.appliedAt.toISOString().replace('T', ' ').slice(0, 19) : '',
+    }));
+
+    this.writeln(
+      renderTable(rows, {
+        columns: [
+          { key: 'file', label: 'File' },
+          { key: 'status', label: 'Status' },
+          { key: 'appliedAt', label: 'Applied at' },
+        ],
+      })
+    );
+
+    this.writeln();
+    this.writeln(
+      [
+        c.success(`${data.applied} applied`),
+        c.muted(`${data.pending} pending`),
+        c.warning(`${data.modified} modified`),
+      ].join(c.muted(' • '))
+    );
+  }
+
+  /**
+   * Render the doctor checklist, with the suggestions for each failure
+   */
+  doctor(data: DoctorData): void {
+    const marks = {
+      pass: c.success(symbols.success),
+      warn: c.warning(symbols.warning),
+      fail: c.error(symbols.error),
+      skip: c.muted(symbols.pending),
+    };
+    const width = Math.max(...data.checks.map((check) => check.name.length));
+
+    this.writeln();
+    for (const check of data.checks) {
+      const message = check.status === 'skip' ? c.muted(check.message) : check.message;
+      this.writeln(`${marks[check.status]} ${check.name.padEnd(width)}  ${message}`);
+
+      if (check.status === 'fail' && check.help) {
+        this.writeln(`    ${c.title(check.help.title)}`);
+        for (const suggestion of check.help.suggestions) {
+          this.writeln(suggestion ? c.muted(`    ${suggestion}`) : '');
+        }
+        if (check.help.docsUrl) {
+          this.writeln(c.muted(`    Docs: ${check.help.docsUrl}`));
+        }
+      }
+    }
+
+    const count = (status: DoctorData['checks'][number]['status']) =>
+      data.checks.filter((check) => check.status === status).length;
+    this.writeln();
+    this.writeln(
+      [
+        c.success(`${count('pass')} passed`),
+        c.warning(`${count('warn')} warnings`),
+        c.error(`${count('fail')} failed`),
+      ].join(c.muted(' • '))
+    );
+  }
+
   /**
    * Render dry run notice
    */
@@ -164,14 +383,68 @@ export class UIRenderer {
     );
   }
 
+  /**
+   * Render rehearsal mode indicator
+   */
+  rehearsal(): void {
+    this.writeln();
+    this.writeln(
+      renderBox(
+        [
+          c.title('REHEARSAL'),
+          c.muted('Every file runs, then everything is rolled back'),
+        ],
+        { style: 'rounded', width: 52 }
+      )
+    );
+  }
+
+  /**
+   * Render reset warning, listing the schemas that will be dropped
+   */
+  resetWarning(schemas: string[]): void {
+    this.writeln();
+    this.writeln(
+      renderBox(
+        [
+          c.title('RESET'),
+          c.muted(`Drops and recreates: ${schemas.join(', ')}`),
+          c.muted('Every object and row in these schemas is lost'),
+        ],
+        { style: 'rounded', width: 52 }
+      )
+    );
+  }
+
+  /**
+   * Render the production guard's warning
+   */
+  productionWarning(data: { host: string; reasons: string[] }): void {
+    this.writeln();
+    this.writeln(
+      renderBox(
+        [
+          c.error(`${symbols.warning}  PRODUCTION DATABASE`),
+          c.muted(data.host),
+          ...data.reasons.map((reason) => c.muted(`- ${reason}`)),
+        ],
+        { style: 'rounded' }
+      )
+    );
+  }
+
   /**
    * Render confirmation prompt
    */
-  confirmationWarning(): void {
+  confirmationWarning(options: { perFile?: boolean } = {}): void {
     this.writeln();
     this.writeln(c.warning(`${symbols.warning}  This will execute SQL scripts on your database.`));
     this.writeln(c.muted('   Changes may modify or delete existing data.'));
-    this.writeln(c.muted('   Automatic rollback is enabled for failures.'));
+    if (options.perFile) {
+      this.writeln(c.muted('   Each file commits on its own - earlier files are kept on failure.'));
+    } else {
+      this.writeln(c.muted('   Automatic rollback is enabled for failures.'));
+    }
     this.writeln();
   }
 
@@ -195,11 +468,12 @@ export class UIRenderer {
     }
 
     const duration = result.durationMs !== undefined ? `${result.durationMs}ms` : '';
+    const tag = this.nonTransactionalTag(result);
 
     if (result.success) {
-      this.writeln(`       ${c.success(symbols.success)} ${result.fileName} ${c.muted(duration)}`);
+      this.writeln(`       ${c.success(symbols.success)} ${result.fileName} ${c.muted(duration)}${tag}`);
     } else {
-      this.writeln(`       ${c.error(symbols.error)} ${result.fileName} ${c.error('failed')}`);
+      this.writeln(`       ${c.error(symbols.error)} ${result.fileName} ${c.error('failed')}${tag}`);
     }
   }
 
@@ -209,11 +483,92 @@ export class UIRenderer {
   fileResultSimple(result: FileResult, index: number, total: number): void {
     const progress = c.muted(`[${index + 1}/${total}]`);
     const duration = result.durationMs !== undefined ? `${result.durationMs}ms` : '';
+    const tag = this.nonTransactionalTag(result);
+    const rows = result.rowCounts ? formatRowCounts(result.rowCounts) : '';
 
     if (result.success) {
-      this.writeln(`${progress} ${c.success(symbols.success)} ${result.fileName} ${c.muted(duration)}`);
+      const details = rows ? `${duration} • ${rows}` : duration;
+      this.writeln(`${progress} ${c.success(symbols.success)} ${result.fileName} ${c.muted(details)}${tag}`);
     } else {
-      this.writeln(`${progress} ${c.error(symbols.error)} ${result.fileName} ${c.error('failed')}`);
+      this.writeln(`${progress} ${c.error(symbols.error)} ${result.fileName} ${c.error('failed')}${tag}`);
+    }
+  }
+
+  /**
+   * Render rows returned by a statement, as a table
+   */
+  resultSet(data: ResultSetData): void {
+    const location = `${data.sourceFile ? `${data.sourceFile}, ` : ''}line ${data.startLine}`;
+    const rows = `${data.rowCount} row${data.rowCount === 1 ? '' : 's'}`;
+    this.writeln(c.muted(`  ${symbols.arrowRight} Statement ${data.statementIndex + 1} (${location}): ${rows}`));
+
+    if (data.rows.length > 0) {
+      // Keys by position, so column names never clash with each other
+      const columns = data.columns.map((label, i) => ({ key: String(i), label }));
+      const table = renderTable(
+        data.rows.map((row) =>
+          Object.fromEntries(data.columns.map((name, i) => [String(i), formatResultValue(row[name])]))
+        ),
+        { columns }
+      );
+      this.writeln(table.replace(/^/gm, '  '));
+    }
+
+    if (data.truncated) {
+      this.writeln(c.muted(`  … ${data.rowCount - data.rows.length} more row${data.rowCount - data.rows.length === 1 ? '' : 's'} not shown`));
+    }
+  }
+
+  /**
+   * Marker for files that ran outside a transaction
+   */
+  private nonTransactionalTag(result: FileResult): string {
+    return result.nonTransactional ? ` ${c.warning('(no transaction)')}` : '';
+  }
+
+  /**
+   * Render every failed file (continue-on-error mode)
+   */
+  failureList(
+    failures: Array<{ fileName: string; message: string; line?: number; sourceFile?: string }>
+  ): void {
+    if (failures.length === 0) return;
+    this.writeln();
+    this.writeln(c.error(`${symbols.error} ${failures.length} file${failures.length > 1 ? 's' : ''} failed:`));
+    for (const failure of failures) {
+      const location =
+        failure.line !== undefined
+          ? c.muted(` (${failure.sourceFile ? `${failure.sourceFile}, ` : ''}line ${failure.line})`)
+          : '';
+      this.writeln(`  ${c.muted(symbols.dot)} ${failure.fileName}${location} ${c.muted('-')} ${failure.message}`);
+    }
+  }
+
+  /**
+   * Render catalog changes made by a run
+   */
+  schemaDiff(diff: SchemaDiffData): void {
+    this.writeln();
+    if (diff.changes.length === 0) {
+      this.writeln(c.muted(`${symbols.info} No schema changes`));
+      return;
+    }
+
+    const counts = [
+      diff.added > 0 ? `${diff.added} added` : '',
+      diff.dropped > 0 ? `${diff.dropped} dropped` : '',
+      diff.altered > 0 ? `${diff.altered} altered` : '',
+    ].filter(Boolean);
+    this.writeln(c.muted(`${symbols.arrowRight} Schema changes (${counts.join(', ')}):`));
+
+    const markers = {
+      added: c.success('+'),
+      dropped: c.error('-'),
+      altered: c.warning('~'),
+    };
+    const kindWidth = Math.max(...diff.changes.map((change) => change.kind.length));
+    for (const change of diff.changes) {
+      this.writeln(`  ${markers[change.type]} ${c.muted(change.kind.padEnd(kindWidth))} ${change.name}`);
     }
   }
 
@@ -226,10 +581,45 @@ export class UIRenderer {
     detail?: string;
     hint?: string;
     fileName?: string;
+    statement?: {
+      index: number;
+      total: number;
+      text: string;
+      startLine: number;
+      endLine: number;
+      sourceFile?: string;
+    };
+    timeout?: {
+      kind: 'statement' | 'lock' | 'idle-in-transaction';
+      setting: string;
+      value?: string;
+    };
   }): void {
     this.writeln();
     this.writeln(`${c.error(symbols.error)} ${c.error('Error:')} ${error.message}`);
 
+    if (error.timeout) {
+      const { setting, value } = error.timeout;
+      this.writeln(`  ${c.label('Timeout:')} ${c.warning(`${setting}${value ? ` (${value})` : ''} exceeded`)}`);
+      this.writeln(`  ${c.muted(TIMEOUT_HELP[error.timeout.kind])}`);
+    }
+
+    if (error.statement) {
+      const { index, total, text, startLine, endLine, sourceFile } = error.statement;
+      const range = startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+      const lines = sourceFile ? `${range} in ${sourceFile}` : range;
+      this.writeln(`  ${c.label('Statement:')} ${index + 1} of ${total} ${c.muted(`(${lines})`)}`);
+
+      // Preview the first few lines of the failing statement
+      const textLines = text.split('\n');
+      for (const line of textLines.slice(0, 3)) {
+        this.writeln(`    ${c.muted(line)}`);
+      }
+      if (textLines.length > 3) {
+        this.writeln(`    ${c.muted(`... ${textLines.length - 3} more line(s)`)}`);
+      }
+    }
+
     if (error.code) {
       this.writeln(`  ${c.label('Code:')} ${error.code}`);
     }
@@ -256,6 +646,8 @@ export class UIRenderer {
 
     if (data.committed) {
       stats.push(c.success('committed'));
+    } else if (data.rehearsal) {
+      stats.push(c.muted('rolled back'));
     } else {
       stats.push(c.warning('not committed'));
     }
@@ -263,9 +655,22 @@ export class UIRenderer {
     this.writeln(stats.join(c.muted(' • ')));
 
     // Status message
-    if (data.failedFiles === 0 && data.committed) {
+    if (data.rehearsal) {
+      this.writeln();
+      this.writeln(
+        data.failedFiles === 0
+          ? c.success('Rehearsal passed. Every change was rolled back.')
+          : c.error('Rehearsal failed. Every change was rolled back.')
+      );
+    } else if (data.failedFiles === 0 && data.committed) {
       this.writeln();
       this.writeln(c.success('All SQL scripts executed successfully!'));
+    } else if (data.failedFiles > 0 && data.committed) {
+      this.writeln();
+      this.writeln(c.warning(`Committed successful files. ${data.failedFiles} failed file(s) were rolled back.`));
+    } else if (data.failedFiles > 0 && data.committedFiles) {
+      this.writeln();
+      this.writeln(c.warning(`Failed files were rolled back. ${data.committedFiles} file(s) committed earlier were kept.`));
     } else if (data.failedFiles > 0) {
       this.writeln();
       this.writeln(c.error('Transaction rolled back. No changes were made.'));
@@ -275,6 +680,76 @@ export class UIRenderer {
     }
   }
 
+  /**
+   * Render the heading of a target in a multi-target run
+   */
+  targetHeader(name: string, index: number, total: number): void {
+    this.writeln();
+    this.writeln(renderDivider(45));
+    this.writeln(`${c.title(`Target ${index + 1}/${total}`)} ${c.highlight(name)}`);
+  }
+
+  /**
+   * Render a file result prefixed with its target, for targets running in parallel
+   */
+  targetFileResult(target: string, result: FileResult): void {
+    const prefix = c.muted(`[${target}]`);
+    const duration = result.durationMs !== undefined ? `${result.durationMs}ms` : '';
+
+    if (result.success) {
+      this.writeln(`${prefix} ${c.success(symbols.success)} ${result.fileName} ${c.muted(duration)}`);
+    } else {
+      this.writeln(
+        `${prefix} ${c.error(symbols.error)} ${result.fileName} ${c.error(result.error ?? 'failed')}`
+      );
+    }
+  }
+
+  /**
+   * Render one line per target and the totals of a multi-target run
+   */
+  targetsSummary(data: TargetsSummaryData): void {
+    const marks = {
+      succeeded: c.success(symbols.success),
+      failed: c.error(symbols.error),
+      cancelled: c.warning(symbols.warning),
+      skipped: c.muted(symbols.pending),
+    };
+    const width = Math.max(...data.targets.map((target) => target.name.length));
+
+    this.writeln();
+    this.writeln(renderDivider(45));
+    this.writeln();
+    for (const target of data.targets) {
+      const details: string[] = [];
+      if (target.totalFiles !== undefined) {
+        details.push(`${target.successfulFiles ?? 0}/${target.totalFiles} files`);
+      }
+      if (target.durationMs !== undefined) {
+        details.push(`${target.durationMs}ms`);
+      }
+      details.push(target.error ?? target.status);
+      this.writeln(
+        `${marks[target.status]} ${target.name.padEnd(width)}  ${c.muted(details.join(' • '))}`
+      );
+    }
+
+    const count = (status: TargetsSummaryData['targets'][number]['status']) =>
+      data.targets.filter((target) => target.status === status).length;
+    const stats = [
+      c.success(`${count('succeeded')}/${data.targets.length} targets`),
+      c.muted(`${data.totalDurationMs}ms`),
+    ];
+    if (count('failed') > 0) {
+      stats.push(c.error(`${count('failed')} failed`));
+    }
+    if (count('cancelled') + count('skipped') > 0) {
+      stats.push(c.warning(`${count('cancelled') + count('skipped')} not completed`));
+    }
+    this.writeln();
+    this.writeln(stats.join(c.muted(' • ')));
+  }
+
   /**
    * Render info message
    */
@@ -296,6 +771,16 @@ export class UIRenderer {
     this.writeln(`${c.warning(symbols.warning)} ${message}`);
   }
 
+  /**
+   * Render a failed connection attempt that is about to be retried
+   */
+  connectRetry(retry: { attempt: number; maxAttempts: number; delayMs: number; reason: string }): void {
+    const delay = retry.delayMs < 1000 ? `${retry.delayMs}ms` : `${(retry.delayMs / 1000).toFixed(1)}s`;
+    this.writeln(
+      `${c.warning(symbols.warning)} Connection attempt ${retry.attempt} of ${retry.maxAttempts} failed: ${retry.reason} ${c.muted(`- retrying in ${delay}`)}`
+    );
+  }
+
   /**
    * Render error message
    */
@@ -0,0 +1,6 @@
+/**
+ * Package version
+ *
+ * Kept in sync with package.json by scripts/sync-version.js.
+ */
+export const VERSION = '1.0.1';
@@ -20,7 +20,7 @@ import {
   buildRunOptions,
   CLI_DEFAULTS,
 } from '../src/cli/index.js';
-import type { CliArgs, FileSystem, ProcessEnv, CliOutput } from '../src/cli/index.js';
+import type { CliArgs, FileSystem, ProcessEnv, CliOutput, MergedConfig } from '../src/cli/index.js';
 
 // =============================================================================
 // Argument Parser Tests
@@ -97,6 +97,27 @@ describe('ArgParser', () => {
       const result = parser.parse(['--database-url', 'postgres://localhost/db']);
       expect(result.databaseUrl).toBe('postgres://localhost/db');
     });
+
+    it('should collect repeated --database-url options', () => {
+      const result = parser.parse([
+        '-u',
+        'postgres://localhost/alice',
+        '--database-url',
+        'postgres://localhost/shared',
+        '--parallel',
+      ]);
+      expect(result.databaseUrls).toEqual([
+        'postgres://localhost/alice',
+        'postgres://localhost/shared',
+      ]);
+      expect(result.parallel).toBe(true);
+    });
+
+    it('should parse connection retry options', () => {
+      const result = parser.parse(['--connect-retries', '0', '--connect-retry-delay', '2s']);
+      expect(result.connectRetries).toBe(0);
+      expect(result.connectRetryDelay).toBe('2s');
+    });
   });
 
   describe('environment file options', () => {
@@ -114,6 +135,11 @@ describe('ArgParser', () => {
       const result = parser.parse(['--env-file', './config/.env']);
       expect(result.envFile).toBe('./config/.env');
     });
+
+    it('should parse --env-profile option', () => {
+      const result = parser.parse(['--env-profile', 'staging']);
+      expect(result.envProfile).toBe('staging');
+    });
   });
 
   describe('confirmation options', () => {
@@ -181,6 +207,28 @@ describe('ArgParser', () => {
       expect(result.watch).toBe(true);
     });
 
+    it('should parse --allow-production and --confirm-project-ref', () => {
+      const result = parser.parse(['--allow-production', '--confirm-project-ref', 'abcdef']);
+      expect(result.allowProduction).toBe(true);
+      expect(result.confirmProjectRef).toBe('abcdef');
+    });
+
+    it('should collect repeated --confirm-project-ref flags for several targets', () => {
+      const result = parser.parse(['--confirm-project-ref', 'abc', '--confirm-project-ref', 'def']);
+      expect(result.confirmProjectRefs).toEqual(['abc', 'def']);
+    });
+
+    it('should parse --no-production-guard', () => {
+      expect(parser.parse(['--no-production-guard']).noProductionGuard).toBe(true);
+      expect(parser.parse([]).noProductionGuard).toBe(false);
+    });
+
+    it('should parse --drop-dependents with reset', () => {
+      const result = parser.parse(['reset', '--drop-dependents']);
+      expect(result.command).toBe('reset');
+      expect(buildRunOptions(result).dropDependents).toBe(true);
+    });
+
     it('should parse --only option with single file', () => {
       const result = parser.parse(['--only', 'test.sql']);
       expect(result.onlyFiles).toEqual(['test.sql']);
@@ -202,6 +250,177 @@ describe('ArgParser', () => {
     });
   });
 
+  describe('history options', () => {
+    it('should parse --track-history flag', () => {
+      const result = parser.parse(['--track-history']);
+      expect(result.trackHistory).toBe(true);
+    });
+
+    it('should parse --rerun-modified flag', () => {
+      const result = parser.parse(['--rerun-modified']);
+      expect(result.rerunModified).toBe(true);
+    });
+
+    it('should parse history table location', () => {
+      const result = parser.parse(['--history-schema', 'meta', '--history-table', 'applied']);
+      expect(result.historySchema).toBe('meta');
+      expect(result.historyTable).toBe('applied');
+    });
+  });
+
+  describe('transaction options', () => {
+    it('should default to single transaction mode', () => {
+      const result = parser.parse([]);
+      expect(result.transactionMode).toBe('single');
+    });
+
+    it('should parse --transaction-mode option', () => {
+      const result = parser.parse(['--transaction-mode', 'per-file']);
+      expect(result.transactionMode).toBe('per-file');
+    });
+
+    it('should parse timeout options', () => {
+      const result = parser.parse([
+        '--statement-timeout', '30s',
+        '--lock-timeout', '5000',
+        '--idle-in-transaction-timeout', '1min',
+      ]);
+      expect(result.statementTimeout).toBe('30s');
+      expect(result.lockTimeout).toBe('5000');
+      expect(result.idleInTransactionTimeout).toBe('1min');
+    });
+
+    it('should parse --continue-on-error and --commit-on-error flags', () => {
+      const result = parser.parse(['--continue-on-error', '--commit-on-error']);
+      expect(result.continueOnError).toBe(true);
+      expect(result.commitOnError).toBe(true);
+    });
+
+    it('should parse -r and --recursive flags', () => {
+      expect(parser.parse(['-r']).recursive).toBe(true);
+      expect(parser.parse(['--recursive']).recursive).toBe(true);
+      expect(parser.parse([]).recursive).toBe(false);
+    });
+
+    it('should collect repeated --var flags', () => {
+      const result = parser.parse(['--var', 'schema=app', '--var', 'role=anon']);
+      expect(result.vars).toEqual(['schema=app', 'role=anon']);
+    });
+
+    it('should parse advisory lock flags', () => {
+      const result = parser.parse([
+        '--advisory-lock',
+        '--advisory-lock-key',
+        'shared-db',
+        '--advisory-lock-wait',
+        '2min',
+      ]);
+      expect(result.advisoryLock).toBe(true);
+      expect(result.advisoryLockKey).toBe('shared-db');
+      expect(result.advisoryLockWait).toBe('2min');
+    });
+
+    it('should parse the --rehearse flag', () => {
+      expect(parser.parse(['--rehearse']).rehearse).toBe(true);
+      expect(parser.parse([]).rehearse).toBe(false);
+    });
+
+    it('should parse the --schema-diff flag', () => {
+      expect(parser.parse(['--schema-diff']).schemaDiff).toBe(true);
+      expect(parser.parse([]).schemaDiff).toBe(false);
+    });
+
+    it('should parse the --data-files flag', () => {
+      expect(parser.parse(['--data-files']).dataFiles).toBe(true);
+      expect(parser.parse([]).dataFiles).toBe(false);
+    });
+
+    it('should parse the --templates flag', () => {
+      expect(parser.parse(['--templates']).templates).toBe(true);
+      expect(parser.parse([]).templates).toBe(false);
+    });
+
+    it('should parse the --batch-statements flag', () => {
+      expect(parser.parse(['--batch-statements']).batchStatements).toBe(true);
+      expect(parser.parse([]).batchStatements).toBe(false);
+    });
+
+    it('should parse result capture options', () => {
+      const result = parser.parse(['--capture-results', 'all', '--max-result-rows', '5']);
+
+      expect(result.captureResults).toBe('all');
+      expect(result.maxResultRows).toBe(5);
+      expect(parser.parse([]).captureResults).toBe('marked');
+    });
+  });
+
+  describe('commands', () => {
+    it('should default to run command', () => {
+      const result = parser.parse([]);
+      expect(result.command).toBe('run');
+    });
+
+    it('should parse status command', () => {
+      const result = parser.parse(['status']);
+      expect(result.command).toBe('status');
+      expect(result.sqlDirectory).toBe('./sql');
+    });
+
+    it('should parse command followed by directory', () => {
+      const result = parser.parse(['status', './migrations']);
+      expect(result.command).toBe('status');
+      expect(result.sqlDirectory).toBe('./migrations');
+    });
+
+    it('should only treat the first positional as a command', () => {
+      const result = parser.parse(['./migrations', 'status']);
+      expect(result.command).toBe('run');
+      expect(result.sqlDirectory).toBe('status');
+    });
+
+    it('should parse the revert command and its file selection', () => {
+      const last = parser.parse(['revert', '--last', '2']);
+      expect(last.command).toBe('revert');
+      expect(last.revertLast).toBe(2);
+
+      const range = parser.parse(['revert', '--from', '02_views.sql', '--to', '04_seed.sql']);
+      expect(range.revertFrom).toBe('02_views.sql');
+      expect(range.revertTo).toBe('04_seed.sql');
+    });
+
+    it('should parse the reset command and its schemas', () => {
+      const result = parser.parse(['reset', '--reset-schemas', 'public, app']);
+      expect(result.command).toBe('reset');
+      expect(result.resetSchemas).toEqual(['public', 'app']);
+    });
+
+    it('should parse the doctor command', () => {
+      expect(parser.parse(['doctor', '-u', 'postgres://localhost/db']).command).toBe('doctor');
+    });
+
+    it('should take a lone command name as the directory when that directory exists', () => {
+      const withResetDir = new ArgParser((dirPath) => dirPath === 'reset');
+
+      expect(withResetDir.parse(['reset'])).toMatchObject({
+        command: 'run',
+        sqlDirectory: 'reset',
+      });
+      expect(withResetDir.parse(['run', 'reset'])).toMatchObject({
+        command: 'run',
+        sqlDirectory: 'reset',
+      });
+      expect(withResetDir.parse(['reset', 'reset'])).toMatchObject({
+        command: 'reset',
+        sqlDirectory: 'reset',
+      });
+      expect(withResetDir.parse(['reset', '-d', './sql'])).toMatchObject({
+        command: 'reset',
+        sqlDirectory: './sql',
+      });
+      expect(withResetDir.parse(['status']).command).toBe('status');
+    });
+  });
+
   describe('combined options', () => {
     it('should parse multiple options together', () => {
       const result = parser.parse([
@@ -545,6 +764,185 @@ describe('Validators', () => {
         expect(result.error).toContain('--watch and --dry-run cannot be used together');
       });
 
+      it('should reject --dry-run with --rehearse', () => {
+        const validator = new CliValidator();
+        const result = validator.validateArgumentCombinations({
+          dryRun: true,
+          rehearse: true,
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('--dry-run and --rehearse cannot be used together');
+      });
+
+      it('should reject an unknown --transaction-mode', () => {
+        const validator = new CliValidator();
+        const result = validator.validateArgumentCombinations({
+          transactionMode: 'nested' as CliArgs['transactionMode'],
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('Invalid --transaction-mode');
+      });
+
+      it('should reject an unknown --capture-results mode and a bad row cap', () => {
+        const validator = new CliValidator();
+
+        expect(
+          validator.validateArgumentCombinations({
+            captureResults: 'some' as CliArgs['captureResults'],
+          }).error
+        ).toContain('Invalid --capture-results "some"');
+        expect(validator.validateArgumentCombinations({ maxResultRows: 0 }).error).toBe(
+          '--max-result-rows must be a positive whole number.'
+        );
+      });
+
+      it('should reject an invalid timeout', () => {
+        const validator = new CliValidator();
+        const result = validator.validateArgumentCombinations({
+          lockTimeout: 'soon',
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('Invalid --lock-timeout "soon"');
+      });
+
+      it('should warn about --commit-on-error without --continue-on-error', () => {
+        const validator = new CliValidator();
+        const result = validator.validateArgumentCombinations({
+          commitOnError: true,
+        });
+
+        expect(result.valid).toBe(true);
+        expect(result.warnings![0]).toContain('--commit-on-error');
+      });
+
+      it('should reject a malformed --var', () => {
+        const validator = new CliValidator();
+        const result = validator.validateArgumentCombinations({
+          vars: ['schema=app', 'seed-size'],
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('Invalid --var "seed-size"');
+      });
+
+      it('should require a file selection for revert', () => {
+        const validator = new CliValidator();
+
+        expect(validator.validateArgumentCombinations({ command: 'revert' }).error).toContain(
+          'revert needs the files to revert'
+        );
+        expect(
+          validator.validateArgumentCombinations({ command: 'revert', revertLast: 0 }).error
+        ).toContain('--last must be a positive whole number');
+        expect(
+          validator.validateArgumentCombinations({
+            command: 'revert',
+            revertLast: 1,
+            revertFrom: '01_tables.sql',
+          }).error
+        ).toContain('either --last or --from/--to');
+      });
+
+      it('should refuse to reset Supabase-managed schemas or in watch mode', () => {
+        const validator = new CliValidator();
+
+        expect(
+          validator.validateArgumentCombinations({ command: 'reset', resetSchemas: ['auth'] }).error
+        ).toContain('Cannot reset the "auth" schema');
+        expect(validator.validateArgumentCombinations({ command: 'reset', watch: true }).error).toBe(
+          '--watch cannot be used with reset.'
+        );
+        expect(validator.validateArgumentCombinations({ command: 'reset' }).valid).toBe(true);
+      });
+
+      it('should check multi-target options', () => {
+        const validator = new CliValidator();
+        const targets = [
+          { databaseUrl: 'postgres://localhost/a' },
+          { databaseUrl: 'postgres://localhost/b' },
+        ];
+
+        expect(validator.validateArgumentCombinations({ command: 'status', targets }).error).toBe(
+          'Multiple targets only work with the run and reset commands, not status.'
+        );
+        expect(
+          validator.validateArgumentCombinations({ command: 'run', targets, parallel: true }).error
+        ).toContain('Add -y');
+        expect(
+          validator.validateArgumentCombinations({
+            command: 'run',
+            targets,
+            parallel: true,
+            skipConfirmation: true,
+          }).valid
+        ).toBe(true);
+        expect(validator.validateArgumentCombinations({ parallel: true }).warnings).toContain(
+          '--parallel has no effect with a single database.'
+        );
+      });
+
+      it('should warn about revert options outside revert', () => {
+        const validator = new CliValidator();
+        const result = validator.validateArgumentCombinations({ revertLast: 1 });
+
+        expect(result.valid).toBe(true);
+        expect(result.warnings![0]).toContain('only apply to the revert command');
+      });
+
+      it('should check the production override options', () => {
+        const validator = new CliValidator();
+        const targets = [
+          { databaseUrl: 'postgres://localhost/a' },
+          { databaseUrl: 'postgres://localhost/b' },
+        ];
+
+        expect(
+          validator.validateArgumentCombinations({ confirmProjectRef: 'abcdef' }).warnings
+        ).toContain('--confirm-project-ref has no effect without --allow-production.');
+        expect(
+          validator.validateArgumentCombinations({
+            command: 'run',
+            targets,
+            parallel: true,
+            skipConfirmation: true,
+            allowProduction: true,
+          }).error
+        ).toContain('Add --confirm-project-ref');
+      });
+
+      it('should accept config file targets that carry their own project refs', () => {
+        const validator = new CliValidator();
+        const targets = [
+          { databaseUrl: 'postgres://localhost/app_prod', confirmProjectRef: 'app_prod' },
+          { databaseUrl: 'postgres://localhost/shop_prod', confirmProjectRef: 'shop_prod' },
+        ];
+        const args = { command: 'run' as const, parallel: true, skipConfirmation: true };
+
+        expect(
+          validator.validateArgumentCombinations({ ...args, targets, allowProduction: true }).valid
+        ).toBe(true);
+        expect(
+          validator.validateArgumentCombinations({
+            ...args,
+            targets: [targets[0], { databaseUrl: 'postgres://localhost/shop_prod' }],
+            allowProduction: true,
+          }).error
+        ).toContain('Add --confirm-project-ref');
+      });
+
+      it('should warn about lock options without --advisory-lock', () => {
+        const validator = new CliValidator();
+        const result = validator.validateArgumentCombinations({
+          advisoryLockWait: '30s',
+        });
+
+        expect(result.valid).toBe(true);
+        expect(result.warnings![0]).toContain('--advisory-lock');
+      });
+
       it('should warn when --only and --skip are both specified', () => {
         const validator = new CliValidator();
         const result = validator.validateArgumentCombinations({
@@ -741,6 +1139,71 @@ describe('Executor Config Builders', () => {
 
       expect(config.logDirectory).toBeNull();
     });
+
+    it('should pass history tracking options', () => {
+      const args: CliArgs = {
+        ...CLI_DEFAULTS,
+        trackHistory: true,
+        rerunModified: true,
+        historySchema: 'meta',
+        historyTable: 'applied',
+      };
+
+      const config = buildRunnerConfig({
+        databaseUrl: 'postgres://localhost/db',
+        sqlDirectory: '/path/to/sql',
+        args,
+      });
+
+      expect(config.trackHistory).toBe(true);
+      expect(config.rerunModified).toBe(true);
+      expect(config.historySchema).toBe('meta');
+      expect(config.historyTable).toBe('applied');
+    });
+
+    it('should pass continue-on-error options', () => {
+      const args: CliArgs = {
+        ...CLI_DEFAULTS,
+        continueOnError: true,
+        commitOnError: true,
+      };
+
+      const config = buildRunnerConfig({
+        databaseUrl: 'postgres://localhost/db',
+        sqlDirectory: '/path/to/sql',
+        args,
+      });
+
+      expect(config.continueOnError).toBe(true);
+      expect(config.commitOnError).toBe(true);
+    });
+
+    it('should pass timeouts only when set', () => {
+      const config = buildRunnerConfig({
+        databaseUrl: 'postgres://localhost/db',
+        sqlDirectory: '/path/to/sql',
+        args: { ...CLI_DEFAULTS, statementTimeout: '30s' },
+      });
+
+      expect(config.statementTimeout).toBe('30s');
+      expect(config).not.toHaveProperty('lockTimeout');
+    });
+
+    it('should turn the production guard off only with noProductionGuard', () => {
+      const fromConfigFile = buildRunnerConfig({
+        databaseUrl: 'postgres://localhost/db',
+        sqlDirectory: '/path/to/sql',
+        args: { ...CLI_DEFAULTS, productionGuard: false } as MergedConfig,
+      });
+      const fromFlag = buildRunnerConfig({
+        databaseUrl: 'postgres://localhost/db',
+        sqlDirectory: '/path/to/sql',
+        args: { ...CLI_DEFAULTS, noProductionGuard: true },
+      });
+
+      expect(fromConfigFile).not.toHaveProperty('productionGuard');
+      expect(fromFlag.productionGuard).toBe(false);
+    });
   });
 
   describe('buildRunOptions', () => {
@@ -770,6 +1233,17 @@ describe('Executor Config Builders', () => {
       const options = buildRunOptions(args, true);
       expect(options.skipConfirmation).toBe(true);
     });
+
+    it('should pass the production override', () => {
+      const options = buildRunOptions({
+        ...CLI_DEFAULTS,
+        allowProduction: true,
+        confirmProjectRef: 'abcdef',
+      });
+
+      expect(options.allowProduction).toBe(true);
+      expect(options.productionConfirmation).toBe('abcdef');
+    });
   });
 });
 
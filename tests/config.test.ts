@@ -179,6 +179,161 @@ describe('ConfigLoader', () => {
       expect(result.config.ssl).toBe(false);
     });
 
+    it('should normalize history tracking properties', async () => {
+      const config = {
+        trackHistory: true,
+        rerunModified: false,
+        historySchema: 'meta',
+        historyTable: 'applied',
+      };
+      writeFileSync(join(testDir, '.sql-runnerrc.json'), JSON.stringify(config));
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.trackHistory).toBe(true);
+      expect(result.config.rerunModified).toBe(false);
+      expect(result.config.historySchema).toBe('meta');
+      expect(result.config.historyTable).toBe('applied');
+    });
+
+    it('should normalize continue-on-error properties', async () => {
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({ continueOnError: true, commitOnError: 'yes' })
+      );
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.continueOnError).toBe(true);
+      expect(result.config.commitOnError).toBeUndefined();
+    });
+
+    it('should normalize template variables', async () => {
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({ variables: { schema: 'app', seed: 100, debug: false, 'bad-name': 'x', nested: {} } })
+      );
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.variables).toEqual({ schema: 'app', seed: '100', debug: 'false' });
+    });
+
+    it('should normalize recursive', async () => {
+      writeFileSync(join(testDir, '.sql-runnerrc.json'), JSON.stringify({ recursive: true }));
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.recursive).toBe(true);
+    });
+
+    it('should normalize targets given as URLs or objects', async () => {
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({
+          targets: [
+            'postgres://localhost/alice',
+            { name: 'shared', databaseUrl: 'postgres://localhost/shared' },
+            { databaseUrl: 'postgres://localhost/app_prod', confirmProjectRef: 'app_prod' },
+            { name: 'broken' },
+          ],
+          parallel: true,
+        })
+      );
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.targets).toEqual([
+        { databaseUrl: 'postgres://localhost/alice' },
+        { name: 'shared', databaseUrl: 'postgres://localhost/shared' },
+        { databaseUrl: 'postgres://localhost/app_prod', confirmProjectRef: 'app_prod' },
+      ]);
+      expect(result.config.parallel).toBe(true);
+    });
+
+    it('should normalize environment profiles like the top level', async () => {
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({
+          directory: './sql',
+          environments: {
+            staging: {
+              envFile: '.env.staging',
+              yes: 'true',
+              transactionMode: 'per-file',
+              environments: { nested: { directory: './nested' } },
+            },
+            broken: 'not an object',
+          },
+        })
+      );
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.environments).toEqual({
+        staging: { envFile: '.env.staging', transactionMode: 'per-file' },
+        broken: {},
+      });
+    });
+
+    it('should normalize production guard properties', async () => {
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({
+          productionGuard: false,
+          productionAllowList: ['staging-*', 42],
+          productionDenyList: ['abcdefghijklmnop'],
+        })
+      );
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.productionGuard).toBe(false);
+      expect(result.config.productionAllowList).toEqual(['staging-*']);
+      expect(result.config.productionDenyList).toEqual(['abcdefghijklmnop']);
+    });
+
+    it('should normalize advisory lock properties', async () => {
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({ advisoryLock: true, advisoryLockKey: 'shared', advisoryLockWait: 'later' })
+      );
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.advisoryLock).toBe(true);
+      expect(result.config.advisoryLockKey).toBe('shared');
+      expect(result.config.advisoryLockWait).toBeUndefined();
+    });
+
+    it('should normalize timeouts and drop invalid ones', async () => {
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({ statementTimeout: '30s', lockTimeout: 5000, idleInTransactionTimeout: 'later' })
+      );
+
+      const result = await loader.load(testDir);
+
+      expect(result.config.statementTimeout).toBe('30s');
+      expect(result.config.lockTimeout).toBe(5000);
+      expect(result.config.idleInTransactionTimeout).toBeUndefined();
+    });
+
+    it('should only accept known transaction modes', async () => {
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({ transactionMode: 'per-file' })
+      );
+      expect((await loader.load(testDir)).config.transactionMode).toBe('per-file');
+
+      loader.clearCache();
+      writeFileSync(
+        join(testDir, '.sql-runnerrc.json'),
+        JSON.stringify({ transactionMode: 'nested' })
+      );
+      expect((await loader.load(testDir)).config.transactionMode).toBeUndefined();
+    });
+
     it('should normalize array properties', async () => {
       const config = {
         only: ['01_setup.sql', '02_data.sql'],
@@ -317,6 +472,55 @@ describe('ConfigMerger', () => {
       expect(result.ignorePattern).toBe('^skip_');
     });
 
+    it('should merge history tracking options with CLI priority', () => {
+      const cliArgs: CliArgs = {
+        ...CLI_DEFAULTS,
+        historyTable: 'cli_history',
+      };
+      const fileConfig: ConfigFileSchema = {
+        trackHistory: true,
+        historySchema: 'meta',
+        historyTable: 'config_history',
+      };
+
+      const result = merger.merge(cliArgs, fileConfig);
+
+      expect(result.trackHistory).toBe(true);
+      expect(result.historySchema).toBe('meta');
+      expect(result.historyTable).toBe('cli_history');
+    });
+
+    it('should let CLI timeouts override config file timeouts', () => {
+      const cliArgs: CliArgs = {
+        ...CLI_DEFAULTS,
+        statementTimeout: '1min',
+      };
+      const fileConfig: ConfigFileSchema = {
+        statementTimeout: '30s',
+        lockTimeout: '5s',
+      };
+
+      const result = merger.merge(cliArgs, fileConfig);
+
+      expect(result.statementTimeout).toBe('1min');
+      expect(result.lockTimeout).toBe('5s');
+    });
+
+    it('should let CLI enable continue-on-error over config file', () => {
+      const cliArgs: CliArgs = {
+        ...CLI_DEFAULTS,
+        continueOnError: true,
+      };
+      const fileConfig: ConfigFileSchema = {
+        commitOnError: true,
+      };
+
+      const result = merger.merge(cliArgs, fileConfig);
+
+      expect(result.continueOnError).toBe(true);
+      expect(result.commitOnError).toBe(true);
+    });
+
     it('should preserve help and version flags from CLI', () => {
       const cliArgs: CliArgs = {
         ...CLI_DEFAULTS,
@@ -349,6 +553,112 @@ describe('ConfigMerger', () => {
       // Config file value used since CLI didn't override
       expect(result.logDirectory).toBe('./config-logs');
     });
+
+    it('should merge --var assignments over config file variables', () => {
+      const cliArgs: CliArgs = {
+        ...CLI_DEFAULTS,
+        vars: ['schema=cli_schema', 'seed_size=5=5'],
+      };
+      const fileConfig: ConfigFileSchema = {
+        variables: { schema: 'app', role: 'authenticated' },
+      };
+
+      const result = merger.merge(cliArgs, fileConfig);
+
+      expect(result.variables).toEqual({
+        schema: 'cli_schema',
+        role: 'authenticated',
+        seed_size: '5=5',
+      });
+    });
+
+    it('should let --database-url flags replace the config file targets', () => {
+      const fileConfig: ConfigFileSchema = {
+        targets: ['postgres://localhost/alice', 'postgres://localhost/bob'],
+      };
+
+      expect(merger.merge({ ...CLI_DEFAULTS }, fileConfig).targets).toEqual([
+        { databaseUrl: 'postgres://localhost/alice' },
+        { databaseUrl: 'postgres://localhost/bob' },
+      ]);
+
+      const single = merger.merge(
+        {
+          ...CLI_DEFAULTS,
+          databaseUrl: 'postgres://localhost/carol',
+          databaseUrls: ['postgres://localhost/carol'],
+        },
+        fileConfig
+      );
+      expect(single.targets).toBeUndefined();
+      expect(single.databaseUrl).toBe('postgres://localhost/carol');
+
+      const several = merger.merge(
+        {
+          ...CLI_DEFAULTS,
+          databaseUrls: ['postgres://localhost/a', 'postgres://localhost/b'],
+          parallel: true,
+        },
+        fileConfig
+      );
+      expect(several.targets).toEqual([
+        { databaseUrl: 'postgres://localhost/a' },
+        { databaseUrl: 'postgres://localhost/b' },
+      ]);
+      expect(several.parallel).toBe(true);
+    });
+
+    it('should apply the environment profile between the config file and CLI args', () => {
+      const fileConfig: ConfigFileSchema = {
+        directory: './sql',
+        envFile: '.env',
+        verbose: true,
+        variables: { schema: 'app', role: 'anon' },
+        environments: {
+          staging: {
+            directory: './sql/staging',
+            envFile: '.env.staging',
+            variables: { role: 'authenticated' },
+          },
+        },
+      };
+
+      const result = merger.merge(
+        { ...CLI_DEFAULTS, envProfile: 'staging', envFile: '.env.override' },
+        fileConfig
+      );
+
+      expect(result.envProfile).toBe('staging');
+      expect(result.sqlDirectory).toBe('./sql/staging');
+      expect(result.envFile).toBe('.env.override');
+      expect(result.verbose).toBe(true);
+      expect(result.variables).toEqual({ schema: 'app', role: 'authenticated' });
+    });
+
+    it("should let a profile's database replace the config file targets", () => {
+      const result = merger.merge(
+        { ...CLI_DEFAULTS, envProfile: 'local' },
+        {
+          targets: ['postgres://localhost/alice', 'postgres://localhost/bob'],
+          environments: { local: { databaseUrl: 'postgres://localhost/local' } },
+        }
+      );
+
+      expect(result.targets).toBeUndefined();
+      expect(result.databaseUrl).toBe('postgres://localhost/local');
+    });
+
+    it('should refuse an unknown environment profile', () => {
+      expect(() =>
+        merger.merge(
+          { ...CLI_DEFAULTS, envProfile: 'prod' },
+          { environments: { local: {}, staging: {} } }
+        )
+      ).toThrow('Unknown environment profile "prod". Available profiles: local, staging');
+      expect(() => merger.merge({ ...CLI_DEFAULTS, envProfile: 'prod' }, {})).toThrow(
+        'The config file has no environments section'
+      );
+    });
   });
 });
 
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  parseHeaderDirectives,
+  resolveFileDirectives,
+  readFileDirectives,
+  marksResultSet,
+} from '../src/core/directives.js';
+
+describe('parseHeaderDirectives', () => {
+  it('should parse directives from the header comments', () => {
+    const sql = [
+      '-- Build the email index without locking writes',
+      '-- sql-runner: no-transaction',
+      '',
+      'CREATE INDEX CONCURRENTLY idx_users_email ON users (email);',
+    ].join('\n');
+
+    expect(parseHeaderDirectives(sql)).toEqual([
+      { name: 'no-transaction', value: '', line: 2 },
+    ]);
+  });
+
+  it('should capture directive values', () => {
+    expect(parseHeaderDirectives('-- sql-runner: example some value')).toEqual([
+      { name: 'example', value: 'some value', line: 1 },
+    ]);
+  });
+
+  it('should be case-insensitive for prefix and name', () => {
+    const [directive] = parseHeaderDirectives('--SQL-RUNNER: No-Transaction');
+
+    expect(directive.name).toBe('no-transaction');
+  });
+
+  it('should ignore directives after the first statement', () => {
+    const sql = 'SELECT 1;\n-- sql-runner: no-transaction\n';
+
+    expect(parseHeaderDirectives(sql)).toEqual([]);
+  });
+
+  it('should handle CRLF line endings', () => {
+    const sql = '-- sql-runner: no-transaction\r\nVACUUM;\r\n';
+
+    expect(parseHeaderDirectives(sql)).toHaveLength(1);
+  });
+});
+
+describe('marksResultSet', () => {
+  it('should find the show marker among the comments before a statement', () => {
+    expect(marksResultSet('\n-- Check the backfill\n--  SQL-Runner: show\n')).toBe(true);
+    expect(marksResultSet('\n-- show the users\n')).toBe(false);
+    expect(marksResultSet('\n-- sql-runner: no-transaction\n')).toBe(false);
+  });
+});
+
+describe('resolveFileDirectives', () => {
+  it('should default to transactional execution', () => {
+    expect(resolveFileDirectives('SELECT 1;')).toEqual({
+      noTransaction: false,
+      template: false,
+      timeouts: {},
+    });
+  });
+
+  it('should enable noTransaction', () => {
+    expect(resolveFileDirectives('-- sql-runner: no-transaction\nVACUUM;')).toEqual({
+      noTransaction: true,
+      template: false,
+      timeouts: {},
+    });
+  });
+
+  it('should enable template rendering', () => {
+    expect(resolveFileDirectives('-- sql-runner: template\nSELECT {{ x }};').template).toBe(true);
+  });
+
+  it('should ignore unknown directives', () => {
+    expect(resolveFileDirectives('-- sql-runner: unknown-thing\nSELECT 1;')).toEqual({
+      noTransaction: false,
+      template: false,
+      timeouts: {},
+    });
+  });
+
+  it('should resolve timeout overrides', () => {
+    const sql = [
+      '-- sql-runner: statement-timeout 10min',
+      '-- sql-runner: lock-timeout 5000',
+      '-- sql-runner: idle-in-transaction-timeout 1h',
+      'SELECT 1;',
+    ].join('\n');
+
+    expect(resolveFileDirectives(sql).timeouts).toEqual({
+      statementTimeout: '10min',
+      lockTimeout: '5000',
+      idleInTransactionTimeout: '1h',
+    });
+  });
+
+  it('should reject invalid timeout values', () => {
+    expect(() => resolveFileDirectives('-- sql-runner: lock-timeout soon\nSELECT 1;')).toThrow(
+      'Invalid lock-timeout "soon" on line 1'
+    );
+  });
+});
+
+describe('readFileDirectives', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'directives-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should read directives from a file', () => {
+    const filePath = path.join(testDir, '01_index.sql');
+    fs.writeFileSync(filePath, '-- sql-runner: no-transaction\nCREATE INDEX CONCURRENTLY i ON t (c);');
+
+    expect(readFileDirectives(filePath).noTransaction).toBe(true);
+  });
+
+  it('should name the file in directive errors', () => {
+    const filePath = path.join(testDir, '02_slow.sql');
+    fs.writeFileSync(filePath, '-- sql-runner: statement-timeout\nSELECT 1;');
+
+    expect(() => readFileDirectives(filePath)).toThrow('02_slow.sql: Invalid statement-timeout');
+  });
+});
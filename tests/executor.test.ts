@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import { SqlExecutor } from '../src/core/executor.js';
+import { SqlExecutor, summarizeRowCounts } from '../src/core/executor.js';
 import { SilentLogger } from '../src/core/logger.js';
 import type { ConnectionConfig, Logger } from '../src/types.js';
 import { Client } from 'pg';
@@ -56,6 +56,26 @@ describe('SqlExecutor', () => {
       const mockInstance = getLastMockClient();
       expect(mockInstance?.on).toHaveBeenCalledWith('notice', expect.any(Function));
     });
+
+    it('should close the connection when reading the backend pid fails', async () => {
+      type MockClient = NonNullable<ReturnType<typeof getLastMockClient>>;
+      const internals = executor as unknown as { createClient(): MockClient };
+      const createClient = internals.createClient.bind(executor);
+      let failed: MockClient | undefined;
+      vi.spyOn(internals, 'createClient').mockImplementationOnce(() => {
+        failed = createClient();
+        failed.query.mockRejectedValueOnce(new Error('Connection terminated unexpectedly'));
+        return failed;
+      });
+
+      await expect(executor.connect()).rejects.toThrow('Connection terminated unexpectedly');
+      expect(failed!.end).toHaveBeenCalled();
+      await expect(executor.beginTransaction()).rejects.toThrow('Database not connected');
+
+      // The next attempt starts over with a new client
+      await executor.connect();
+      expect(getLastMockClient()).not.toBe(failed);
+    });
   });
 
   describe('disconnect', () => {
@@ -278,6 +298,411 @@ describe('SqlExecutor', () => {
       expect(result.savepointName).toContain('test');
       expect(result.savepointName).toContain('5');
     });
+
+    it('should skip savepoints when transaction is disabled', async () => {
+      const filePath = path.join(testDir, 'index.sql');
+      fs.writeFileSync(filePath, 'CREATE INDEX CONCURRENTLY idx ON t (c);');
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      const result = await executor.executeFile(filePath, 0, { transaction: false });
+
+      expect(result.success).toBe(true);
+      expect(result.nonTransactional).toBe(true);
+      expect(result.savepointName).toBe('');
+      expect(mockInstance?.query).not.toHaveBeenCalledWith(expect.stringContaining('SAVEPOINT'));
+    });
+
+    it('should not attempt rollback when a non-transactional file fails', async () => {
+      const filePath = path.join(testDir, 'vacuum.sql');
+      fs.writeFileSync(filePath, 'VACUUM nonexistent;');
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      mockInstance!.query.mockClear();
+      mockInstance!.query.mockRejectedValueOnce(new Error('relation does not exist'));
+
+      const result = await executor.executeFile(filePath, 0, { transaction: false });
+
+      expect(result.success).toBe(false);
+      expect(result.rollbackSuccess).toBe(false);
+      expect(result.nonTransactional).toBe(true);
+      expect(mockInstance?.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('executeFile - statements', () => {
+    it('should execute each statement separately', async () => {
+      const filePath = path.join(testDir, 'multi.sql');
+      fs.writeFileSync(filePath, 'CREATE TABLE a (id int);\nINSERT INTO a VALUES (1);\n');
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      const result = await executor.executeFile(filePath, 0);
+
+      expect(mockInstance?.query).toHaveBeenCalledWith('CREATE TABLE a (id int);');
+      expect(mockInstance?.query).toHaveBeenCalledWith('INSERT INTO a VALUES (1);');
+      expect(result.statements).toHaveLength(2);
+      expect(result.statements?.[1]).toMatchObject({ index: 1, startLine: 2, endLine: 2, success: true });
+    });
+
+    it('should report the failing statement and stop', async () => {
+      const filePath = path.join(testDir, 'multi.sql');
+      fs.writeFileSync(filePath, 'SELECT 1;\nSELECT *\nFROM missing;\nSELECT 3;');
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      const pgError = Object.assign(new Error('relation "missing" does not exist'), {
+        position: '15',
+      });
+      mockInstance!.query.mockImplementation((sql: string) =>
+        sql.includes('missing') ? Promise.reject(pgError) : Promise.resolve({ rows: [] })
+      );
+
+      const result = await executor.executeFile(filePath, 0);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.statement).toEqual({
+        index: 1,
+        total: 3,
+        text: 'SELECT *\nFROM missing;',
+        startLine: 2,
+        endLine: 3,
+      });
+      // Position is translated from the statement to the file
+      expect(result.error?.position).toBe('25');
+      expect(result.statements?.map((s) => s.success)).toEqual([true, false]);
+      expect(mockInstance?.query).not.toHaveBeenCalledWith('SELECT 3;');
+    });
+  });
+
+  describe('executeFile - batched statements', () => {
+    it('should send the statements as one query and keep their command tags', async () => {
+      const filePath = path.join(testDir, 'seed.sql');
+      fs.writeFileSync(
+        filePath,
+        'CREATE TABLE t (id int);\nINSERT INTO t VALUES (1) -- first\n;\n\\echo done\nUPDATE t SET id = 2;'
+      );
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      mockInstance!.query.mockImplementation((sql: string) =>
+        Promise.resolve(
+          sql.includes('INSERT')
+            ? [
+                { command: 'SAVEPOINT', rows: [] },
+                { command: 'CREATE', rowCount: null, rows: [] },
+                { command: 'INSERT', rowCount: 1, oid: 0, rows: [] },
+                { command: 'RELEASE', rows: [] },
+              ]
+            : {
+                command: sql.split(' ')[0],
+                rowCount: sql.startsWith('UPDATE') ? 1 : null,
+                rows: [],
+              }
+        )
+      );
+
+      const result = await executor.executeFile(filePath, 0, { batchStatements: true });
+
+      expect(result.success).toBe(true);
+      // The \echo ends the first batch, leaving the UPDATE on its own
+      expect(mockInstance?.query).toHaveBeenCalledWith(
+        `SAVEPOINT "${result.savepointName}_batch";\nCREATE TABLE t (id int);\nINSERT INTO t VALUES (1) -- first\n;\nRELEASE SAVEPOINT "${result.savepointName}_batch";`
+      );
+      expect(mockInstance?.query).toHaveBeenCalledWith('UPDATE t SET id = 2;');
+      expect(result.statements?.map((s) => s.commandTag)).toEqual([
+        'CREATE',
+        'INSERT 0 1',
+        'UPDATE 1',
+      ]);
+    });
+
+    it('should run a failed batch again one statement at a time to find the failing statement', async () => {
+      const filePath = path.join(testDir, 'seed.sql');
+      fs.writeFileSync(filePath, 'SELECT 1;\nSELECT * FROM missing;\nSELECT 3;');
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      mockInstance!.query.mockImplementation((sql: string) =>
+        sql.includes('missing') && !sql.startsWith('ROLLBACK')
+          ? Promise.reject(new Error('relation "missing" does not exist'))
+          : Promise.resolve({ rows: [] })
+      );
+
+      const result = await executor.executeFile(filePath, 0, { batchStatements: true });
+
+      expect(result.success).toBe(false);
+      expect(mockInstance?.query).toHaveBeenCalledWith(
+        `ROLLBACK TO SAVEPOINT "${result.savepointName}_batch"`
+      );
+      expect(result.error?.statement).toMatchObject({ index: 1, startLine: 2 });
+      expect(result.statements?.map((s) => s.success)).toEqual([true, false]);
+      expect(mockInstance?.query).not.toHaveBeenCalledWith('SELECT 3;');
+    });
+
+    it('should not batch files that run outside a transaction', async () => {
+      const filePath = path.join(testDir, 'index.sql');
+      fs.writeFileSync(
+        filePath,
+        'CREATE INDEX CONCURRENTLY a ON t (a);\nCREATE INDEX CONCURRENTLY b ON t (b);'
+      );
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      await executor.executeFile(filePath, 0, { transaction: false, batchStatements: true });
+
+      expect(mockInstance?.query).toHaveBeenCalledWith('CREATE INDEX CONCURRENTLY a ON t (a);');
+      expect(mockInstance?.query).toHaveBeenCalledWith('CREATE INDEX CONCURRENTLY b ON t (b);');
+    });
+  });
+
+  describe('executeFile - row counts', () => {
+    it('should record command tags and total the changed rows', async () => {
+      const filePath = path.join(testDir, 'seed.sql');
+      fs.writeFileSync(
+        filePath,
+        'CREATE TABLE t (id int);\nINSERT INTO t SELECT generate_series(1, 1200);\nUPDATE t SET id = 0 WHERE id < 4;\nINSERT INTO t SELECT 1 WHERE false;'
+      );
+
+      await executor.connect();
+      getLastMockClient()!.query.mockImplementation((sql: string) => {
+        if (sql.startsWith('CREATE'))
+          return Promise.resolve({ command: 'CREATE', rowCount: null, rows: [] });
+        if (sql.startsWith('UPDATE'))
+          return Promise.resolve({ command: 'UPDATE', rowCount: 3, rows: [] });
+        if (sql.startsWith('INSERT')) {
+          const rowCount = sql.includes('false') ? 0 : 1200;
+          return Promise.resolve({ command: 'INSERT', rowCount, oid: 0, rows: [] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      const result = await executor.executeFile(filePath, 0);
+
+      expect(result.statements?.map((s) => s.commandTag)).toEqual([
+        'CREATE',
+        'INSERT 0 1200',
+        'UPDATE 3',
+        'INSERT 0 0',
+      ]);
+      expect(result.statements?.[0].rowCount).toBeUndefined();
+      expect(result.rowCounts).toEqual({ inserted: 1200, updated: 3 });
+    });
+
+    it('should leave out row counts when nothing changed rows', async () => {
+      const filePath = path.join(testDir, 'ddl.sql');
+      fs.writeFileSync(filePath, 'CREATE TABLE t (id int);');
+
+      await executor.connect();
+      const result = await executor.executeFile(filePath, 0);
+
+      expect(result.rowCounts).toBeUndefined();
+    });
+
+    it('should report commands that changed nothing as zero', () => {
+      expect(
+        summarizeRowCounts([
+          {
+            index: 0,
+            startLine: 1,
+            endLine: 1,
+            success: true,
+            durationMs: 1,
+            commandTag: 'DELETE 0',
+            rowCount: 0,
+          },
+          {
+            index: 1,
+            startLine: 2,
+            endLine: 2,
+            success: true,
+            durationMs: 1,
+            commandTag: 'SELECT 5',
+            rowCount: 5,
+          },
+        ])
+      ).toEqual({ deleted: 0 });
+    });
+  });
+
+  describe('executeFile - result sets', () => {
+    const sql = 'INSERT INTO t VALUES (1);\n-- sql-runner: show\nSELECT count(*) FROM t;\nSELECT 2;';
+
+    async function executeWithRows(
+      options: Parameters<SqlExecutor['executeFile']>[2] = {},
+      rows: Record<string, unknown>[] = [{ count: 1 }]
+    ) {
+      const filePath = path.join(testDir, 'results.sql');
+      fs.writeFileSync(filePath, sql);
+
+      await executor.connect();
+      getLastMockClient()!.query.mockImplementation((statement: string) =>
+        Promise.resolve(
+          statement.startsWith('SELECT')
+            ? { rows, rowCount: rows.length, fields: [{ name: 'count' }] }
+            : { rows: [], rowCount: 1 }
+        )
+      );
+
+      return executor.executeFile(filePath, 0, options);
+    }
+
+    it('should capture only statements marked with show by default', async () => {
+      const result = await executeWithRows();
+
+      expect(result.resultSets).toEqual([
+        {
+          statementIndex: 1,
+          startLine: 3,
+          columns: ['count'],
+          rows: [{ count: 1 }],
+          rowCount: 1,
+          truncated: false,
+        },
+      ]);
+    });
+
+    it('should capture every statement that returns rows in all mode', async () => {
+      const result = await executeWithRows({ captureResults: 'all' });
+
+      expect(result.resultSets?.map((r) => r.statementIndex)).toEqual([1, 2]);
+    });
+
+    it('should capture nothing in none mode', async () => {
+      const result = await executeWithRows({ captureResults: 'none' });
+
+      expect(result.resultSets).toBeUndefined();
+    });
+
+    it('should keep at most maxResultRows rows', async () => {
+      const rows = [1, 2, 3, 4].map((count) => ({ count }));
+      const result = await executeWithRows({ maxResultRows: 2 }, rows);
+
+      expect(result.resultSets?.[0]).toMatchObject({
+        rows: [{ count: 1 }, { count: 2 }],
+        rowCount: 4,
+        truncated: true,
+      });
+    });
+  });
+
+  describe('executeFile - psql meta-commands', () => {
+    it('should report failing statements from included files at their original line', async () => {
+      fs.mkdirSync(path.join(testDir, 'common'));
+      fs.writeFileSync(path.join(testDir, 'common', 'grants.sql'), '-- grants\nGRANT SELECT ON missing TO anon;\n');
+      const filePath = path.join(testDir, 'main.sql');
+      fs.writeFileSync(filePath, 'SELECT 1;\n\\ir common/grants.sql\nSELECT 2;');
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      mockInstance!.query.mockImplementation((sql: string) =>
+        sql.includes('missing') ? Promise.reject(new Error('relation "missing" does not exist')) : Promise.resolve({ rows: [] })
+      );
+
+      const result = await executor.executeFile(filePath, 0);
+
+      expect(result.error?.statement).toMatchObject({
+        index: 1,
+        startLine: 2,
+        endLine: 2,
+        sourceFile: 'common/grants.sql',
+      });
+      expect(result.statements?.[0]).not.toHaveProperty('sourceFile');
+    });
+
+    it('should print echo output before the statements that follow it', async () => {
+      const onNotice = vi.fn();
+      executor = new SqlExecutor(mockConfig, mockLogger, onNotice);
+      const filePath = path.join(testDir, 'echo.sql');
+      fs.writeFileSync(filePath, '\\echo starting\nSELECT 1;\n\\echo done');
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      const order: string[] = [];
+      onNotice.mockImplementation((message: string) => order.push(message));
+      mockInstance!.query.mockImplementation((sql: string) => {
+        order.push(sql);
+        return Promise.resolve({ rows: [] });
+      });
+
+      await executor.executeFile(filePath, 0);
+
+      expect(order.filter((entry) => !entry.startsWith('SAVEPOINT') && !entry.startsWith('RELEASE'))).toEqual([
+        'starting',
+        'SELECT 1;',
+        'done',
+      ]);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should set session timeouts', async () => {
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+
+      await executor.setSessionTimeouts({ statementTimeout: '30s', lockTimeout: 5000 });
+
+      expect(mockInstance?.query).toHaveBeenCalledWith("SET statement_timeout = '30s'");
+      expect(mockInstance?.query).toHaveBeenCalledWith("SET lock_timeout = '5000ms'");
+    });
+
+    it('should apply per-file timeouts and restore them afterwards', async () => {
+      const filePath = path.join(testDir, 'slow.sql');
+      fs.writeFileSync(filePath, 'SELECT pg_sleep(1);');
+
+      await executor.connect();
+      await executor.setSessionTimeouts({ statementTimeout: '30s' });
+      const mockInstance = getLastMockClient();
+      mockInstance!.query.mockClear();
+
+      await executor.executeFile(filePath, 0, {
+        timeouts: { statementTimeout: '10min', lockTimeout: '1s' },
+      });
+      const queries = mockInstance!.query.mock.calls.map((call: unknown[]) => call[0]);
+
+      expect(queries.slice(0, 2)).toEqual([
+        "SET statement_timeout = '10min'",
+        "SET lock_timeout = '1s'",
+      ]);
+      expect(queries.slice(-2)).toEqual(["SET statement_timeout = '30s'", 'RESET lock_timeout']);
+    });
+
+    it('should report timeout errors with the setting in effect', async () => {
+      const filePath = path.join(testDir, 'locked.sql');
+      fs.writeFileSync(filePath, 'LOCK TABLE busy;');
+
+      await executor.connect();
+      const mockInstance = getLastMockClient();
+      const pgError = Object.assign(new Error('canceling statement due to lock timeout'), {
+        code: '55P03',
+      });
+      mockInstance!.query.mockImplementation((sql: string) =>
+        sql.startsWith('LOCK') ? Promise.reject(pgError) : Promise.resolve({ rows: [] })
+      );
+
+      const result = await executor.executeFile(filePath, 0, { timeouts: { lockTimeout: '2s' } });
+
+      expect(result.error?.timeout).toEqual({ kind: 'lock', setting: 'lock_timeout', value: '2s' });
+      expect(mockInstance?.query).toHaveBeenLastCalledWith('RESET lock_timeout');
+    });
+  });
+
+  describe('inTransaction', () => {
+    it('should track the open transaction', async () => {
+      await executor.connect();
+      expect(executor.inTransaction).toBe(false);
+
+      await executor.beginTransaction();
+      expect(executor.inTransaction).toBe(true);
+
+      await executor.commit();
+      expect(executor.inTransaction).toBe(false);
+
+      await executor.beginTransaction();
+      await executor.rollback();
+      expect(executor.inTransaction).toBe(false);
+    });
   });
 });
 
@@ -4,6 +4,7 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import {
   scanSqlFiles,
+  matchesFileSelector,
   createSavepointName,
   DEFAULT_FILE_PATTERN,
   DEFAULT_IGNORE_PATTERN,
@@ -97,6 +98,89 @@ describe('scanSqlFiles', () => {
   });
 });
 
+describe('scanSqlFiles - recursive', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sql-runner-recursive-'));
+
+    const files = [
+      '00_extensions.sql',
+      '01_schema/01_tables.sql',
+      '01_schema/functions/01_auth.sql',
+      '01_schema/99_grants.sql',
+      '02_seed/01_users.sql',
+      '02_seed/_ignored_old.sql',
+      '_ignored/01_scratch.sql',
+      '02_seed/README.md',
+    ];
+    for (const file of files) {
+      fs.mkdirSync(path.join(testDir, path.dirname(file)), { recursive: true });
+      fs.writeFileSync(path.join(testDir, file), 'SELECT 1;');
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function scan(recursive: boolean) {
+    return scanSqlFiles(testDir, {
+      filePattern: DEFAULT_FILE_PATTERN,
+      ignorePattern: DEFAULT_IGNORE_PATTERN,
+      recursive,
+    });
+  }
+
+  it('should only read the top level by default', () => {
+    expect(scan(false).files).toEqual(['00_extensions.sql']);
+  });
+
+  it('should order files depth-first by sorted path', () => {
+    const result = scan(true);
+
+    expect(result.files).toEqual([
+      '00_extensions.sql',
+      '01_schema/01_tables.sql',
+      '01_schema/99_grants.sql',
+      '01_schema/functions/01_auth.sql',
+      '02_seed/01_users.sql',
+    ]);
+    expect(result.filePaths[1]).toBe(path.join(testDir, '01_schema', '01_tables.sql'));
+  });
+
+  it('should apply the ignore pattern to every part of the relative path', () => {
+    expect(scan(true).ignoredFiles).toEqual(['02_seed/_ignored_old.sql', '_ignored/01_scratch.sql']);
+  });
+
+  it('should match the ignore pattern against relative paths', () => {
+    const result = scanSqlFiles(testDir, {
+      filePattern: DEFAULT_FILE_PATTERN,
+      ignorePattern: /^01_schema\/functions\//,
+      recursive: true,
+    });
+
+    expect(result.ignoredFiles).toEqual(['01_schema/functions/01_auth.sql']);
+  });
+});
+
+describe('matchesFileSelector', () => {
+  it('should match a relative path exactly', () => {
+    expect(matchesFileSelector('02_seed/01_users.sql', '02_seed/01_users.sql')).toBe(true);
+    expect(matchesFileSelector('02_seed/01_users.sql', '01_users.sql')).toBe(false);
+  });
+
+  it('should match every file under a directory', () => {
+    expect(matchesFileSelector('02_seed/01_users.sql', '02_seed')).toBe(true);
+    expect(matchesFileSelector('02_seed/01_users.sql', './02_seed/')).toBe(true);
+    expect(matchesFileSelector('02_seed_extra/01.sql', '02_seed')).toBe(false);
+  });
+
+  it('should accept backslash separators', () => {
+    expect(matchesFileSelector('02_seed/01_users.sql', '02_seed\\01_users.sql')).toBe(true);
+  });
+});
+
 describe('createSavepointName', () => {
   it('should create valid savepoint name', () => {
     const name = createSavepointName('01_tables.sql', 0);
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { preprocessPsql, readPsqlFile, resolveSourceLine } from '../src/core/psql.js';
+
+describe('preprocessPsql', () => {
+  const file = path.join(os.tmpdir(), 'main.sql');
+
+  it('should return scripts without meta-commands untouched', () => {
+    const sql = 'SELECT 1;\r\nSELECT 2;';
+    const result = preprocessPsql(sql, file);
+
+    expect(result.sql).toBe(sql);
+    expect(resolveSourceLine(result, 2)).toEqual({ file, line: 2 });
+  });
+
+  describe('variables', () => {
+    it('should interpolate plain, literal and identifier references', () => {
+      const result = preprocessPsql(
+        "\\set schema app\n\\set owner 'o''brien'\nCREATE SCHEMA :\"schema\";\nCOMMENT ON SCHEMA :schema IS :'owner';",
+        file
+      );
+
+      expect(result.sql).toBe(
+        'CREATE SCHEMA "app";\nCOMMENT ON SCHEMA app IS \'o\'\'brien\';'
+      );
+    });
+
+    it('should concatenate \\set values and honour \\unset', () => {
+      const result = preprocessPsql('\\set name a b c\nSELECT :\'name\';\n\\unset name\nSELECT :name;', file);
+
+      expect(result.sql).toBe("SELECT 'abc';\nSELECT :name;");
+    });
+
+    it('should use initial variables', () => {
+      const result = preprocessPsql('SELECT :limit;', file, { variables: { limit: '10' } });
+
+      expect(result.sql).toBe('SELECT 10;');
+    });
+
+    it('should not interpolate inside strings, comments, dollar quotes or casts', () => {
+      const sql = [
+        '\\set x 1',
+        "SELECT ':x', 1::int, \":x\"; -- :x",
+        '/* :x',
+        ':x */ SELECT $$ :x $$, :x;',
+      ].join('\n');
+
+      expect(preprocessPsql(sql, file).sql).toBe(
+        [
+          "SELECT ':x', 1::int, \":x\"; -- :x",
+          '/* :x',
+          ':x */ SELECT $$ :x $$, 1;',
+        ].join('\n')
+      );
+    });
+
+    it('should use an escape string for literals containing backslashes', () => {
+      const result = preprocessPsql("\\set path 'C:\\dir'\nSELECT :'path';", file);
+
+      expect(result.sql).toBe("SELECT E'C:\\\\dir';");
+    });
+
+    it('should reject invalid variable names', () => {
+      expect(() => preprocessPsql('\\set 1x value', file)).toThrow(
+        'main.sql: Invalid variable name "1x" on line 1'
+      );
+    });
+  });
+
+  describe('conditionals', () => {
+    it('should keep only the taken branch', () => {
+      const sql = [
+        '\\set env prod',
+        '\\if :{?missing}',
+        'SELECT 1;',
+        '\\elif false',
+        'SELECT 2;',
+        '\\else',
+        'SELECT 3;',
+        '\\endif',
+      ].join('\n');
+
+      const result = preprocessPsql(sql, file);
+
+      expect(result.sql).toBe('SELECT 3;');
+      expect(resolveSourceLine(result, 1)).toEqual({ file, line: 7 });
+    });
+
+    it('should not evaluate conditions inside an inactive branch', () => {
+      const sql = '\\if off\n\\if not-a-boolean\nSELECT 1;\n\\endif\n\\endif\nSELECT 2;';
+
+      expect(preprocessPsql(sql, file).sql).toBe('SELECT 2;');
+    });
+
+    it('should report unbalanced and invalid conditionals', () => {
+      expect(() => preprocessPsql('\\if true\nSELECT 1;', file)).toThrow(
+        'main.sql: \\if without matching \\endif on line 1'
+      );
+      expect(() => preprocessPsql('\\endif', file)).toThrow('\\endif without matching \\if');
+      expect(() => preprocessPsql('\\if maybe\n\\endif', file)).toThrow(
+        'Invalid \\if expression "maybe"'
+      );
+    });
+
+    it('should ignore meta-command lines inside strings', () => {
+      const sql = "\\if true\nSELECT '\n\\endif\n';\n\\endif";
+
+      expect(preprocessPsql(sql, file).sql).toBe("SELECT '\n\\endif\n';");
+    });
+  });
+
+  it('should collect echo output with its position', () => {
+    const result = preprocessPsql('\\echo Creating :name\nSELECT 1;\n\\echo -n done', file, {
+      variables: { name: 'users' },
+    });
+
+    expect(result.echoes).toEqual([
+      { afterLine: 0, message: 'Creating users' },
+      { afterLine: 1, message: 'done' },
+    ]);
+  });
+
+  it('should reject unsupported meta-commands', () => {
+    expect(() => preprocessPsql('SELECT 1;\n\\copy users FROM data.csv', file)).toThrow(
+      'main.sql: Unsupported psql meta-command \\copy on line 2'
+    );
+  });
+});
+
+describe('readPsqlFile', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'psql-test-'));
+    fs.mkdirSync(path.join(testDir, 'common'));
+    originalCwd = process.cwd();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should inline relative includes and map lines back to each file', () => {
+    fs.writeFileSync(path.join(testDir, 'common', 'grants.sql'), '-- grants\nGRANT SELECT ON t TO :role;');
+    fs.writeFileSync(
+      path.join(testDir, 'main.sql'),
+      '\\set role anon\nCREATE TABLE t (id int);\n\\ir common/grants.sql\nSELECT 1;'
+    );
+
+    const result = readPsqlFile(path.join(testDir, 'main.sql'));
+
+    expect(result.sql).toBe(
+      'CREATE TABLE t (id int);\n-- grants\nGRANT SELECT ON t TO anon;\nSELECT 1;'
+    );
+    expect(resolveSourceLine(result, 1)).toEqual({ file: path.join(testDir, 'main.sql'), line: 2 });
+    expect(resolveSourceLine(result, 3)).toEqual({
+      file: path.join(testDir, 'common', 'grants.sql'),
+      line: 2,
+    });
+    expect(resolveSourceLine(result, 4)).toEqual({ file: path.join(testDir, 'main.sql'), line: 4 });
+  });
+
+  it('should resolve \\i against the working directory', () => {
+    fs.writeFileSync(path.join(testDir, 'common', 'a.sql'), 'SELECT 1;');
+    fs.writeFileSync(path.join(testDir, 'common', 'main.sql'), '\\i common/a.sql');
+    process.chdir(testDir);
+
+    expect(readPsqlFile(path.join(testDir, 'common', 'main.sql')).sql).toBe('SELECT 1;');
+  });
+
+  it('should report errors in included files with their own path and line', () => {
+    fs.writeFileSync(path.join(testDir, 'common', 'bad.sql'), 'SELECT 1;\n\\gset');
+    fs.writeFileSync(path.join(testDir, 'main.sql'), '\\ir common/bad.sql');
+
+    expect(() => readPsqlFile(path.join(testDir, 'main.sql'))).toThrow(
+      'common/bad.sql: Unsupported psql meta-command \\gset on line 2'
+    );
+  });
+
+  it('should reject missing and circular includes', () => {
+    fs.writeFileSync(path.join(testDir, 'a.sql'), '\\ir b.sql');
+    fs.writeFileSync(path.join(testDir, 'b.sql'), '\\ir a.sql');
+    fs.writeFileSync(path.join(testDir, 'main.sql'), '\\ir missing.sql');
+
+    expect(() => readPsqlFile(path.join(testDir, 'a.sql'))).toThrow(
+      'Circular include: a.sql -> b.sql -> a.sql'
+    );
+    expect(() => readPsqlFile(path.join(testDir, 'main.sql'))).toThrow(
+      'main.sql: Cannot include "missing.sql": file not found or unreadable on line 1'
+    );
+  });
+});
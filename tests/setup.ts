@@ -3,12 +3,17 @@ import { vi } from 'vitest';
 // Store for tracking mock client instances
 export const mockClientInstances: ReturnType<typeof createMockPgClient>[] = [];
 
+// Backend pid every mock connection reports for `SELECT pg_backend_pid()`
+export const MOCK_BACKEND_PID = 4242;
+
 // Factory function to create mock pg client
 export function createMockPgClient() {
   const mockClient = {
     connect: vi.fn().mockResolvedValue(undefined),
     end: vi.fn().mockResolvedValue(undefined),
-    query: vi.fn().mockResolvedValue({ rows: [] }),
+    query: vi.fn((sql: string) =>
+      Promise.resolve({ rows: sql.includes('pg_backend_pid()') ? [{ pid: MOCK_BACKEND_PID }] : [] })
+    ),
     on: vi.fn(),
     removeListener: vi.fn(),
   };
@@ -32,7 +37,10 @@ vi.mock('pg', () => {
   const MockClientClass = vi.fn().mockImplementation(function(this: ReturnType<typeof createMockPgClient>) {
     this.connect = vi.fn().mockResolvedValue(undefined);
     this.end = vi.fn().mockResolvedValue(undefined);
-    this.query = vi.fn().mockResolvedValue({ rows: [] });
+    // MOCK_BACKEND_PID, written out because vi.mock factories are hoisted above it
+    this.query = vi.fn((sql: string) =>
+      Promise.resolve({ rows: sql.includes('pg_backend_pid()') ? [{ pid: 4242 }] : [] })
+    );
     this.on = vi.fn();
     this.removeListener = vi.fn();
 
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { sleep } from '../src/core/sleep.js';
+
+describe('sleep', () => {
+  it('should wait for the given time', async () => {
+    const started = Date.now();
+    await sleep(20);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+  });
+
+  it('should end early when the signal aborts', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 10);
+
+    await sleep(60_000, controller.signal);
+
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should not wait on a signal that is already aborted', async () => {
+    const started = Date.now();
+    await sleep(60_000, AbortSignal.abort());
+
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
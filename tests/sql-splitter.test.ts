@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { splitSqlStatements } from '../src/core/sql-splitter.js';
+
+function texts(sql: string): string[] {
+  return splitSqlStatements(sql).map((s) => s.text);
+}
+
+describe('splitSqlStatements', () => {
+  it('should split statements on semicolons', () => {
+    expect(texts('CREATE TABLE a (id int);\nINSERT INTO a VALUES (1);')).toEqual([
+      'CREATE TABLE a (id int);',
+      'INSERT INTO a VALUES (1);',
+    ]);
+  });
+
+  it('should keep a final statement without semicolon', () => {
+    expect(texts('SELECT 1;\nSELECT 2')).toEqual(['SELECT 1;', 'SELECT 2']);
+  });
+
+  it('should skip empty statements and comment-only content', () => {
+    expect(texts(';;\n-- just a comment\n/* and another */\n')).toEqual([]);
+  });
+
+  it('should ignore semicolons in line and block comments', () => {
+    const sql = '-- drop; everything\nSELECT 1 /* a; b */;\n/* outer /* nested; */ still; */ SELECT 2;';
+
+    expect(texts(sql)).toEqual(['SELECT 1 /* a; b */;', 'SELECT 2;']);
+  });
+
+  it('should ignore semicolons in string literals and quoted identifiers', () => {
+    const sql = `SELECT 'a;b', 'it''s;', E'\\';', "col;name";\nSELECT 2;`;
+
+    expect(texts(sql)).toEqual([`SELECT 'a;b', 'it''s;', E'\\';', "col;name";`, 'SELECT 2;']);
+  });
+
+  it('should ignore semicolons in dollar-quoted bodies', () => {
+    const sql = [
+      'CREATE FUNCTION f() RETURNS void AS $$',
+      'BEGIN',
+      '  PERFORM 1;',
+      'END;',
+      '$$ LANGUAGE plpgsql;',
+      "DO $body$ BEGIN RAISE NOTICE '$$;'; END $body$;",
+    ].join('\n');
+
+    const statements = splitSqlStatements(sql);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0].text).toContain('END;\n$$ LANGUAGE plpgsql;');
+    expect(statements[1].text).toBe("DO $body$ BEGIN RAISE NOTICE '$$;'; END $body$;");
+  });
+
+  it('should not treat positional parameters as dollar quotes', () => {
+    expect(texts('PREPARE p AS SELECT $1;\nSELECT 2;')).toEqual([
+      'PREPARE p AS SELECT $1;',
+      'SELECT 2;',
+    ]);
+  });
+
+  it('should keep BEGIN ATOMIC bodies together', () => {
+    const sql = [
+      'CREATE FUNCTION g(x int) RETURNS int LANGUAGE sql',
+      'BEGIN ATOMIC',
+      '  SELECT CASE WHEN x > 0 THEN 1 ELSE 0 END;',
+      '  SELECT 2;',
+      'END;',
+      'SELECT 3;',
+    ].join('\n');
+
+    const statements = splitSqlStatements(sql);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0].text.endsWith('END;')).toBe(true);
+    expect(statements[1].text).toBe('SELECT 3;');
+  });
+
+  it('should not treat a transaction BEGIN as a body', () => {
+    expect(texts('BEGIN;\nSELECT 1;\nCOMMIT;')).toEqual(['BEGIN;', 'SELECT 1;', 'COMMIT;']);
+  });
+
+  it('should keep parenthesized rule actions together', () => {
+    const sql = 'CREATE RULE r AS ON INSERT TO t DO ALSO (INSERT INTO a VALUES (1); INSERT INTO b VALUES (2));';
+
+    expect(texts(sql)).toEqual([sql]);
+  });
+
+  it('should report offsets and line ranges', () => {
+    const sql = '-- header\n\nCREATE TABLE a (\n  id int\n);\nSELECT 1;';
+
+    const statements = splitSqlStatements(sql);
+
+    expect(statements[0]).toMatchObject({ startOffset: 11, startLine: 3, endLine: 5 });
+    expect(statements[1]).toMatchObject({ startLine: 6, endLine: 6 });
+  });
+});
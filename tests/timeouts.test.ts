@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidTimeout,
+  formatTimeout,
+  timeoutToMs,
+  detectTimeout,
+  describeTimeout,
+} from '../src/core/timeouts.js';
+
+describe('isValidTimeout', () => {
+  it('should accept milliseconds and duration strings', () => {
+    expect(isValidTimeout(0)).toBe(true);
+    expect(isValidTimeout(30000)).toBe(true);
+    expect(isValidTimeout('30s')).toBe(true);
+    expect(isValidTimeout('5min')).toBe(true);
+    expect(isValidTimeout('1.5 h')).toBe(true);
+    expect(isValidTimeout('250')).toBe(true);
+  });
+
+  it('should reject invalid values', () => {
+    expect(isValidTimeout(-1)).toBe(false);
+    expect(isValidTimeout(1.5)).toBe(false);
+    expect(isValidTimeout('soon')).toBe(false);
+    expect(isValidTimeout('30 seconds')).toBe(false);
+    expect(isValidTimeout("1s'; DROP TABLE users; --")).toBe(false);
+    expect(isValidTimeout(undefined)).toBe(false);
+  });
+});
+
+describe('formatTimeout', () => {
+  it('should format numbers as milliseconds', () => {
+    expect(formatTimeout(1500)).toBe('1500ms');
+  });
+
+  it('should strip whitespace from duration strings', () => {
+    expect(formatTimeout(' 5 min ')).toBe('5min');
+  });
+
+  it('should throw on invalid values', () => {
+    expect(() => formatTimeout('forever')).toThrow('Invalid timeout "forever"');
+  });
+});
+
+describe('timeoutToMs', () => {
+  it('should convert durations to milliseconds', () => {
+    expect(timeoutToMs(1500)).toBe(1500);
+    expect(timeoutToMs('250')).toBe(250);
+    expect(timeoutToMs('30s')).toBe(30000);
+    expect(timeoutToMs('1.5 min')).toBe(90000);
+    expect(timeoutToMs('1h')).toBe(3600000);
+  });
+
+  it('should throw on invalid values', () => {
+    expect(() => timeoutToMs('soon')).toThrow('Invalid timeout "soon"');
+  });
+});
+
+describe('detectTimeout', () => {
+  it('should detect statement timeouts', () => {
+    expect(
+      detectTimeout({ code: '57014', message: 'canceling statement due to statement timeout' })
+    ).toBe('statement');
+  });
+
+  it('should detect lock timeouts', () => {
+    expect(
+      detectTimeout({ code: '55P03', message: 'canceling statement due to lock timeout' })
+    ).toBe('lock');
+  });
+
+  it('should detect idle-in-transaction timeouts', () => {
+    expect(
+      detectTimeout({
+        code: '25P03',
+        message: 'terminating connection due to idle-in-transaction timeout',
+      })
+    ).toBe('idle-in-transaction');
+  });
+
+  it('should ignore cancellation by user request and other errors', () => {
+    expect(
+      detectTimeout({ code: '57014', message: 'canceling statement due to user request' })
+    ).toBeUndefined();
+    expect(detectTimeout({ code: '42P01', message: 'relation does not exist' })).toBeUndefined();
+  });
+});
+
+describe('describeTimeout', () => {
+  it('should include the setting and value in effect', () => {
+    expect(describeTimeout('lock', { lockTimeout: 5000 })).toEqual({
+      kind: 'lock',
+      setting: 'lock_timeout',
+      value: '5000ms',
+    });
+  });
+
+  it('should omit the value when the server default applied', () => {
+    expect(describeTimeout('statement', {})).toEqual({
+      kind: 'statement',
+      setting: 'statement_timeout',
+    });
+  });
+});
@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { renderBanner, renderMinimalBanner } from '../../src/ui/components/banner.js';
 import { renderBox, renderDivider, renderSectionHeader } from '../../src/ui/components/box.js';
-import { renderList, renderKeyValue, renderFileStatus } from '../../src/ui/components/table.js';
+import {
+  renderList,
+  renderFileTree,
+  renderKeyValue,
+  renderFileStatus,
+} from '../../src/ui/components/table.js';
 import { renderProgress, renderCountdown } from '../../src/ui/components/spinner.js';
 import { stripAnsi } from '../../src/ui/theme.js';
 
@@ -165,6 +170,34 @@ describe('UI Components', () => {
 
         expect(plain).toContain('- Item');
       });
+    });
+
+    describe('renderFileTree', () => {
+      it('should group files under their directories', () => {
+        const result = renderFileTree([
+          '00_extensions.sql',
+          '01_schema/01_tables.sql',
+          '01_schema/99_grants.sql',
+          '01_schema/functions/01_auth.sql',
+          '02_seed/01_users.sql',
+        ]);
+
+        expect(stripAnsi(result).split('\n')).toEqual([
+          '• 00_extensions.sql',
+          '▾ 01_schema/',
+          '  • 01_tables.sql',
+          '  • 99_grants.sql',
+          '  ▾ functions/',
+          '    • 01_auth.sql',
+          '▾ 02_seed/',
+          '  • 01_users.sql',
+        ]);
+      });
+
+      it('should render a flat list like renderList', () => {
+        const files = ['01_a.sql', '02_b.sql'];
+        expect(stripAnsi(renderFileTree(files))).toBe(stripAnsi(renderList(files)));
+      });
 
       it('should handle empty array', () => {
         const result = renderList([]);
@@ -218,6 +218,22 @@ describe('UIRenderer', () => {
       expect(plain).toContain('✗');
       expect(plain).toContain('failed');
     });
+
+    it('should show the rows the file changed', () => {
+      ui.fileResultSimple(
+        {
+          fileName: 'seed.sql',
+          success: true,
+          durationMs: 42,
+          rowCounts: { inserted: 1200, updated: 1, deleted: 0 },
+        },
+        0,
+        1
+      );
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('42ms • 1,200 rows inserted, 1 row updated, 0 rows deleted');
+    });
   });
 
   describe('error', () => {
@@ -242,6 +258,167 @@ describe('UIRenderer', () => {
       expect(plain).toContain('42P01');
       expect(plain).toContain('Create the table first');
     });
+
+    it('should explain timeout errors', () => {
+      ui.error({
+        message: 'canceling statement due to statement timeout',
+        timeout: { kind: 'statement', setting: 'statement_timeout', value: '30s' },
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('Timeout: statement_timeout (30s) exceeded');
+      expect(plain).toContain('--statement-timeout');
+    });
+
+    it('should render the failing statement location', () => {
+      ui.error({
+        message: 'relation "missing" does not exist',
+        statement: {
+          index: 1,
+          total: 3,
+          text: 'SELECT *\nFROM missing;',
+          startLine: 2,
+          endLine: 3,
+        },
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('Statement: 2 of 3 (lines 2-3)');
+      expect(plain).toContain('FROM missing;');
+    });
+
+    it('should name the included file a statement came from', () => {
+      ui.error({
+        message: 'relation "missing" does not exist',
+        statement: {
+          index: 0,
+          total: 1,
+          text: 'GRANT SELECT ON missing TO anon;',
+          startLine: 4,
+          endLine: 4,
+          sourceFile: 'common/grants.sql',
+        },
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('Statement: 1 of 1 (line 4 in common/grants.sql)');
+    });
+  });
+
+  describe('failureList', () => {
+    it('should list every failed file', () => {
+      ui.failureList([
+        { fileName: '02_views.sql', message: 'syntax error', line: 4 },
+        { fileName: '05_seed.sql', message: 'duplicate key' },
+      ]);
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('2 files failed');
+      expect(plain).toContain('02_views.sql (line 4) - syntax error');
+      expect(plain).toContain('05_seed.sql - duplicate key');
+    });
+  });
+
+  describe('schemaDiff', () => {
+    it('should list changes with their counts', () => {
+      ui.schemaDiff({
+        changes: [
+          { type: 'added', kind: 'table', name: 'public.users' },
+          { type: 'altered', kind: 'function', name: 'public.is_admin(uuid)' },
+          { type: 'dropped', kind: 'view', name: 'public.old_users' },
+        ],
+        added: 1,
+        dropped: 1,
+        altered: 1,
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('Schema changes (1 added, 1 dropped, 1 altered)');
+      expect(plain).toContain('+ table    public.users');
+      expect(plain).toContain('~ function public.is_admin(uuid)');
+      expect(plain).toContain('- view     public.old_users');
+    });
+
+    it('should say when nothing changed', () => {
+      ui.schemaDiff({ changes: [], added: 0, dropped: 0, altered: 0 });
+
+      expect(stripAnsi(mockStream.output.join(''))).toContain('No schema changes');
+    });
+  });
+
+  describe('doctor', () => {
+    it('should list the checks with suggestions under failures', () => {
+      ui.doctor({
+        checks: [
+          { name: 'Database URL', status: 'pass', message: 'postgres://u:***@h/db' },
+          { name: 'DNS', status: 'warn', message: 'IPv6 only' },
+          {
+            name: 'Connection',
+            status: 'fail',
+            message: 'password authentication failed',
+            help: { title: 'Authentication Failed', suggestions: ['Check the password'] },
+          },
+          { name: 'Permissions', status: 'skip', message: 'Skipped' },
+        ],
+        ok: false,
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('✓ Database URL  postgres://u:***@h/db');
+      expect(plain).toContain('✗ Connection    password authentication failed');
+      expect(plain).toContain('    Check the password');
+      expect(plain).toContain('1 passed • 1 warnings • 1 failed');
+    });
+  });
+
+  describe('targetsSummary', () => {
+    it('should list every target with its outcome and the totals', () => {
+      ui.targetsSummary({
+        targets: [
+          { name: 'alice', status: 'succeeded', successfulFiles: 2, totalFiles: 2, durationMs: 40 },
+          {
+            name: 'shared',
+            status: 'failed',
+            successfulFiles: 1,
+            totalFiles: 2,
+            durationMs: 55,
+            error: 'relation "t" already exists',
+          },
+          { name: 'bob', status: 'skipped' },
+        ],
+        totalDurationMs: 100,
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('✓ alice   2/2 files • 40ms • succeeded');
+      expect(plain).toContain('✗ shared  1/2 files • 55ms • relation "t" already exists');
+      expect(plain).toContain('1/3 targets • 100ms • 1 failed • 1 not completed');
+    });
+  });
+
+  describe('resultSet', () => {
+    it('should render rows as a table under the statement', () => {
+      ui.resultSet({
+        statementIndex: 1,
+        startLine: 3,
+        columns: ['email', 'note'],
+        rows: [
+          { email: 'a@example.com', note: null },
+          { email: 'b@example.com', note: 'x'.repeat(60) },
+        ],
+        rowCount: 5,
+        truncated: true,
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('Statement 2 (line 3): 5 rows');
+      expect(plain).toContain('email');
+      expect(plain).toContain('a@example.com');
+      expect(plain).toContain('NULL');
+      expect(plain).toContain(`${'x'.repeat(39)}…`);
+      expect(plain).not.toContain('x'.repeat(40));
+      expect(plain).toContain('… 3 more rows not shown');
+    });
   });
 
   describe('summary', () => {
@@ -262,6 +439,22 @@ describe('UIRenderer', () => {
       expect(plain).toContain('successfully');
     });
 
+    it('should render a rehearsal as rolled back on purpose', () => {
+      ui.summary({
+        totalFiles: 2,
+        successfulFiles: 2,
+        failedFiles: 0,
+        totalDurationMs: 40,
+        committed: false,
+        rehearsal: true,
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('rolled back');
+      expect(plain).toContain('Rehearsal passed');
+      expect(plain).not.toContain('NOT committed');
+    });
+
     it('should render failed summary', () => {
       ui.summary({
         totalFiles: 5,
@@ -277,6 +470,19 @@ describe('UIRenderer', () => {
       expect(plain).toContain('rolled back');
     });
 
+    it('should render summary committed despite failures', () => {
+      ui.summary({
+        totalFiles: 5,
+        successfulFiles: 3,
+        failedFiles: 2,
+        totalDurationMs: 100,
+        committed: true,
+      });
+      const plain = stripAnsi(mockStream.output.join(''));
+
+      expect(plain).toContain('Committed successful files. 2 failed file(s) were rolled back.');
+    });
+
     it('should render not committed summary', () => {
       ui.summary({
         totalFiles: 3,
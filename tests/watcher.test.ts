@@ -53,8 +53,8 @@ describe('Watcher Module', () => {
     };
 
     // Mock fs.watch to capture callback and return mock watcher
-    vi.mocked(fs.watch).mockImplementation((_path, callback) => {
-      watchCallback = callback as (eventType: string, filename: string | null) => void;
+    vi.mocked(fs.watch).mockImplementation((_path, optionsOrCallback, callback?) => {
+      watchCallback = (callback ?? optionsOrCallback) as (eventType: string, filename: string | null) => void;
       return mockWatcher as unknown as fs.FSWatcher;
     });
 
@@ -128,6 +128,16 @@ describe('Watcher Module', () => {
       expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining('test.sql'));
     });
 
+    it('should watch subdirectories when recursive', () => {
+      const options = createWatchOptions({ recursive: true });
+      startWatcher(options);
+
+      expect(fs.watch).toHaveBeenCalledWith('./sql', { recursive: true }, expect.any(Function));
+
+      watchCallback?.('change', '01_schema/02_tables.sql');
+      expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining('01_schema/02_tables.sql'));
+    });
+
     it('should ignore non-sql file changes', () => {
       const options = createWatchOptions();
       startWatcher(options);